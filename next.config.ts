@@ -63,6 +63,26 @@ const nextConfig: NextConfig = {
           },
         ],
       },
+      {
+        // Self-hosted pdf.js files live in a directory per pdf.js version, so they never change
+        source: '/pdfjs/:version/:path*',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'public, max-age=31536000, immutable',
+          },
+        ],
+      },
+      {
+        // Self-hosted Tesseract files are versioned the same way
+        source: '/tesseract/:version/:path*',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'public, max-age=31536000, immutable',
+          },
+        ],
+      },
     ]
   },
 };
@@ -0,0 +1,24 @@
+// Copies the pdf.js worker, character maps and standard fonts from pdfjs-dist into public/pdfjs/<version>/,
+// so the app serves them itself and PDFs can be read without a CDN or any external network access.
+// The version directory keeps a stale copy from ever being served to a newer pdf.js; manifest.json lets
+// the client check the served worker against pdfjsLib.version.
+import { cpSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const require = createRequire(import.meta.url);
+const packageDir = dirname(require.resolve('pdfjs-dist/package.json'));
+const { version } = JSON.parse(readFileSync(join(packageDir, 'package.json'), 'utf8'));
+
+const publicDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'public', 'pdfjs');
+const targetDir = join(publicDir, version);
+
+rmSync(publicDir, { recursive: true, force: true });
+mkdirSync(targetDir, { recursive: true });
+cpSync(join(packageDir, 'build', 'pdf.worker.min.mjs'), join(targetDir, 'pdf.worker.min.mjs'));
+cpSync(join(packageDir, 'cmaps'), join(targetDir, 'cmaps'), { recursive: true });
+cpSync(join(packageDir, 'standard_fonts'), join(targetDir, 'standard_fonts'), { recursive: true });
+writeFileSync(join(publicDir, 'manifest.json'), JSON.stringify({ version }) + '\n');
+
+console.log(`Copied pdf.js ${version} worker and assets to public/pdfjs/${version}`);
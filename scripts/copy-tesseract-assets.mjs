@@ -0,0 +1,42 @@
+// Copies the Tesseract worker, its WebAssembly cores and the language packs into public/tesseract/<version>/,
+// so local OCR in privacy mode loads everything from this site rather than a CDN and works offline.
+// Only the .wasm.js builds are copied: they embed the WebAssembly binary, and the worker picks the one the
+// browser supports (SIMD or not). The language packs are the @tesseract.js-data devDependencies, in the
+// integer LSTM build the worker's LSTM engine reads. manifest.json tells the client which version directory
+// to load and which languages it has.
+import { cpSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const require = createRequire(import.meta.url);
+const packageDir = dirname(require.resolve('tesseract.js/package.json'));
+const coreDir = dirname(require.resolve('tesseract.js-core/package.json'));
+const { version } = JSON.parse(readFileSync(join(packageDir, 'package.json'), 'utf8'));
+
+const rootDir = join(dirname(fileURLToPath(import.meta.url)), '..');
+const LANGUAGE_PACKAGE_PREFIX = '@tesseract.js-data/';
+const LANGUAGE_DATA_DIR = '4.0.0_best_int';
+const { devDependencies = {} } = JSON.parse(readFileSync(join(rootDir, 'package.json'), 'utf8'));
+const languages = Object.keys(devDependencies)
+  .filter(name => name.startsWith(LANGUAGE_PACKAGE_PREFIX))
+  .map(name => name.slice(LANGUAGE_PACKAGE_PREFIX.length));
+
+const publicDir = join(rootDir, 'public', 'tesseract');
+const targetDir = join(publicDir, version);
+
+rmSync(publicDir, { recursive: true, force: true });
+mkdirSync(join(targetDir, 'core'), { recursive: true });
+mkdirSync(join(targetDir, 'lang'), { recursive: true });
+cpSync(join(packageDir, 'dist', 'worker.min.js'), join(targetDir, 'worker.min.js'));
+for (const file of readdirSync(coreDir).filter(name => name.endsWith('.wasm.js'))) {
+  cpSync(join(coreDir, file), join(targetDir, 'core', file));
+}
+for (const language of languages) {
+  const languageDir = dirname(require.resolve(`${LANGUAGE_PACKAGE_PREFIX}${language}/package.json`));
+  const file = `${language}.traineddata.gz`;
+  cpSync(join(languageDir, LANGUAGE_DATA_DIR, file), join(targetDir, 'lang', file));
+}
+writeFileSync(join(publicDir, 'manifest.json'), JSON.stringify({ version, languages }) + '\n');
+
+console.log(`Copied Tesseract ${version} worker, cores and language packs (${languages.join(', ')}) to public/tesseract/${version}`);
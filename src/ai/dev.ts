@@ -4,3 +4,6 @@
 
 import '@/ai/flows/extract-text-from-image.ts';
 import '@/ai/flows/structure-pdf-data-flow.ts';
+import '@/ai/flows/extract-tables-flow.ts';
+import '@/ai/flows/structure-document-flow.ts';
+import '@/ai/flows/classify-document-flow.ts';
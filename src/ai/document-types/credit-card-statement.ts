@@ -0,0 +1,35 @@
+import {z} from 'genkit';
+
+const CardTransactionSchema = z.object({
+  date: z.string().describe("The transaction date, formatted as YYYY-MM-DD. Infer the year from the statement period."),
+  postingDate: z.string().optional().describe("The posting date if shown separately, formatted as YYYY-MM-DD."),
+  description: z.string().describe("The merchant or transaction description, exactly as shown."),
+  charge: z.number().optional().describe("The amount charged to the card (purchases, fees, interest), as a positive number."),
+  credit: z.number().optional().describe("The amount credited to the card (payments, refunds), as a positive number."),
+}).describe("A single card transaction.");
+
+export const CreditCardStatementSchema = z.object({
+  issuer: z.string().optional().describe("The card issuer or bank name."),
+  cardholderName: z.string().optional().describe("The name of the cardholder."),
+  cardNumberLast4: z.string().optional().describe("The last four digits of the card number."),
+  statementPeriod: z.string().optional().describe("The statement period (e.g., 'Feb 1, 2024 - Feb 29, 2024')."),
+  currency: z.string().optional().describe("The ISO 4217 currency code (e.g., USD, EUR, GBP)."),
+  creditLimit: z.number().optional().describe("The card's credit limit."),
+  previousBalance: z.number().optional().describe("The balance carried over from the previous statement."),
+  paymentDueDate: z.string().optional().describe("The payment due date, formatted as YYYY-MM-DD."),
+  minimumPayment: z.number().optional().describe("The minimum payment due."),
+  transactions: z.array(CardTransactionSchema).describe("ALL card transactions across ALL pages. You MUST extract every single transaction."),
+  totalCharges: z.number().optional().describe("The total of purchases and other charges for the period."),
+  totalCredits: z.number().optional().describe("The total of payments and credits for the period."),
+  interestCharged: z.number().optional().describe("The interest charged for the period."),
+  feesCharged: z.number().optional().describe("The fees charged for the period."),
+  newBalance: z.number().optional().describe("The new balance (statement balance) at the end of the period."),
+});
+export type CreditCardStatementData = z.infer<typeof CreditCardStatementSchema>;
+
+export const CREDIT_CARD_STATEMENT_PROMPT_INSTRUCTIONS = `The document is a CREDIT CARD STATEMENT.
+
+- Extract the issuer, cardholder, last four card digits, statement period, currency and credit limit.
+- Extract the previous balance, new balance, payment due date and minimum payment from the account summary.
+- Extract EVERY transaction. Purchases, fees and interest are charges; payments and refunds are credits.
+- Extract the totals for charges, credits, interest and fees if shown.`;
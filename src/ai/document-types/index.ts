@@ -0,0 +1,96 @@
+/**
+ * @fileOverview Registry of the document types the AI can structure, beyond bank statements.
+ *
+ * Each entry pairs a Zod output schema with the document-specific prompt instructions.
+ * Bank statements are structured by structurePdfDataFlow and are not listed here.
+ * The matching Excel layouts and validation rules live in src/lib/document-types.
+ */
+
+import type {z} from 'genkit';
+import type {DocumentTypeId} from '@/config/document-types';
+import type {StructuredPdfDataOutput} from '@/ai/flows/structure-pdf-data-flow';
+import {InvoiceSchema, INVOICE_PROMPT_INSTRUCTIONS, type InvoiceData} from './invoice';
+import {ReceiptSchema, RECEIPT_PROMPT_INSTRUCTIONS, type ReceiptData} from './receipt';
+import {PayslipSchema, PAYSLIP_PROMPT_INSTRUCTIONS, type PayslipData} from './payslip';
+import {
+  CreditCardStatementSchema,
+  CREDIT_CARD_STATEMENT_PROMPT_INSTRUCTIONS,
+  type CreditCardStatementData,
+} from './credit-card-statement';
+
+export type {InvoiceData, ReceiptData, PayslipData, CreditCardStatementData};
+
+export type RegisteredDocumentTypeId = Exclude<DocumentTypeId, 'bankStatement'>;
+
+export interface DocumentSchemaDefinition {
+  outputSchema: z.ZodTypeAny;
+  promptName: string;
+  instructions: string;
+}
+
+export const DOCUMENT_SCHEMAS: Record<RegisteredDocumentTypeId, DocumentSchemaDefinition> = {
+  creditCardStatement: {
+    outputSchema: CreditCardStatementSchema,
+    promptName: 'extractCreditCardStatementPrompt',
+    instructions: CREDIT_CARD_STATEMENT_PROMPT_INSTRUCTIONS,
+  },
+  invoice: {
+    outputSchema: InvoiceSchema,
+    promptName: 'extractInvoicePrompt',
+    instructions: INVOICE_PROMPT_INSTRUCTIONS,
+  },
+  receipt: {
+    outputSchema: ReceiptSchema,
+    promptName: 'extractReceiptPrompt',
+    instructions: RECEIPT_PROMPT_INSTRUCTIONS,
+  },
+  payslip: {
+    outputSchema: PayslipSchema,
+    promptName: 'extractPayslipPrompt',
+    instructions: PAYSLIP_PROMPT_INSTRUCTIONS,
+  },
+};
+
+/**
+ * Maps each document type to the shape of its structured data.
+ */
+export interface StructuredDocumentDataMap {
+  bankStatement: StructuredPdfDataOutput;
+  creditCardStatement: CreditCardStatementData;
+  invoice: InvoiceData;
+  receipt: ReceiptData;
+  payslip: PayslipData;
+}
+
+export type StructuredDocument = {
+  [K in DocumentTypeId]: { documentType: K; data: StructuredDocumentDataMap[K] };
+}[DocumentTypeId];
+
+/**
+ * Builds the full prompt template for a registered document type.
+ */
+export function buildDocumentPrompt(instructions: string): string {
+  return `You are an expert financial document data extraction AI. Your task is to analyze raw text extracted from a PDF and extract ALL of its information into a structured JSON format.
+
+**DOCUMENT-SPECIFIC INSTRUCTIONS:**
+
+${instructions}
+
+**CRITICAL RULES FOR ACCURACY:**
+
+1.  **EXACT NUMBER PRECISION:** Extract all monetary values with EXACT precision. If the document shows "1,234.56", extract exactly 1234.56. Output plain numbers without currency symbols or thousands separators.
+
+2.  **DATES:** Format all dates as YYYY-MM-DD, inferring the year from the document context. Do not literally output 'YYYY'.
+
+3.  **PROCESS ALL PAGES:** The text may come from multiple pages. Extract every item from every page without skipping, merging or duplicating rows.
+
+4.  **ONLY WHAT IS THERE:** Leave a field out when the document does not show it. Never invent values.
+
+5.  **LAID-OUT TEXT:** Lines written as cells separated by " | " come from the document's columns, one cell per column; an empty cell means that column is blank on that line.
+
+Now, process the following full text and provide the structured JSON.
+
+**Input Text:**
+{{{rawText}}}
+`;
+}
@@ -0,0 +1,32 @@
+import {z} from 'genkit';
+
+const InvoiceLineItemSchema = z.object({
+  description: z.string().describe("The description of the product or service, exactly as shown."),
+  quantity: z.number().optional().describe("The quantity billed, if shown."),
+  unitPrice: z.number().optional().describe("The price per unit, if shown. Extract with EXACT precision."),
+  taxRate: z.number().optional().describe("The tax rate for this line as a percentage (e.g., 20 for 20%), if shown."),
+  amount: z.number().describe("The line total. Extract with EXACT precision - preserve all decimal places."),
+}).describe("A single invoice line item.");
+
+export const InvoiceSchema = z.object({
+  invoiceNumber: z.string().optional().describe("The invoice number or reference."),
+  issueDate: z.string().optional().describe("The invoice date, formatted as YYYY-MM-DD."),
+  dueDate: z.string().optional().describe("The payment due date, formatted as YYYY-MM-DD."),
+  sellerName: z.string().optional().describe("The name of the company issuing the invoice."),
+  sellerTaxId: z.string().optional().describe("The seller's VAT, GST or tax identification number."),
+  buyerName: z.string().optional().describe("The name of the customer being billed."),
+  currency: z.string().optional().describe("The ISO 4217 currency code of the invoice (e.g., USD, EUR, GBP)."),
+  lineItems: z.array(InvoiceLineItemSchema).describe("ALL line items on the invoice across ALL pages. Do not include subtotal, tax or total lines here."),
+  subtotal: z.number().optional().describe("The total before tax and discounts."),
+  discount: z.number().optional().describe("The total discount, as a positive number."),
+  taxTotal: z.number().optional().describe("The total tax amount (VAT, GST, sales tax)."),
+  total: z.number().optional().describe("The final amount due, including tax."),
+});
+export type InvoiceData = z.infer<typeof InvoiceSchema>;
+
+export const INVOICE_PROMPT_INSTRUCTIONS = `The document is an INVOICE.
+
+- Extract the invoice number, issue date, due date, seller, seller tax ID, buyer and currency from the header.
+- Extract EVERY line item with its description, quantity, unit price, tax rate and line amount.
+- Extract the subtotal, discount, tax total and final total from the totals section.
+- Do not list subtotal, tax, shipping summary or total lines as line items.`;
@@ -0,0 +1,27 @@
+import {z} from 'genkit';
+
+const PayslipLineSchema = z.object({
+  description: z.string().describe("The name of the earning or deduction (e.g., 'Basic Salary', 'Income Tax')."),
+  amount: z.number().describe("The amount for this pay period, as a positive number. Extract with EXACT precision."),
+}).describe("A single earning or deduction line.");
+
+export const PayslipSchema = z.object({
+  employerName: z.string().optional().describe("The name of the employer."),
+  employeeName: z.string().optional().describe("The name of the employee."),
+  employeeId: z.string().optional().describe("The employee number or payroll ID."),
+  payPeriod: z.string().optional().describe("The pay period (e.g., 'Mar 1, 2024 - Mar 31, 2024')."),
+  payDate: z.string().optional().describe("The payment date, formatted as YYYY-MM-DD."),
+  currency: z.string().optional().describe("The ISO 4217 currency code (e.g., USD, EUR, GBP)."),
+  earnings: z.array(PayslipLineSchema).describe("ALL earnings for this pay period (salary, overtime, bonus, allowances)."),
+  deductions: z.array(PayslipLineSchema).describe("ALL deductions for this pay period (tax, social security, pension, insurance)."),
+  grossPay: z.number().optional().describe("The total gross pay for this pay period."),
+  totalDeductions: z.number().optional().describe("The total of all deductions for this pay period."),
+  netPay: z.number().optional().describe("The net pay (take-home pay) for this pay period."),
+});
+export type PayslipData = z.infer<typeof PayslipSchema>;
+
+export const PAYSLIP_PROMPT_INSTRUCTIONS = `The document is a PAYSLIP (pay stub).
+
+- Extract the employer, employee, employee ID, pay period, pay date and currency.
+- Extract EVERY earning line and EVERY deduction line for the CURRENT pay period only. Ignore year-to-date columns.
+- Extract the gross pay, total deductions and net pay.`;
@@ -0,0 +1,29 @@
+import {z} from 'genkit';
+
+const ReceiptItemSchema = z.object({
+  description: z.string().describe("The name of the purchased item, exactly as shown."),
+  quantity: z.number().optional().describe("The quantity purchased, if shown."),
+  price: z.number().describe("The total price for this item line. Extract with EXACT precision."),
+}).describe("A single purchased item.");
+
+export const ReceiptSchema = z.object({
+  merchantName: z.string().optional().describe("The name of the store or merchant."),
+  merchantAddress: z.string().optional().describe("The address of the store or merchant."),
+  date: z.string().optional().describe("The purchase date, formatted as YYYY-MM-DD."),
+  time: z.string().optional().describe("The purchase time, formatted as HH:MM (24-hour)."),
+  currency: z.string().optional().describe("The ISO 4217 currency code (e.g., USD, EUR, GBP)."),
+  items: z.array(ReceiptItemSchema).describe("ALL purchased items on the receipt."),
+  subtotal: z.number().optional().describe("The total before tax and tip."),
+  tax: z.number().optional().describe("The total tax amount."),
+  tip: z.number().optional().describe("The tip or gratuity amount."),
+  total: z.number().optional().describe("The total amount paid."),
+  paymentMethod: z.string().optional().describe("How the receipt was paid (e.g., 'Visa ****1234', 'Cash')."),
+});
+export type ReceiptData = z.infer<typeof ReceiptSchema>;
+
+export const RECEIPT_PROMPT_INSTRUCTIONS = `The document is a RECEIPT.
+
+- Extract the merchant name and address, the purchase date and time, and the currency.
+- Extract EVERY purchased item with its quantity and line price.
+- Extract the subtotal, tax, tip, total and payment method.
+- Do not list subtotal, tax, tip, change or total lines as items.`;
@@ -0,0 +1,88 @@
+'use server';
+/**
+ * @fileOverview Classifies raw PDF text before structuring: document type, issuer, language and currency.
+ *
+ * - classifyDocument - A function that identifies what kind of document the text comes from.
+ * - ClassifyDocumentInput - The input type for the classifyDocument function.
+ * - DocumentClassification - The return type for the classifyDocument function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {runWithConversionGrant} from '@/lib/firebase-quota-ledger-service';
+import {resolveLedgerOwner} from '@/lib/quota-ledger-owner';
+import type {ConversionGrantCredentials} from '@/types/conversion-quota';
+import {catchProviderErrors, type ProviderFailure} from '@/ai/provider-errors';
+
+// The first pages are enough to recognise a document; this keeps the call fast and cheap.
+const MAX_CLASSIFICATION_TEXT_LENGTH = 8000;
+
+const DocumentClassificationSchema = z.object({
+  documentType: z.enum(['bankStatement', 'creditCardStatement', 'invoice', 'receipt', 'payslip', 'other'])
+    .describe("The kind of document. Use 'other' when it is none of the listed kinds."),
+  issuerName: z.string().optional().describe("The bank, card issuer, company or merchant that issued the document, if identifiable."),
+  language: z.string().optional().describe("The main language of the document as an ISO 639-1 code (e.g., 'en', 'de', 'fr')."),
+  currency: z.string().optional().describe("The main currency as an ISO 4217 code (e.g., 'USD', 'EUR', 'GBP'), if identifiable."),
+  confidence: z.number().min(0).max(1).describe("How confident you are in the documentType, from 0 (guessing) to 1 (certain)."),
+});
+export type DocumentClassification = z.infer<typeof DocumentClassificationSchema>;
+
+const ClassifyDocumentInputSchema = z.object({
+  rawText: z.string().describe("The raw text extracted from the PDF document, potentially including an OCR output."),
+});
+export type ClassifyDocumentInput = z.infer<typeof ClassifyDocumentInputSchema>;
+
+
+export async function classifyDocument(input: ClassifyDocumentInput, conversionGrant: ConversionGrantCredentials): Promise<DocumentClassification | ProviderFailure> {
+  // Note: AbortSignal cannot be passed to server actions in Next.js
+  // Cancellation should be checked on the client side before calling this function
+  const owner = await resolveLedgerOwner(conversionGrant?.idToken ?? null);
+  return catchProviderErrors(() => runWithConversionGrant(owner, conversionGrant?.grantId, () => classifyDocumentFlow(input)));
+}
+
+const prompt = ai.definePrompt({
+  name: 'classifyDocumentPrompt',
+  input: {schema: ClassifyDocumentInputSchema},
+  output: {schema: DocumentClassificationSchema},
+  prompt: `You are an expert at recognising financial documents. Classify the document from the raw text below, which was extracted from the first pages of a PDF.
+
+**DOCUMENT TYPES:**
+- bankStatement: a current or savings account statement with a running balance.
+- creditCardStatement: a card statement with a payment due date, minimum payment and new balance.
+- invoice: a bill from a seller to a buyer with line items, tax and an amount due.
+- receipt: proof of a completed purchase from a store or merchant.
+- payslip: a pay stub with earnings, deductions and net pay.
+- other: anything else.
+
+**RULES:**
+1. Base the type on the document's structure and wording, not on a single keyword.
+2. Give the issuer exactly as printed (e.g., "HSBC UK Bank plc").
+3. Detect the language from the body text and the currency from amounts, symbols or account details.
+4. Be honest about confidence. Use a value below 0.7 when the text is short, garbled, or fits several types.
+
+**Input Text:**
+{{{rawText}}}
+`,
+});
+
+const classifyDocumentFlow = ai.defineFlow(
+  {
+    name: 'classifyDocumentFlow',
+    inputSchema: ClassifyDocumentInputSchema,
+    outputSchema: DocumentClassificationSchema,
+  },
+  async (input) => {
+    const {output} = await prompt({rawText: input.rawText.slice(0, MAX_CLASSIFICATION_TEXT_LENGTH)});
+
+    if (!output) {
+      throw new Error("AI failed to classify the document. Output was null.");
+    }
+
+    return {
+      ...output,
+      confidence: Math.min(1, Math.max(0, output.confidence)),
+      currency: output.currency?.toUpperCase(),
+      language: output.language?.toLowerCase(),
+    };
+  }
+);
@@ -0,0 +1,101 @@
+'use server';
+/**
+ * @fileOverview Finds every table in raw PDF text and extracts it with its original column headers.
+ *
+ * - extractTables - A function that processes text to extract generic tables (invoices, price lists, reports).
+ * - ExtractTablesInput - The input type for the extractTables function.
+ * - ExtractTablesOutput - The return type for the extractTables function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {runWithConversionGrant} from '@/lib/firebase-quota-ledger-service';
+import {resolveLedgerOwner} from '@/lib/quota-ledger-owner';
+import type {ConversionGrantCredentials} from '@/types/conversion-quota';
+import {catchProviderErrors, type ProviderFailure} from '@/ai/provider-errors';
+
+
+const ExtractedTableSchema = z.object({
+  title: z.string().optional().describe("A short title for the table, taken from the caption or heading above it if present (e.g., 'Line Items', 'Price List')."),
+  headers: z.array(z.string()).describe("The column headers exactly as they appear in the document, in left-to-right order. Do not rename, translate or merge them."),
+  rows: z.array(z.array(z.string())).describe("Every data row of the table. Each row MUST have exactly one cell per header, in the same order as the headers. Use an empty string for empty cells. Preserve cell text exactly as shown, including number formatting."),
+}).describe("A single table found in the document.");
+export type ExtractedTable = z.infer<typeof ExtractedTableSchema>;
+
+const ExtractTablesOutputSchema = z.object({
+  tables: z.array(ExtractedTableSchema).describe("ALL tables found in the document, in the order they appear. Tables that continue across pages with the same headers MUST be merged into one table."),
+});
+export type ExtractTablesOutput = z.infer<typeof ExtractTablesOutputSchema>;
+
+
+const ExtractTablesInputSchema = z.object({
+  rawText: z.string().describe("The raw text extracted from the PDF document, potentially including an OCR output."),
+});
+export type ExtractTablesInput = z.infer<typeof ExtractTablesInputSchema>;
+
+
+export async function extractTables(input: ExtractTablesInput, conversionGrant: ConversionGrantCredentials): Promise<ExtractTablesOutput | ProviderFailure> {
+  // Note: AbortSignal cannot be passed to server actions in Next.js
+  // Cancellation should be checked on the client side before calling this function
+  const owner = await resolveLedgerOwner(conversionGrant?.idToken ?? null);
+  return catchProviderErrors(() => runWithConversionGrant(owner, conversionGrant?.grantId, () => extractTablesFlow(input)));
+}
+
+const prompt = ai.definePrompt({
+  name: 'extractGenericTablesPrompt',
+  input: {schema: ExtractTablesInputSchema},
+  output: {schema: ExtractTablesOutputSchema},
+  prompt: `You are an expert document data extraction AI. Your task is to find EVERY table in raw text extracted from a PDF (for example invoices, price lists, reports or schedules) and return each one as structured JSON.
+
+**CRITICAL RULES:**
+
+1.  **FIND ALL TABLES:** Return every tabular region in the document, in reading order. Do not skip small tables such as totals or tax breakdowns.
+
+2.  **KEEP THE REAL HEADERS:** Use the column headers exactly as printed in the document. Do not rename them to generic names and do not invent columns that are not there. If a table has no header row, use "Column 1", "Column 2", etc.
+
+3.  **ONE CELL PER HEADER:** Every row must have exactly as many cells as there are headers, in the same order. Use an empty string for a blank cell. Never shift values into neighbouring columns.
+
+4.  **PRESERVE VALUES EXACTLY:** Copy cell text exactly as shown, including numbers, currency symbols and dates. Do not reformat or round anything.
+
+5.  **MULTI-PAGE TABLES:** When a table continues on the next page with the same headers, merge it into a single table and do not repeat the header row as data.
+
+6.  **IGNORE NON-TABULAR TEXT:** Paragraphs, addresses, page numbers and legal notes are not tables.
+
+7.  **LAID-OUT TEXT:** Lines written as cells separated by " | " come from the document's columns, one cell per column; an empty cell means that column is blank on that line.
+
+Now, process the following full text and provide the structured JSON with ALL tables.
+
+**Input Text:**
+{{{rawText}}}
+`,
+});
+
+const extractTablesFlow = ai.defineFlow(
+  {
+    name: 'extractTablesFlow',
+    inputSchema: ExtractTablesInputSchema,
+    outputSchema: ExtractTablesOutputSchema,
+  },
+  async (input) => {
+    const {output} = await prompt(input);
+
+    if (!output) {
+      throw new Error("AI failed to extract tables. Output was null.");
+    }
+
+    if (!output.tables || !Array.isArray(output.tables)) {
+        console.warn("AI output was missing 'tables' array. Returning empty list.");
+        return { tables: [] };
+    }
+
+    // Drop tables without headers or rows, and pad/trim rows to the header width.
+    const cleanedTables = output.tables
+      .filter(table => Array.isArray(table.headers) && table.headers.length > 0 && Array.isArray(table.rows) && table.rows.length > 0)
+      .map(table => ({
+        ...table,
+        rows: table.rows.map(row => table.headers.map((_, colIndex) => row[colIndex] ?? '')),
+      }));
+
+    return { tables: cleanedTables };
+  }
+);
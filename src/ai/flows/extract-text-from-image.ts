@@ -9,6 +9,10 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {runWithConversionGrant} from '@/lib/firebase-quota-ledger-service';
+import {resolveLedgerOwner} from '@/lib/quota-ledger-owner';
+import type {ConversionGrantCredentials} from '@/types/conversion-quota';
+import {catchProviderErrors, type ProviderFailure} from '@/ai/provider-errors';
 
 const ExtractTextFromImageInputSchema = z.object({
   photoDataUri: z
@@ -24,10 +28,11 @@ const ExtractTextFromImageOutputSchema = z.object({
 });
 export type ExtractTextFromImageOutput = z.infer<typeof ExtractTextFromImageOutputSchema>;
 
-export async function extractTextFromImage(input: ExtractTextFromImageInput): Promise<ExtractTextFromImageOutput> {
+export async function extractTextFromImage(input: ExtractTextFromImageInput, conversionGrant: ConversionGrantCredentials): Promise<ExtractTextFromImageOutput | ProviderFailure> {
   // Note: AbortSignal cannot be passed to server actions in Next.js
   // Cancellation should be checked on the client side before calling this function
-  return extractTextFromImageFlow(input);
+  const owner = await resolveLedgerOwner(conversionGrant?.idToken ?? null);
+  return catchProviderErrors(() => runWithConversionGrant(owner, conversionGrant?.grantId, () => extractTextFromImageFlow(input)));
 }
 
 const prompt = ai.definePrompt({
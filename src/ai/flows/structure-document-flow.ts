@@ -0,0 +1,80 @@
+'use server';
+/**
+ * @fileOverview Structures raw PDF text using the schema and prompt of the selected document type.
+ *
+ * - structureDocument - A function that extracts structured data for any registered document type.
+ * - StructureDocumentInput - The input type for the structureDocument function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {structurePdfData} from '@/ai/flows/structure-pdf-data-flow';
+import {runWithConversionGrant} from '@/lib/firebase-quota-ledger-service';
+import {resolveLedgerOwner} from '@/lib/quota-ledger-owner';
+import type {ConversionGrantCredentials} from '@/types/conversion-quota';
+import {catchProviderErrors, isProviderFailure, type ProviderFailure} from '@/ai/provider-errors';
+import {
+  DOCUMENT_SCHEMAS,
+  buildDocumentPrompt,
+  type RegisteredDocumentTypeId,
+  type StructuredDocument,
+} from '@/ai/document-types';
+import type {DocumentTypeId} from '@/config/document-types';
+
+const DOCUMENT_TYPE_IDS = ['bankStatement', ...Object.keys(DOCUMENT_SCHEMAS)] as [DocumentTypeId, ...DocumentTypeId[]];
+
+const StructureDocumentInputSchema = z.object({
+  rawText: z.string().describe("The raw text extracted from the PDF document, potentially including an OCR output."),
+  documentType: z.enum(DOCUMENT_TYPE_IDS).describe("The kind of document the text comes from."),
+});
+export type StructureDocumentInput = z.infer<typeof StructureDocumentInputSchema>;
+
+const StructuredDocumentOutputSchema = z.object({
+  documentType: z.enum(DOCUMENT_TYPE_IDS),
+  data: z.record(z.unknown()),
+});
+
+
+export async function structureDocument(input: StructureDocumentInput, conversionGrant: ConversionGrantCredentials): Promise<StructuredDocument | ProviderFailure> {
+  // Note: AbortSignal cannot be passed to server actions in Next.js
+  // Cancellation should be checked on the client side before calling this function
+  // Bank statements keep their dedicated prompt and transaction clean-up.
+  if (input.documentType === 'bankStatement') {
+    const data = await structurePdfData({rawText: input.rawText}, conversionGrant);
+    return isProviderFailure(data) ? data : { documentType: 'bankStatement', data };
+  }
+  const owner = await resolveLedgerOwner(conversionGrant?.idToken ?? null);
+  return catchProviderErrors(() => runWithConversionGrant(owner, conversionGrant?.grantId, async () => (await structureDocumentFlow(input)) as StructuredDocument));
+}
+
+const documentPrompts = Object.fromEntries(
+  (Object.keys(DOCUMENT_SCHEMAS) as RegisteredDocumentTypeId[]).map(id => {
+    const definition = DOCUMENT_SCHEMAS[id];
+    return [id, ai.definePrompt({
+      name: definition.promptName,
+      input: {schema: z.object({rawText: z.string()})},
+      output: {schema: definition.outputSchema},
+      prompt: buildDocumentPrompt(definition.instructions),
+    })];
+  })
+) as Record<RegisteredDocumentTypeId, ReturnType<typeof ai.definePrompt>>;
+
+const structureDocumentFlow = ai.defineFlow(
+  {
+    name: 'structureDocumentFlow',
+    inputSchema: StructureDocumentInputSchema,
+    outputSchema: StructuredDocumentOutputSchema,
+  },
+  async ({rawText, documentType}) => {
+    if (documentType === 'bankStatement') {
+      throw new Error("Bank statements are structured by structurePdfData.");
+    }
+
+    const {output} = await documentPrompts[documentType]({rawText});
+    if (!output) {
+      throw new Error(`AI failed to structure the ${documentType} data. Output was null.`);
+    }
+
+    return { documentType, data: output as Record<string, unknown> };
+  }
+);
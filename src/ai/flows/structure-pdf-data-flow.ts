@@ -10,6 +10,10 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {runWithConversionGrant} from '@/lib/firebase-quota-ledger-service';
+import {resolveLedgerOwner} from '@/lib/quota-ledger-owner';
+import type {ConversionGrantCredentials} from '@/types/conversion-quota';
+import {catchProviderErrors, type ProviderFailure} from '@/ai/provider-errors';
 
 
 const TransactionSchema = z.object({
@@ -18,6 +22,9 @@ const TransactionSchema = z.object({
   debit: z.number().optional().describe("The withdrawal amount (money out), as a positive number. Extract with EXACT precision - preserve all decimal places."),
   credit: z.number().optional().describe("The deposit amount (money in), as a positive number. This is a critical field to find. Extract with EXACT precision - preserve all decimal places."),
   balance: z.number().nullable().describe("CRITICAL: The running balance after the transaction. If a balance value is not present for a transaction row, you MUST output null for this field. The 'balance' key must always be present in the output for every transaction. Extract with EXACT precision - preserve all decimal places."),
+  originalCurrency: z.string().optional().describe("For foreign-currency transactions only: the ISO 4217 code of the currency the transaction was made in (e.g., 'USD' for a dollar card payment on a euro account)."),
+  originalAmount: z.number().optional().describe("For foreign-currency transactions only: the amount in the original currency, as a positive number, before conversion to the account currency."),
+  accountCurrency: z.string().optional().describe("Only for statements that hold several currency sub-accounts: the ISO 4217 code of the sub-account this transaction belongs to."),
 }).describe("A single transaction line item.");
 export type Transaction = z.infer<typeof TransactionSchema>;
 
@@ -28,6 +35,7 @@ const HeaderSchema = z.object({
   statementPeriod: z.string().optional().describe("The statement period (e.g., 'Feb 1, 2024 - Feb 29, 2024')."),
   statementDate: z.string().optional().describe("The statement date if available."),
   openingBalance: z.number().optional().describe("The opening balance at the start of the statement period."),
+  currency: z.string().optional().describe("The ISO 4217 code of the account currency (e.g., 'USD', 'EUR', 'GBP'). Infer it from symbols such as £ or € when no code is printed."),
 }).describe("Header information from the bank statement.");
 
 const FooterSchema = z.object({
@@ -39,10 +47,21 @@ const FooterSchema = z.object({
   summary: z.string().optional().describe("Any summary text or notes from the footer."),
 }).describe("Footer information from the bank statement.");
 
+const SubAccountSchema = z.object({
+  currency: z.string().describe("The ISO 4217 code of the sub-account currency."),
+  accountNumber: z.string().optional().describe("The sub-account number or IBAN, if shown separately."),
+  openingBalance: z.number().optional().describe("The opening balance of this sub-account."),
+  closingBalance: z.number().optional().describe("The closing balance of this sub-account."),
+  totalDebits: z.number().optional().describe("Total of all debit transactions of this sub-account. Extract with EXACT precision."),
+  totalCredits: z.number().optional().describe("Total of all credit transactions of this sub-account. Extract with EXACT precision."),
+}).describe("One currency sub-account of a multi-currency statement.");
+export type SubAccount = z.infer<typeof SubAccountSchema>;
+
 const StructuredPdfDataOutputSchema = z.object({
   header: HeaderSchema.optional().describe("Header information extracted from the statement (bank name, account details, statement period, etc.)."),
   transactions: z.array(TransactionSchema).describe("An array of ALL financial transactions found on the statement across ALL pages. You MUST extract every single transaction without missing any."),
   footer: FooterSchema.optional().describe("Footer information extracted from the statement (totals, closing balance, summary, etc.)."),
+  subAccounts: z.array(SubAccountSchema).optional().describe("Only for statements that hold several currency sub-accounts (e.g., a EUR and a USD pocket): the balances and totals of each one. Omit for single-currency statements."),
 });
 export type StructuredPdfDataOutput = z.infer<typeof StructuredPdfDataOutputSchema>;
 
@@ -53,10 +72,11 @@ const StructurePdfDataInputSchema = z.object({
 export type StructurePdfDataInput = z.infer<typeof StructurePdfDataInputSchema>;
 
 
-export async function structurePdfData(input: StructurePdfDataInput): Promise<StructuredPdfDataOutput> {
+export async function structurePdfData(input: StructurePdfDataInput, conversionGrant: ConversionGrantCredentials): Promise<StructuredPdfDataOutput | ProviderFailure> {
   // Note: AbortSignal cannot be passed to server actions in Next.js
   // Cancellation should be checked on the client side before calling this function
-  return structurePdfDataFlow(input);
+  const owner = await resolveLedgerOwner(conversionGrant?.idToken ?? null);
+  return catchProviderErrors(() => runWithConversionGrant(owner, conversionGrant?.grantId, () => structurePdfDataFlow(input)));
 }
 
 const prompt = ai.definePrompt({
@@ -83,6 +103,7 @@ const prompt = ai.definePrompt({
     - Statement period (e.g., "Feb 1, 2024 - Feb 29, 2024")
     - Statement date if available
     - Opening balance if shown in header
+    - Account currency as an ISO 4217 code (e.g., "GBP" for £, "EUR" for €)
 
 4.  **EXTRACT FOOTER INFORMATION:** Extract footer metadata including:
     - Closing balance
@@ -100,6 +121,8 @@ const prompt = ai.definePrompt({
     
     **IMPORTANT:** The column order in the PDF may differ from the standard order. You must correctly identify which column is which based on the header row, not by position. Map data to the correct fields regardless of PDF column order.
 
+    **LAID-OUT TEXT:** Table lines may be written as cells separated by " | ", one cell per column in the same order as the header line. An empty cell means that column is blank for the row (e.g., "3 Feb | Card payment | 24.50 |  | 39,975.50" has no deposit). Use the cell position under the header to decide whether an amount is a withdrawal or a deposit.
+
 6.  **EXTRACT ALL TRANSACTIONS:** For every single transaction row:
     - Extract 'date' (format as YYYY-MM-DD, infer year from statement period)
     - Extract 'description' (full text, preserve exactly as shown)
@@ -109,6 +132,11 @@ const prompt = ai.definePrompt({
     - Do NOT merge multiple transactions into one row
     - Do NOT skip any transactions
 
+6a. **CURRENCIES:**
+    - Amounts are always in the account currency. For foreign-currency rows (e.g., "USD 25.00 @ 0.92"), also extract 'originalCurrency' and 'originalAmount' (positive, exact precision); omit both for ordinary rows
+    - If the statement holds several currency sub-accounts, set 'accountCurrency' on every transaction and list each sub-account with its own balances and totals in 'subAccounts'. Running balances belong to the sub-account of the row
+    - For single-currency statements, omit 'accountCurrency' and 'subAccounts'
+
 7.  **YEAR INFERENCE AND DATE FORMATTING:** 
     - Find the statement period or year from header (e.g., 'Statement Period: Feb 1, 2024 - Feb 29, 2024')
     - Apply the correct year to ALL transaction dates
@@ -133,6 +161,7 @@ ABC Bank
 Account Number: 1234567890
 Account Holder: John Doe
 Statement Period: Feb 1, 2024 - Feb 29, 2024
+Currency: GBP
 
 Date Narration Withdrawals Deposits Balance
 1 Feb Balance brought forward 40,000.00
@@ -153,7 +182,8 @@ Closing Balance: 44,955.50
     "accountNumber": "1234567890",
     "accountHolderName": "John Doe",
     "statementPeriod": "Feb 1, 2024 - Feb 29, 2024",
-    "openingBalance": 40000.00
+    "openingBalance": 40000.00,
+    "currency": "GBP"
   },
   "transactions": [
     { "date": "2024-02-03", "description": "Card payment - High St Petrol", "debit": 24.50, "balance": 39975.50 },
@@ -194,7 +224,8 @@ const structurePdfDataFlow = ai.defineFlow(
         return { 
           header: output.header,
           transactions: [],
-          footer: output.footer
+          footer: output.footer,
+          subAccounts: output.subAccounts
         };
     }
 
@@ -209,7 +240,8 @@ const structurePdfDataFlow = ai.defineFlow(
     return { 
       header: output.header,
       transactions: cleanedTransactions,
-      footer: output.footer
+      footer: output.footer,
+      subAccounts: output.subAccounts
     };
   }
 );
@@ -0,0 +1,61 @@
+/**
+ * Overload and rate-limit errors of the AI provider, passed from the server actions to the browser as values.
+ * Production builds replace the message of an error thrown by a server action with a digest, so the status
+ * the browser needs to decide on a retry is returned instead; callServer turns it back into a NetworkError.
+ */
+
+// What an AI server action returns instead of throwing when the provider is busy or limiting requests
+export interface ProviderFailure {
+  error: {
+    status: number; // 408, 429 or 5xx
+    message: string;
+  };
+}
+
+// The provider's HTTP status as quoted in its errors, e.g. "[503 Service Unavailable] The model is overloaded"
+const PROVIDER_STATUS_PATTERN = /\[(\d{3}) [A-Za-z ]+\]/;
+// Genkit reports the same conditions with gRPC-style status names
+const GENKIT_STATUSES: Record<string, number> = {
+  DEADLINE_EXCEEDED: 504,
+  RESOURCE_EXHAUSTED: 429,
+  UNAVAILABLE: 503,
+};
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || (status >= 500 && status < 600);
+}
+
+/**
+ * The HTTP status of a provider error worth retrying, or null for any other error.
+ */
+export function providerErrorStatus(error: unknown): number | null {
+  if (!(error instanceof Error)) return null;
+  const { status } = error as Error & { status?: unknown };
+  const candidates = [
+    typeof status === 'number' ? status : null,
+    typeof status === 'string' ? GENKIT_STATUSES[status] ?? null : null,
+    Number(error.message.match(PROVIDER_STATUS_PATTERN)?.[1] ?? NaN),
+  ];
+  return candidates.find((candidate): candidate is number => candidate !== null && isRetryableStatus(candidate)) ?? null;
+}
+
+/**
+ * Runs an AI call on the server, returning overload and rate-limit errors as a ProviderFailure.
+ * Other errors are thrown as they are.
+ */
+export async function catchProviderErrors<T>(call: () => Promise<T>): Promise<T | ProviderFailure> {
+  try {
+    return await call();
+  } catch (error) {
+    const status = providerErrorStatus(error);
+    if (status === null) throw error;
+    console.warn(`AI provider error (${status}):`, error);
+    return { error: { status, message: (error as Error).message } };
+  }
+}
+
+export function isProviderFailure(value: unknown): value is ProviderFailure {
+  if (typeof value !== 'object' || value === null || !('error' in value)) return false;
+  const { error } = value as { error: unknown };
+  return typeof error === 'object' && error !== null && typeof (error as { status?: unknown }).status === 'number';
+}
@@ -7,7 +7,7 @@ import { PayPalScriptProvider, PayPalButtons } from "@paypal/react-paypal-js";
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/use-auth';
 import { PRICING_PLANS, type Plan as PlanType } from '@/config/pricing';
-import { activatePlan, type PlanDetails } from '@/lib/local-storage-limits';
+import { activatePlan, type ActivePlan } from '@/lib/conversion-limits';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import LoadingSpinner from '@/components/core/loading-spinner';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
@@ -71,17 +71,20 @@ function CheckoutFlow() {
       currency: "USD" as const,
     };
 
-    const handleSuccessfulSubscription = (subscriptionID: string) => {
-         const planDetailsToActivate: PlanDetails = {
-            id: plan.id,
-            name: plan.name,
-            conversions: cycle === 'monthly' ? plan.monthlyConversions : plan.annualConversions,
-            cycle: cycle,
-            price: price,
-            trialDays: plan.trialDays,
-        };
-
-        const activatedPlan = activatePlan(currentUser.uid, planDetailsToActivate);
+    const handleSuccessfulSubscription = async (subscriptionID: string) => {
+        let activatedPlan: ActivePlan;
+        try {
+            activatedPlan = await activatePlan(currentUser.uid, plan.id, cycle, subscriptionID);
+        } catch (error) {
+            console.error("Failed to activate plan:", error);
+            toast({
+                variant: 'destructive',
+                title: 'Plan Activation Failed',
+                description: `Your subscription (${subscriptionID}) was received but the plan could not be activated. Please contact support.`,
+                duration: 9000,
+            });
+            return;
+        }
 
         toast({
             title: `${activatedPlan.name} Plan Activated!`,
@@ -163,17 +166,18 @@ function CheckoutFlow() {
                                     label: "subscribe",
                                 }}
                                 createSubscription={(data, actions) => {
+                                    // custom_id ties the subscription to this account; the server checks it before activating the plan
                                     return actions.subscription.create({
                                         plan_id: paypalPlanId,
+                                        custom_id: currentUser.uid,
                                     });
                                 }}
                                 onApprove={(data, actions) => {
                                     toast({ title: 'Processing Subscription...', description: 'Please wait while we finalize your plan.' });
-                                    if (data.subscriptionID) {
-                                      handleSuccessfulSubscription(data.subscriptionID);
-                                    }
                                     // Let the success handler manage the redirect.
-                                    return Promise.resolve();
+                                    return data.subscriptionID
+                                      ? handleSuccessfulSubscription(data.subscriptionID)
+                                      : Promise.resolve();
                                 }}
                                 onError={(err) => {
                                     console.error("PayPal Subscription Error:", err);
@@ -4,7 +4,7 @@
 import { useState, useEffect } from "react";
 import { useAuth } from '@/hooks/use-auth';
 import { useRouter } from 'next/navigation';
-import { getActivePlan, type ActivePlan } from '@/lib/local-storage-limits';
+import { getActivePlan, type ActivePlan } from '@/lib/conversion-limits';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
@@ -34,11 +34,15 @@ export default function SettingsPage() {
     }
     if (currentUser) {
       setIsLoadingPlan(true);
-      const plan = getActivePlan(currentUser.uid);
-      setActivePlan(plan);
-      setIsLoadingPlan(false);
+      getActivePlan(currentUser.uid)
+        .then(setActivePlan)
+        .catch(error => {
+          console.error("Failed to load active plan:", error);
+          toast({ variant: "destructive", title: "Could Not Load Plan", description: "Your plan details could not be loaded. Please refresh the page." });
+        })
+        .finally(() => setIsLoadingPlan(false));
     }
-  }, [currentUser, authLoading, router]);
+  }, [currentUser, authLoading, router, toast]);
   
   const handleSendInvite = async () => {
     const serviceId = process.env.NEXT_PUBLIC_EMAILJS_SERVICE_ID;
@@ -0,0 +1,106 @@
+'use server';
+/**
+ * @fileOverview Server actions that enforce conversion quota through the Firestore ledger.
+ *
+ * - getConversionLimitStatus - Checks whether the caller may run a number of conversions.
+ * - reserveConversionQuota - Charges one conversion of a document and returns the grant the AI server actions require.
+ *   The only way quota is decremented.
+ * - releaseConversionQuota - Gives back a reserved conversion the AI provider failed before it returned anything.
+ * - activateSubscriptionPlan - Starts a plan's billing period once PayPal confirms the subscription.
+ * - getActivePlanForUser - Reads the caller's plan for the current billing period.
+ *
+ * Signed-in callers are identified by a verified Firebase ID token, so usage follows the
+ * account across devices. Guests are identified by an HTTP-only cookie set by the server.
+ */
+
+import { getPayPalSubscription } from '@/lib/paypal-client';
+import { resolveLedgerOwner, verifyUserId } from '@/lib/quota-ledger-owner';
+import {
+  activateQuotaPlan,
+  releaseConversion,
+  reserveConversion,
+  getQuotaActivePlan,
+  getQuotaLimitStatus,
+} from '@/lib/firebase-quota-ledger-service';
+import { PRICING_PLANS, type Plan } from '@/config/pricing';
+import { PermissionError, ValidationError } from '@/types/errors';
+import { logError } from '@/lib/error-handler';
+import type { ActivePlan, BillingCycle, LimitStatus } from '@/types/conversion-quota';
+
+function validateConversionCount(count: number): void {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new ValidationError("Conversion count must be a positive whole number.", 'conversions', count);
+  }
+}
+
+export async function getConversionLimitStatus(idToken: string | null, conversionsRequested: number = 1): Promise<LimitStatus> {
+  validateConversionCount(conversionsRequested);
+  const owner = await resolveLedgerOwner(idToken);
+  return getQuotaLimitStatus(owner, conversionsRequested);
+}
+
+export async function reserveConversionQuota(
+  idToken: string | null,
+  pageCount: number
+): Promise<{ status: LimitStatus; grantId: string | null }> {
+  const owner = await resolveLedgerOwner(idToken);
+  return reserveConversion(owner, pageCount);
+}
+
+export async function releaseConversionQuota(idToken: string | null, grantId: string): Promise<boolean> {
+  if (typeof grantId !== 'string' || !grantId) {
+    throw new ValidationError("A conversion grant is required.", 'grantId', grantId);
+  }
+  const owner = await resolveLedgerOwner(idToken);
+  return releaseConversion(owner, grantId);
+}
+
+export async function activateSubscriptionPlan(
+  idToken: string,
+  planId: Plan['id'],
+  cycle: BillingCycle,
+  subscriptionId: string
+): Promise<ActivePlan> {
+  const userId = await verifyUserId(idToken);
+  // Plan quotas come from the server-side pricing config, never from the client.
+  const plan = PRICING_PLANS.find(p => p.id === planId);
+  if (!plan || (cycle !== 'monthly' && cycle !== 'annual')) {
+    throw new ValidationError("Unknown plan or billing cycle.", 'planId', planId);
+  }
+  if (typeof subscriptionId !== 'string' || !subscriptionId.trim()) {
+    throw new ValidationError("A subscription ID is required.", 'subscriptionId', subscriptionId);
+  }
+
+  // The client only reports the subscription ID; PayPal confirms it is running, for this plan and this user
+  let subscription;
+  try {
+    subscription = await getPayPalSubscription(subscriptionId);
+  } catch (error) {
+    logError(error, { operation: 'activateSubscriptionPlan', userId, subscriptionId });
+    throw new ValidationError("The subscription could not be found at PayPal.", 'subscriptionId', subscriptionId);
+  }
+  const expectedPayPalPlanId = cycle === 'monthly' ? plan.monthlyPlanId : plan.annualPlanId;
+  if (subscription.status !== 'ACTIVE') {
+    throw new ValidationError(`The subscription is not active (${subscription.status}).`, 'subscriptionId', subscriptionId);
+  }
+  if (!expectedPayPalPlanId || subscription.planId !== expectedPayPalPlanId) {
+    throw new ValidationError("The subscription is for a different plan.", 'planId', planId);
+  }
+  if (subscription.customId !== userId) {
+    throw new PermissionError("The subscription belongs to another account.", 'conversion_quotas', 'activate');
+  }
+
+  return activateQuotaPlan(userId, {
+    id: plan.id,
+    name: plan.name,
+    conversions: cycle === 'monthly' ? plan.monthlyConversions : plan.annualConversions,
+    cycle,
+    price: cycle === 'monthly' ? plan.monthlyPrice : plan.annualPrice,
+    trialDays: plan.trialDays,
+  }, subscriptionId);
+}
+
+export async function getActivePlanForUser(idToken: string): Promise<ActivePlan | null> {
+  const userId = await verifyUserId(idToken);
+  return getQuotaActivePlan(userId);
+}
@@ -0,0 +1,283 @@
+"use client";
+
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import type { AccountingExportColumn, AccountingExportField, AccountingExportProfile, AccountingSignConvention } from '@/types/site-settings';
+import { getGeneralSettings, updateGeneralSettings } from '@/lib/firebase-settings-service';
+import { validateExportProfile } from '@/lib/accounting-export';
+import { CSV_DELIMITERS, type CsvDelimiter } from '@/lib/export-formats';
+import { EXPORT_DATE_FORMATS, type ExportDateFormat } from '@/lib/date-formats';
+import { ACCOUNTING_EXPORT_FIELDS, ACCOUNTING_SIGN_CONVENTIONS, BUILT_IN_EXPORT_PROFILES } from '@/config/export-profiles';
+import { PlusCircle, XCircle, ArrowUp, ArrowDown, FileSpreadsheet, Copy } from 'lucide-react';
+import LoadingSpinner from '@/components/core/loading-spinner';
+import { v4 as uuidv4 } from 'uuid';
+
+function createEmptyProfile(): AccountingExportProfile {
+  return {
+    id: uuidv4(),
+    name: '',
+    columns: [
+      { field: 'date', header: 'Date' },
+      { field: 'description', header: 'Description' },
+      { field: 'amount', header: 'Amount' },
+    ],
+    dateFormat: 'YYYY-MM-DD',
+    signConvention: 'signedAmount',
+    delimiter: ',',
+  };
+}
+
+export default function ExportProfilesPage() {
+  const { toast } = useToast();
+  const [profiles, setProfiles] = useState<AccountingExportProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchSettings = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const currentSettings = await getGeneralSettings();
+      setProfiles(currentSettings.customExportProfiles || []);
+    } catch (error) {
+      console.error("Error fetching export profiles:", error);
+      toast({ variant: 'destructive', title: 'Error Fetching Settings', description: 'Could not load export profiles.' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const updateProfile = (id: string, changes: Partial<AccountingExportProfile>) => {
+    setProfiles(prev => prev.map(profile => (profile.id === id ? { ...profile, ...changes } : profile)));
+  };
+
+  const updateColumns = (id: string, update: (columns: AccountingExportColumn[]) => AccountingExportColumn[]) => {
+    setProfiles(prev => prev.map(profile => (profile.id === id ? { ...profile, columns: update(profile.columns) } : profile)));
+  };
+
+  const moveColumn = (id: string, index: number, direction: -1 | 1) => {
+    updateColumns(id, columns => {
+      const target = index + direction;
+      if (target < 0 || target >= columns.length) return columns;
+      const next = [...columns];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleAddProfile = (template?: AccountingExportProfile) => {
+    const profile = template
+      ? { ...template, id: uuidv4(), name: `${template.name} (custom)`, columns: template.columns.map(column => ({ ...column })), isBuiltIn: undefined }
+      : createEmptyProfile();
+    setProfiles(prev => [...prev, profile]);
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    for (const profile of profiles) {
+      const problems = validateExportProfile(profile);
+      if (problems.length > 0) {
+        toast({
+          variant: 'destructive',
+          title: `Invalid profile "${profile.name || 'Untitled'}"`,
+          description: problems.join(' '),
+          duration: 9000,
+        });
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      // Firestore rejects undefined values, so strip the optional built-in marker
+      const customExportProfiles = profiles.map(({ isBuiltIn: _isBuiltIn, ...profile }) => profile);
+      await updateGeneralSettings({ customExportProfiles });
+      toast({ title: 'Export Profiles Saved', description: 'Custom profiles are now available when downloading.' });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Could not save export profiles.';
+      console.error("Error saving export profiles:", error);
+      toast({ variant: 'destructive', title: 'Save Error', description: errorMessage });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="flex h-full items-center justify-center"><LoadingSpinner message="Loading Export Profiles..." /></div>;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-8">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-2xl flex items-center">
+            <FileSpreadsheet className="mr-3 h-7 w-7 text-primary" /> Accounting Export Profiles
+          </CardTitle>
+          <CardDescription>
+            Profiles lay out bank statement transactions as the CSV import file of an accounting package.
+            The built-in profiles below are always available; add custom profiles for other packages or import templates.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {BUILT_IN_EXPORT_PROFILES.map(profile => (
+            <div key={profile.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 font-medium">
+                  {profile.name}
+                  <Badge variant="secondary">Built-in</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {profile.columns.map(column => column.header).join(profile.delimiter + ' ')} · {profile.dateFormat}
+                </p>
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={() => handleAddProfile(profile)} disabled={isSaving}>
+                <Copy className="mr-2 h-4 w-4" /> Copy as Custom
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Custom Profiles</CardTitle>
+          <CardDescription>Set the column order, header names, date format and how amounts are signed.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {profiles.length === 0 && (
+            <p className="text-sm text-muted-foreground">No custom profiles yet.</p>
+          )}
+          {profiles.map(profile => (
+            <div key={profile.id} className="space-y-4 rounded-md border p-4">
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <Label htmlFor={`profile-name-${profile.id}`}>Profile Name</Label>
+                  <Input
+                    id={`profile-name-${profile.id}`}
+                    value={profile.name}
+                    onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+                    placeholder="e.g., FreeAgent"
+                    disabled={isSaving}
+                    className="mt-1"
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setProfiles(prev => prev.filter(item => item.id !== profile.id))}
+                  disabled={isSaving}
+                  className="text-destructive hover:bg-destructive/10"
+                >
+                  <XCircle className="h-5 w-5" />
+                  <span className="sr-only">Remove Profile</span>
+                </Button>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div>
+                  <Label>Date Format</Label>
+                  <Select value={profile.dateFormat} onValueChange={(value) => updateProfile(profile.id, { dateFormat: value as ExportDateFormat })} disabled={isSaving}>
+                    <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {EXPORT_DATE_FORMATS.map(dateFormat => <SelectItem key={dateFormat} value={dateFormat}>{dateFormat}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Sign Convention</Label>
+                  <Select value={profile.signConvention} onValueChange={(value) => updateProfile(profile.id, { signConvention: value as AccountingSignConvention })} disabled={isSaving}>
+                    <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {ACCOUNTING_SIGN_CONVENTIONS.map(item => <SelectItem key={item.id} value={item.id}>{item.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Delimiter</Label>
+                  <Select value={profile.delimiter} onValueChange={(value) => updateProfile(profile.id, { delimiter: value as CsvDelimiter })} disabled={isSaving}>
+                    <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {CSV_DELIMITERS.map(item => <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Columns (in file order)</Label>
+                {profile.columns.map((column, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select
+                      value={column.field}
+                      onValueChange={(value) => updateColumns(profile.id, columns => columns.map((item, i) => (i === index ? { ...item, field: value as AccountingExportField } : item)))}
+                      disabled={isSaving}
+                    >
+                      <SelectTrigger className="w-[220px]"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {ACCOUNTING_EXPORT_FIELDS.map(field => <SelectItem key={field.id} value={field.id}>{field.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      aria-label="Header name"
+                      value={column.header}
+                      onChange={(e) => updateColumns(profile.id, columns => columns.map((item, i) => (i === index ? { ...item, header: e.target.value } : item)))}
+                      placeholder="Header name"
+                      disabled={isSaving}
+                    />
+                    <Button type="button" variant="ghost" size="icon" onClick={() => moveColumn(profile.id, index, -1)} disabled={isSaving || index === 0}>
+                      <ArrowUp className="h-4 w-4" />
+                      <span className="sr-only">Move Up</span>
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => moveColumn(profile.id, index, 1)} disabled={isSaving || index === profile.columns.length - 1}>
+                      <ArrowDown className="h-4 w-4" />
+                      <span className="sr-only">Move Down</span>
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => updateColumns(profile.id, columns => columns.filter((_, i) => i !== index))}
+                      disabled={isSaving}
+                      className="text-destructive hover:bg-destructive/10"
+                    >
+                      <XCircle className="h-4 w-4" />
+                      <span className="sr-only">Remove Column</span>
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateColumns(profile.id, columns => [...columns, { field: 'description', header: '' }])}
+                  disabled={isSaving}
+                >
+                  <PlusCircle className="mr-2 h-4 w-4" /> Add Column
+                </Button>
+              </div>
+            </div>
+          ))}
+          <Button type="button" variant="outline" onClick={() => handleAddProfile()} disabled={isSaving}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Custom Profile
+          </Button>
+        </CardContent>
+        <CardFooter className="flex justify-end border-t pt-6">
+          <Button type="submit" size="lg" disabled={isSaving}>
+            {isSaving ? <LoadingSpinner message="Saving..." /> : 'Save Export Profiles'}
+          </Button>
+        </CardFooter>
+      </Card>
+    </form>
+  );
+}
@@ -10,9 +10,12 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import type { GeneralSiteSettings, SocialLink, CustomScript } from '@/types/site-settings';
+import type { GeneralSiteSettings, SocialLink, CustomScript, OcrPrivacyPolicy } from '@/types/site-settings';
+import { DEFAULT_OCR_PRIVACY_POLICY, OCR_LANGUAGES, OCR_PRIVACY_POLICIES, normalizeOcrLanguages } from '@/config/ocr-languages';
 import { 
   getGeneralSettings, 
   updateGeneralSettings, 
@@ -20,7 +23,7 @@ import {
   deleteSharedSiteLogo,
   PREDEFINED_SOCIAL_MEDIA_PLATFORMS
 } from '@/lib/firebase-settings-service';
-import { PlusCircle, XCircle, FileText, FileCode2, Construction } from 'lucide-react';
+import { PlusCircle, XCircle, FileText, FileCode2, Construction, ShieldCheck } from 'lucide-react';
 // Removed AlertDialog and ImageOff as they were primarily for logo management UI
 import LoadingSpinner from '@/components/core/loading-spinner';
 import { v4 as uuidv4 } from 'uuid';
@@ -115,6 +118,15 @@ export default function GeneralSettingsPage() {
 
   // Removed handleLogoChange and handleRemoveLogo (its logic merged into handleSubmit)
 
+  const handleOcrLanguageToggle = (code: string, enabled: boolean) => {
+    setSettings(prev => {
+      const current = normalizeOcrLanguages(prev.defaultOcrLanguages);
+      const next = enabled ? [...current, code] : current.filter(existing => existing !== code);
+      // At least one language stays selected; normalizeOcrLanguages would fall back to English otherwise
+      return next.length > 0 ? { ...prev, defaultOcrLanguages: next } : prev;
+    });
+  };
+
   const handleSocialLinkChange = (id: string, field: 'url' | 'enabled', value: string | boolean) => {
     setSettings(prev => ({
       ...prev,
@@ -194,6 +206,8 @@ export default function GeneralSettingsPage() {
         robotsTxtContent: settings.robotsTxtContent || DEFAULT_ROBOTS_TXT_CONTENT,
         sitemapXmlContent: settings.sitemapXmlContent || DEFAULT_SITEMAP_XML_CONTENT,
         maintenanceModeEnabled: settings.maintenanceModeEnabled || false,
+        ocrPrivacyMode: settings.ocrPrivacyMode || DEFAULT_OCR_PRIVACY_POLICY,
+        defaultOcrLanguages: normalizeOcrLanguages(settings.defaultOcrLanguages),
       };
 
       await updateGeneralSettings(settingsToUpdate);
@@ -419,6 +433,57 @@ export default function GeneralSettingsPage() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center"><ShieldCheck className="mr-2 h-5 w-5 text-primary" />Privacy Mode</CardTitle>
+          <CardDescription>
+            In privacy mode documents never leave the user's device: scanned pages are read with on-device OCR and
+            bank statements from their layout, without AI. Documents that need AI cannot be converted in privacy mode.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="ocrPrivacyMode">Privacy mode for users</Label>
+            <Select
+              value={settings.ocrPrivacyMode || DEFAULT_OCR_PRIVACY_POLICY}
+              onValueChange={(value) => handleSettingChange('ocrPrivacyMode', value as OcrPrivacyPolicy)}
+              disabled={isSaving}
+            >
+              <SelectTrigger id="ocrPrivacyMode" className="w-[260px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OCR_PRIVACY_POLICIES.map(policy => (
+                  <SelectItem key={policy.id} value={policy.id}>{policy.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {OCR_PRIVACY_POLICIES.find(policy => policy.id === (settings.ocrPrivacyMode || DEFAULT_OCR_PRIVACY_POLICY))?.description}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label>Default OCR languages</Label>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {OCR_LANGUAGES.map(language => (
+                <div key={language.code} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`ocr-language-${language.code}`}
+                    checked={normalizeOcrLanguages(settings.defaultOcrLanguages).includes(language.code)}
+                    onCheckedChange={(checked) => handleOcrLanguageToggle(language.code, checked === true)}
+                    disabled={isSaving}
+                  />
+                  <Label htmlFor={`ocr-language-${language.code}`} className="text-sm font-normal">{language.label}</Label>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Preselected for on-device OCR; users can change them. Each language pack is downloaded once by the browser.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
       <CardFooter className="flex justify-end mt-8 border-t pt-6">
         <Button type="submit" size="lg" disabled={isSaving || isLoading}>
           {isSaving ? <LoadingSpinner message="Saving..." /> : 'Save General Settings'}
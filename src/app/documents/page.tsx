@@ -1,7 +1,7 @@
 
 "use client";
 
-import { useState, useEffect, useCallback, type ChangeEvent } from 'react';
+import { useState, useEffect, useCallback, useMemo, type ChangeEvent } from 'react';
 import { useAuth } from '@/hooks/use-auth';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
@@ -14,7 +14,11 @@ import { useToast } from '@/hooks/use-toast';
 import LoadingSpinner from '@/components/core/loading-spinner';
 import { FileText, UploadCloud, Trash2, AlertCircle, FileSpreadsheet, Eye, Download, Combine } from 'lucide-react';
 import { format } from 'date-fns';
-import { exportToExcel } from '@/lib/excel-export';
+import type { ExcelSheet } from '@/lib/excel-export';
+import ExportFormatPicker from '@/components/core/export-format-picker';
+import { exportData, withExportExtension, DEFAULT_EXPORT_OPTIONS, type ExportFormat, type ExportOptions } from '@/lib/export-formats';
+import { getExportProfiles } from '@/config/export-profiles';
+import { useSettings } from '@/context/settings-context';
 
 const MAX_FILE_COUNT = 12;
 const STORAGE_KEY = 'XLSCONVERT_DOWNLOADED_FILES';
@@ -23,6 +27,7 @@ const TWENTY_FOUR_HOURS_MS = 24 * 60 * 60 * 1000;
 interface StoredExcelFile {
     name: string;
     data: Array<Array<string | number | null>>;
+    sheets?: ExcelSheet[]; // Present for generic table conversions (one entry per table) and exports with a Validation sheet
     timestamp: number;
 }
 
@@ -31,9 +36,13 @@ export default function DocumentsPage() {
     const { currentUser, loading: authLoading } = useAuth();
     const router = useRouter();
     const { toast } = useToast();
+    const { settings } = useSettings();
+    const exportProfiles = useMemo(() => getExportProfiles(settings?.customExportProfiles), [settings?.customExportProfiles]);
 
     const [storedFiles, setStoredFiles] = useState<StoredExcelFile[]>([]);
     const [isLoading, setIsLoading] = useState(true);
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx');
+    const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
 
     const fetchStoredFiles = useCallback(() => {
         setIsLoading(true);
@@ -70,11 +79,13 @@ export default function DocumentsPage() {
 
 
     const handleDownload = (file: StoredExcelFile) => {
+        const fileName = withExportExtension(file.name, exportFormat);
         try {
-            exportToExcel(file.data, file.name);
-            toast({ title: "Download Started", description: `Downloading ${file.name}.` });
+            exportData(file.sheets ?? file.data, exportFormat, fileName, exportOptions);
+            toast({ title: "Download Started", description: `Downloading ${fileName}.` });
         } catch (error) {
-            toast({ variant: 'destructive', title: 'Download Error', description: 'Could not re-download the file.' });
+            const message = error instanceof Error ? error.message : 'Could not re-download the file.';
+            toast({ variant: 'destructive', title: 'Download Error', description: message });
         }
     };
     
@@ -130,12 +141,14 @@ export default function DocumentsPage() {
                  return;
             }
 
-            exportToExcel(combinedData, 'combined-documents.xlsx');
-            toast({ title: 'Download Started', description: 'Downloading combined Excel file.' });
+            const fileName = withExportExtension('combined-documents.xlsx', exportFormat);
+            exportData(combinedData, exportFormat, fileName, exportOptions);
+            toast({ title: 'Download Started', description: `Downloading ${fileName}.` });
 
         } catch (error) {
             console.error("Error combining files:", error);
-            toast({ variant: 'destructive', title: 'Combine Error', description: 'An error occurred while combining the files.' });
+            const message = error instanceof Error ? error.message : 'An error occurred while combining the files.';
+            toast({ variant: 'destructive', title: 'Combine Error', description: message });
         }
     };
     
@@ -151,7 +164,14 @@ export default function DocumentsPage() {
                             This page lists the last {MAX_FILE_COUNT} Excel files you have downloaded in the last 24 hours. This data is stored only in your browser.
                         </CardDescription>
                     </div>
-                    <div className="flex gap-2 mt-4 sm:mt-0 flex-shrink-0">
+                    <div className="flex flex-wrap gap-2 mt-4 sm:mt-0 flex-shrink-0">
+                        <ExportFormatPicker
+                            format={exportFormat}
+                            onFormatChange={setExportFormat}
+                            options={exportOptions}
+                            onOptionsChange={setExportOptions}
+                            profiles={exportProfiles}
+                        />
                          <Button variant="outline" onClick={handleClearHistory} disabled={storedFiles.length === 0}>
                             <Trash2 className="mr-2 h-4 w-4"/> Clear History
                         </Button>
@@ -6,6 +6,17 @@ import FileUploader from '@/components/core/file-uploader';
 import DataPreview from '@/components/core/data-preview';
 import LimitDialog from '@/components/core/limit-dialog';
 import LoadingSpinner from '@/components/core/loading-spinner';
+import DocumentTypeDialog from '@/components/core/document-type-dialog';
+import ClassificationSummary from '@/components/core/classification-summary';
+import ValidationPanel from '@/components/core/validation-panel';
+import ExportFormatPicker from '@/components/core/export-format-picker';
+import BatchQueue from '@/components/core/batch-queue';
+import SaveTemplateDialog from '@/components/core/save-template-dialog';
+import PdfPasswordDialog from '@/components/core/pdf-password-dialog';
+import PageSelector from '@/components/core/page-selector';
+import OcrMissingPages from '@/components/core/ocr-missing-pages';
+import OcrPrivacyControls from '@/components/core/ocr-privacy-controls';
+import OcrComparisonDialog from '@/components/core/ocr-comparison-dialog';
 import dynamic from 'next/dynamic';
 
 // Lazy load FeatureSection to reduce initial bundle size
@@ -16,29 +27,93 @@ const FeatureSection = dynamic(() => import('@/components/core/feature-section')
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Terminal, Download, Trash2, Zap, FileText } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Progress } from '@/components/ui/progress';
+import { Terminal, Download, Trash2, Zap, FileText, Table2, Sparkles, Files, FileArchive, BookmarkPlus, Scale } from 'lucide-react';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
-import { checkConversionLimit, recordConversion, formatTime, type LimitStatus, getActivePlan, type ActivePlan } from '@/lib/local-storage-limits';
-import { exportToExcel } from '@/lib/excel-export';
+import { useBatchQueue, type BatchProcessor } from '@/hooks/use-batch-queue';
+import { useOcrPreferences } from '@/hooks/use-ocr-preferences';
+import { checkConversionLimit, reserveConversion, settleConversion, formatTime, type LimitStatus, getActivePlan, type ActivePlan, type ConversionGrant } from '@/lib/conversion-limits';
+import { buildValidationSheet, type ExcelSheet } from '@/lib/excel-export';
+import { exportData as exportInFormat, withExportExtension, DEFAULT_EXPORT_OPTIONS, type ExportFormat, type ExportOptions } from '@/lib/export-formats';
+import { downloadBatchAsZip, exportCombinedWorkbook, type BatchExportEntry } from '@/lib/batch-export';
+import { compareOcrOnPage, convertPdfDocument, retryOcrPage, type ConversionResult, type ExtractionMode, type OcrSummary } from '@/lib/conversion-pipeline';
+import { readStatementFromGrid } from '@/lib/statement-grid';
+import { formatPageRanges } from '@/lib/page-ranges';
+import { learnExtractionTemplate, type ExtractionTemplate } from '@/lib/extraction-templates';
+import { getExtractionTemplates, saveExtractionTemplate } from '@/lib/firebase-template-service';
+import type { DocumentValidationResult } from '@/lib/document-types';
 import type { StructuredPdfDataOutput, Transaction } from '@/ai/flows/structure-pdf-data-flow';
+import type { DocumentClassification } from '@/ai/flows/classify-document-flow';
+import { DOCUMENT_TYPES, type DocumentChoice } from '@/config/document-types';
+import { getExportProfiles } from '@/config/export-profiles';
+import type { StructuringProgress } from '@/lib/chunked-structuring';
 import { useSettings } from '@/context/settings-context';
 import { usePathname } from 'next/navigation';
 import { useLanguage } from '@/context/language-context';
 import { ProcessingCancelledError, isProcessingCancelledError } from '@/types/errors';
 
-const MIN_TEXT_LENGTH_FOR_TEXT_PDF = 100;
 const GENERIC_APP_NAME = "PDF to Excel Converter";
 const STORAGE_KEY = 'XLSCONVERT_DOWNLOADED_FILES';
 const MAX_FILE_COUNT = 12;
 const TWENTY_FOUR_HOURS_MS = 24 * 60 * 60 * 1000;
+// How many files of a batch are converted at the same time
+const BATCH_CONCURRENCY = 2;
 
 interface StoredExcelFile {
     name: string;
     data: Array<Array<string | number | null>>;
+    sheets?: ExcelSheet[]; // The exported sheets; missing on entries saved before sheets were always stored
     timestamp: number;
 }
 
+/**
+ * Adds downloaded files to the 24-hour history shown on the Documents page, newest first.
+ */
+function saveToDownloadHistory(newFiles: StoredExcelFile[]): void {
+    const storedData = localStorage.getItem(STORAGE_KEY);
+    let files: StoredExcelFile[] = storedData ? JSON.parse(storedData) : [];
+    const now = Date.now();
+
+    // Filter out files older than 24 hours
+    files = files.filter(file => (now - file.timestamp) < TWENTY_FOUR_HOURS_MS);
+    files.unshift(...newFiles); // Add to the beginning
+
+    // Keep only the most recent files
+    if (files.length > MAX_FILE_COUNT) {
+        files.length = MAX_FILE_COUNT;
+    }
+
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(files));
+}
+
+interface ResultSheetOptions {
+    includeValidationSheet: boolean;
+    includeComputedBalance: boolean;
+}
+
+/**
+ * The sheets to export for one conversion: generic tables as they are, structured documents
+ * (one sheet, or one per currency sub-account) with the optional Validation sheet.
+ */
+function buildResultSheets(
+    result: Pick<ConversionResult, 'data' | 'sheets' | 'validation' | 'classification'>,
+    options: ResultSheetOptions,
+    sourceFileName: string
+): ExcelSheet[] | null {
+    const sheets: ExcelSheet[] | null = result.sheets ?? (result.data ? [{ name: 'Sheet1', data: result.data, kind: 'statement' }] : null);
+    if (!sheets) return null;
+    const exportSheets = sheets.map(sheet => ({
+        ...sheet,
+        currency: sheet.currency ?? result.classification?.currency,
+        ...(sheet.kind === 'statement' ? { sourceFileName, computedBalance: options.includeComputedBalance } : {}),
+    }));
+    return result.validation && options.includeValidationSheet ? [...exportSheets, buildValidationSheet(result.validation)] : exportSheets;
+}
+
 // Helper to update meta tags
 const updateMeta = (name: string, content: string) => {
     let tag = document.querySelector(`meta[name="${name}"]`) as HTMLMetaElement;
@@ -62,9 +137,40 @@ const updateMeta = (name: string, content: string) => {
 export default function HomePage() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [excelReadyData, setExcelReadyData] = useState<Array<Array<string | number | null>> | null>(null);
+  const [extractedTableSheets, setExtractedTableSheets] = useState<ExcelSheet[] | null>(null);
+  const [extractionMode, setExtractionMode] = useState<ExtractionMode>('auto');
+  const [classification, setClassification] = useState<DocumentClassification | null>(null);
+  const [validationResult, setValidationResult] = useState<DocumentValidationResult | null>(null);
+  // Set once the preview is edited: the findings describe the data as it was converted
+  const [isValidationOutdated, setIsValidationOutdated] = useState(false);
+  const [includeValidationSheet, setIncludeValidationSheet] = useState(true);
+  const [includeComputedBalance, setIncludeComputedBalance] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx');
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [isChoosingDocumentType, setIsChoosingDocumentType] = useState(false);
+  const [choiceClassification, setChoiceClassification] = useState<DocumentClassification | null>(null);
+  const documentChoiceResolverRef = useRef<((choice: DocumentChoice | null) => void) | null>(null);
+  const [passwordRequest, setPasswordRequest] = useState<{ fileName: string; incorrect: boolean } | null>(null);
+  const passwordResolverRef = useRef<((password: string | null) => void) | null>(null);
+  // Dialogs that pause a conversion (document type, PDF password) are shown one at a time
+  const dialogQueueRef = useRef<Promise<void>>(Promise.resolve());
   const [isLoading, setIsLoading] = useState(false);
   const [loadingStep, setLoadingStep] = useState<string>("");
+  const [structuringProgress, setStructuringProgress] = useState<StructuringProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<ExtractionTemplate[]>([]);
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [choosePages, setChoosePages] = useState(false);
+  const [pageSelectionFile, setPageSelectionFile] = useState<File | null>(null);
+  // The pages the shown result was converted from; undefined when all pages were
+  const [convertedPages, setConvertedPages] = useState<number[] | undefined>();
+  // What OCR read from each page of a scanned file, so pages it missed can be scanned again
+  const [ocrSummary, setOcrSummary] = useState<OcrSummary | null>(null);
+  // The grant of the converted file's conversion; rescanning and comparing its pages run with it
+  const [conversionGrant, setConversionGrant] = useState<ConversionGrant | null>(null);
+  const [retryingPage, setRetryingPage] = useState<number | null>(null);
+  const [isOcrComparisonOpen, setIsOcrComparisonOpen] = useState(false);
   
   const [showLimitDialog, setShowLimitDialog] = useState(false);
   const [limitDialogContent, setLimitDialogContent] = useState<{
@@ -79,6 +185,9 @@ export default function HomePage() {
   const { toast } = useToast();
   const pathname = usePathname();
   const { settings } = useSettings();
+  const exportProfiles = useMemo(() => getExportProfiles(settings?.customExportProfiles), [settings?.customExportProfiles]);
+  const ocrPreferences = useOcrPreferences();
+  const { privacyMode, languages: ocrLanguages } = ocrPreferences;
   const [activePlan, setActivePlan] = useState<ActivePlan | null>(null);
   const { getTranslation } = useLanguage();
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -89,11 +198,28 @@ export default function HomePage() {
   );
 
   useEffect(() => {
-    if (currentUser) {
-      setActivePlan(getActivePlan(currentUser.uid));
-    } else {
+    if (!currentUser) {
       setActivePlan(null);
+      return;
     }
+    let isCancelled = false;
+    getActivePlan(currentUser.uid)
+      .then(plan => { if (!isCancelled) setActivePlan(plan); })
+      .catch(error => console.error("Failed to load active plan:", error));
+    return () => { isCancelled = true; };
+  }, [currentUser]);
+
+  // Saved extraction templates are used for every conversion of a logged-in user
+  useEffect(() => {
+    if (!currentUser) {
+      setTemplates([]);
+      return;
+    }
+    let isCancelled = false;
+    getExtractionTemplates(currentUser.uid)
+      .then(saved => { if (!isCancelled) setTemplates(saved); })
+      .catch(error => console.error("Failed to load extraction templates:", error));
+    return () => { isCancelled = true; };
   }, [currentUser]);
 
   useEffect(() => {
@@ -126,6 +252,11 @@ export default function HomePage() {
     }
   }, [settings, pathname]);
 
+  // New findings describe the data as it is now
+  useEffect(() => {
+    setIsValidationOutdated(false);
+  }, [validationResult]);
+
   // Cleanup: abort any ongoing processing when component unmounts
   useEffect(() => {
     return () => {
@@ -135,41 +266,115 @@ export default function HomePage() {
     };
   }, []);
 
-  const handleFileSelect = useCallback(async (files: File[]) => {
-    if (!files || files.length === 0) return;
-    const fileToProcess = files[0];
+  const resolveDocumentChoice = useCallback((choice: DocumentChoice | null) => {
+    setIsChoosingDocumentType(false);
+    documentChoiceResolverRef.current?.(choice);
+    documentChoiceResolverRef.current = null;
+  }, []);
 
-    // Check file size and warn for very large files (>50MB)
-    const MAX_FILE_SIZE_WARNING = 50 * 1024 * 1024; // 50MB
-    if (fileToProcess.size > MAX_FILE_SIZE_WARNING) {
-      const fileSizeMB = (fileToProcess.size / (1024 * 1024)).toFixed(1);
-      toast({ 
-        variant: "default", 
-        title: "Large File Detected", 
-        description: `This file is ${fileSizeMB}MB. Processing may take longer and use more memory.`,
-        duration: 5000
-      });
-    }
+  // Pauses processing until the user picks a document type in the dialog (null if they cancel).
+  // Batch files that need a choice wait their turn, so the dialog only ever asks about one file.
+  const requestDocumentChoice = useCallback((documentClassification: DocumentClassification, signal: AbortSignal) => {
+    const request = dialogQueueRef.current.then(() => new Promise<DocumentChoice | null>(resolve => {
+      if (signal.aborted) {
+        resolve(null);
+        return;
+      }
+      documentChoiceResolverRef.current = resolve;
+      signal.addEventListener('abort', () => resolveDocumentChoice(null), { once: true });
+      setChoiceClassification(documentClassification);
+      setIsChoosingDocumentType(true);
+    }));
+    dialogQueueRef.current = request.then(() => undefined);
+    return request;
+  }, [resolveDocumentChoice]);
 
+  const resolvePassword = useCallback((password: string | null) => {
+    setPasswordRequest(null);
+    passwordResolverRef.current?.(password);
+    passwordResolverRef.current = null;
+  }, []);
+
+  // Pauses processing until the user enters the password of an encrypted PDF (null if they cancel).
+  // The password goes straight back to the conversion and is not kept in state.
+  const requestPassword = useCallback((fileName: string, incorrect: boolean, signal: AbortSignal) => {
+    const request = dialogQueueRef.current.then(() => new Promise<string | null>(resolve => {
+      if (signal.aborted) {
+        resolve(null);
+        return;
+      }
+      passwordResolverRef.current = resolve;
+      signal.addEventListener('abort', () => resolvePassword(null), { once: true });
+      setPasswordRequest({ fileName, incorrect });
+    }));
+    dialogQueueRef.current = request.then(() => undefined);
+    return request;
+  }, [resolvePassword]);
+
+  const showLimitReached = useCallback((limitStatus: LimitStatus) => {
+    setLimitDialogContent({
+      userType: currentUser ? 'loggedIn' : 'guest',
+      timeToWaitFormatted: limitStatus.timeToWaitMs ? formatTime(limitStatus.timeToWaitMs) : undefined,
+      onPlan: limitStatus.onPlan,
+      planName: limitStatus.planName,
+      isPlanExhausted: limitStatus.isPlanExhausted,
+    });
+    setShowLimitDialog(true);
+  }, [currentUser]);
+
+  // Converts one file of a batch; each file reserves its own conversion once its pages are read
+  const processBatchFile = useCallback<BatchProcessor<ConversionResult>>(async (file, signal, update) => {
     const userId = currentUser ? currentUser.uid : null;
-    const limitStatus = checkConversionLimit(userId);
-    
-    if (!limitStatus.allowed) {
-      setLimitDialogContent({
-        userType: currentUser ? 'loggedIn' : 'guest',
-        timeToWaitFormatted: limitStatus.timeToWaitMs ? formatTime(limitStatus.timeToWaitMs) : undefined,
-        onPlan: limitStatus.onPlan,
-        planName: limitStatus.planName,
-        isPlanExhausted: limitStatus.isPlanExhausted,
+    let grant: ConversionGrant | null = null;
+    let succeeded = false;
+    try {
+      const result = await convertPdfDocument(file, {
+        extractionMode,
+        templates,
+        privacyMode,
+        ocrLanguages,
+        reserveConversion: async pageCount => {
+          const reservation = await reserveConversion(userId, pageCount);
+          if (!reservation.grant) {
+            showLimitReached(reservation.status);
+            throw new Error("Your conversion limit was reached before this file started.");
+          }
+          grant = reservation.grant;
+          return grant;
+        },
+        signal,
+        onStage: update,
+        onStructuringProgress: progress => {
+          if (progress) update('structuring', `${progress.completed} of ${progress.total} page windows structured`);
+        },
+        requestDocumentChoice,
+        requestPassword,
       });
-      setShowLimitDialog(true);
-      return;
+      if (signal.aborted) {
+        throw new ProcessingCancelledError();
+      }
+      succeeded = true;
+      return result;
+    } finally {
+      if (grant) void settleConversion(grant, succeeded);
     }
-    
+  }, [currentUser, extractionMode, templates, privacyMode, ocrLanguages, requestDocumentChoice, requestPassword, showLimitReached]);
+
+  const batch = useBatchQueue(processBatchFile, BATCH_CONCURRENCY);
+
+  // Converts a single file, optionally only some of its pages; the conversion is reserved once its pages are read
+  const startConversion = useCallback(async (fileToProcess: File, selection?: { pageNumbers?: number[]; password?: string }) => {
+    const userId = currentUser ? currentUser.uid : null;
     setIsLoading(true);
     setError(null);
     setExcelReadyData(null);
+    setExtractedTableSheets(null);
+    setClassification(null);
+    setValidationResult(null);
     setSelectedFile(fileToProcess); // Set selected file early
+    setConvertedPages(selection?.pageNumbers);
+    setOcrSummary(null);
+    setConversionGrant(null);
     setLoadingStep("Processing your PDF, please wait...");
 
     // Create new AbortController for this processing operation
@@ -177,98 +382,49 @@ export default function HomePage() {
     abortControllerRef.current = abortController;
     const signal = abortController.signal;
 
-    let fileBuffer: ArrayBuffer | null = null;
+    let grant: ConversionGrant | null = null;
+    let limitReached = false;
+    let succeeded = false;
     try {
-      fileBuffer = await fileToProcess.arrayBuffer();
-      
-      if (signal.aborted) {
-        throw new ProcessingCancelledError();
-      }
-      
-      setLoadingStep("Loading processing modules...");
-      
-      // Dynamically import heavy dependencies to reduce initial bundle size
-      const [
-        { extractTextFromPdf, convertPdfPagesToImageUrisIncremental, formatStructuredDataForExcel },
-        { extractTextFromImage: extractTextFromImageAI },
-        { structurePdfData: structurePdfDataAI }
-      ] = await Promise.all([
-        import('@/lib/pdf-utils'),
-        import('@/ai/flows/extract-text-from-image'),
-        import('@/ai/flows/structure-pdf-data-flow')
-      ]);
-
-      setLoadingStep("Extracting text from PDF...");
-      // Pass a clone of the buffer to prevent it from being detached.
-      const directText = await extractTextFromPdf(fileBuffer.slice(0), signal);
-      let rawTextOutput: string;
-
-      if (directText && directText.length > MIN_TEXT_LENGTH_FOR_TEXT_PDF) {
-        rawTextOutput = directText;
-      } else {
-        setLoadingStep("PDF has no text, using OCR to scan pages...");
-        // Use incremental processing to avoid loading all pages into memory at once
-        let ocrTextFromAllPages = '';
-        
-        await convertPdfPagesToImageUrisIncremental(
-          fileBuffer.slice(0),
-          async (imageUri, pageNum, totalPages) => {
-            if (signal.aborted) {
-              throw new ProcessingCancelledError();
-            }
-            
-            setLoadingStep(`Scanning page ${pageNum} of ${totalPages}...`);
-            
-            try {
-              // Check for cancellation before calling server action
-              if (signal.aborted) {
-                throw new ProcessingCancelledError();
-              }
-              const result = await extractTextFromImageAI({ photoDataUri: imageUri });
-              if (result?.extractedText) {
-                ocrTextFromAllPages += result.extractedText + '\n\n';
-              }
-            } catch (error) {
-              // Handle cancellation
-              if (isProcessingCancelledError(error) || (error instanceof Error && error.name === 'AbortError')) {
-                throw error;
-              }
-              console.error(`Error processing page ${pageNum}:`, error);
-              // Continue with other pages even if one fails
-              console.warn(`Page ${pageNum} OCR failed, continuing with other pages...`);
-            }
-            // Image URI is automatically released after callback completes
-          },
-          signal
-        );
-        
-        if (!ocrTextFromAllPages) throw new Error("OCR failed to extract any text from the document.");
-        rawTextOutput = ocrTextFromAllPages;
-      }
-
-      if (signal.aborted) {
-        throw new ProcessingCancelledError();
-      }
-
-      setLoadingStep("Structuring data with AI...");
-      // Check for cancellation before calling server action (AbortSignal cannot be passed to server actions)
-      if (signal.aborted) {
-        throw new ProcessingCancelledError();
-      }
-      const structuredDataResult = await structurePdfDataAI({ rawText: rawTextOutput });
-
-      // Clear raw text output to free memory (no longer needed after structuring)
-      rawTextOutput = '';
+      const result = await convertPdfDocument(fileToProcess, {
+        extractionMode,
+        templates,
+        pageNumbers: selection?.pageNumbers,
+        password: selection?.password,
+        privacyMode,
+        ocrLanguages,
+        // The ledger is charged before the server does any work; the grant lets the AI steps run
+        reserveConversion: async pageCount => {
+          const reservation = await reserveConversion(userId, pageCount);
+          if (!reservation.grant) {
+            limitReached = true;
+            showLimitReached(reservation.status);
+            throw new ProcessingCancelledError();
+          }
+          grant = reservation.grant;
+          return grant;
+        },
+        signal,
+        onStage: (_stage, message) => setLoadingStep(message),
+        onStructuringProgress: setStructuringProgress,
+        onClassification: setClassification,
+        requestDocumentChoice,
+        requestPassword,
+      });
+      succeeded = true;
 
-      setLoadingStep("Preparing Excel data...");
-      const formattedData = formatStructuredDataForExcel(structuredDataResult);
-      setExcelReadyData(formattedData);
+      setExcelReadyData(result.data);
+      setExtractedTableSheets(result.sheets);
+      setValidationResult(result.validation);
+      setOcrSummary(result.ocr ?? null);
+      setConversionGrant(grant);
       
-      // Clear structured data to free memory (formatted data is what we need)
-      // Note: structuredDataResult is a local variable, will be GC'd automatically
-      
-      recordConversion(userId);
-      toast({ title: "Conversion Successful", description: "Your data is ready for download." });
+      toast({
+        title: "Conversion Successful",
+        description: result.templateName
+          ? `Read with your "${result.templateName}" template. Your data is ready for download.`
+          : "Your data is ready for download.",
+      });
 
     } catch (err: unknown) {
       // Handle cancellation gracefully
@@ -276,61 +432,242 @@ export default function HomePage() {
         setError(null);
         setSelectedFile(null);
         setExcelReadyData(null);
-        toast({ title: "Processing Cancelled", description: "The conversion was cancelled.", duration: 3000 });
+        setExtractedTableSheets(null);
+        setClassification(null);
+        setValidationResult(null);
+        if (!limitReached) {
+          toast({ title: "Processing Cancelled", description: "The conversion was cancelled.", duration: 3000 });
+        }
       } else {
         const errorMessage = err instanceof Error ? err.message : "An unknown error occurred during conversion.";
-        console.error("Detailed error in handleFileSelect:", err);
+        console.error("Detailed error in startConversion:", err);
         setError(errorMessage);
         toast({ variant: "destructive", title: "Conversion Failed", description: errorMessage, duration: 9000 });
         // Clear file selection on error to free memory
         setSelectedFile(null);
         setExcelReadyData(null);
+        setExtractedTableSheets(null);
+        setClassification(null);
+        setValidationResult(null);
       }
     } finally {
-      // Clear file buffer reference to help with garbage collection
-      fileBuffer = null;
+      // A conversion the AI provider failed before it returned anything is given back
+      if (grant) void settleConversion(grant, succeeded);
       // Clear abort controller reference
       abortControllerRef.current = null;
       setIsLoading(false);
       setLoadingStep("");
+      setStructuringProgress(null);
     }
-  }, [currentUser, toast]);
+  }, [currentUser, toast, showLimitReached, extractionMode, templates, privacyMode, ocrLanguages, requestDocumentChoice, requestPassword]);
+
+  const handleFileSelect = useCallback(async (files: File[]) => {
+    if (!files || files.length === 0) return;
+    const fileToProcess = files[0];
+
+    // Check file size and warn for very large files (>50MB)
+    const MAX_FILE_SIZE_WARNING = 50 * 1024 * 1024; // 50MB
+    const largeFiles = files.filter(file => file.size > MAX_FILE_SIZE_WARNING);
+    if (largeFiles.length > 0) {
+      const fileSizeMB = (largeFiles[0].size / (1024 * 1024)).toFixed(1);
+      toast({ 
+        variant: "default", 
+        title: "Large File Detected", 
+        description: files.length > 1
+          ? `${largeFiles[0].name} is ${fileSizeMB}MB. Processing may take longer and use more memory.`
+          : `This file is ${fileSizeMB}MB. Processing may take longer and use more memory.`,
+        duration: 5000
+      });
+    }
+
+    const userId = currentUser ? currentUser.uid : null;
+    let limitStatus: LimitStatus;
+    try {
+      // A batch is checked up front for all of its files; each file still reserves its own conversion when it starts
+      limitStatus = await checkConversionLimit(userId, files.length);
+    } catch (err: unknown) {
+      console.error("Failed to check conversion limit:", err);
+      toast({ variant: "destructive", title: "Could Not Check Quota", description: "Please try again in a moment.", duration: 9000 });
+      return;
+    }
+    
+    if (!limitStatus.allowed) {
+      showLimitReached(limitStatus);
+      return;
+    }
+
+    if (files.length > 1) {
+      setError(null);
+      batch.enqueue(files);
+      return;
+    }
+
+    // The thumbnails are shown first; the conversion starts once the user confirms the pages
+    if (choosePages) {
+      setError(null);
+      setPageSelectionFile(fileToProcess);
+      return;
+    }
+    await startConversion(fileToProcess);
+  }, [currentUser, toast, showLimitReached, choosePages, startConversion, batch.enqueue]);
+
+  const handlePagesConfirmed = useCallback((pageNumbers: number[] | undefined, password?: string) => {
+    const file = pageSelectionFile;
+    setPageSelectionFile(null);
+    if (file) void startConversion(file, { pageNumbers, password });
+  }, [pageSelectionFile, startConversion]);
+
+  // Scans one page OCR missed again; the document is structured anew, replacing the preview
+  const handleRetryOcrPage = useCallback(async (pageNum: number) => {
+    if (!selectedFile || !ocrSummary || !conversionGrant) return;
+    setRetryingPage(pageNum);
+    setIsLoading(true);
+    setLoadingStep(`Scanning page ${pageNum} again...`);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    try {
+      const result = await retryOcrPage(selectedFile, ocrSummary, pageNum, {
+        templates,
+        privacyMode,
+        ocrLanguages,
+        conversionGrant,
+        signal: abortController.signal,
+        onStage: (_stage, message) => setLoadingStep(message),
+        onStructuringProgress: setStructuringProgress,
+        requestDocumentChoice,
+        requestPassword,
+      });
+      setExcelReadyData(result.data);
+      setExtractedTableSheets(result.sheets);
+      setValidationResult(result.validation);
+      setOcrSummary(result.ocr ?? null);
+      toast({ title: "Page Added", description: `Page ${pageNum} was read and the data updated.` });
+    } catch (err: unknown) {
+      if (isProcessingCancelledError(err) || (err instanceof Error && err.name === 'AbortError')) return;
+      const errorMessage = err instanceof Error ? err.message : `Page ${pageNum} could not be read.`;
+      console.error("Failed to scan page again:", err);
+      toast({ variant: "destructive", title: "Page Still Missing", description: errorMessage, duration: 9000 });
+    } finally {
+      abortControllerRef.current = null;
+      setRetryingPage(null);
+      setIsLoading(false);
+      setLoadingStep("");
+      setStructuringProgress(null);
+    }
+  }, [selectedFile, ocrSummary, conversionGrant, templates, privacyMode, ocrLanguages, requestDocumentChoice, requestPassword, toast]);
+
+  // Only pages read with OCR can be compared; the others came from the PDF's text layer
+  const scannedPageNumbers = useMemo(
+    () => ocrSummary?.pages.filter(page => page.source === 'ocr').map(page => page.pageNum) ?? [],
+    [ocrSummary]
+  );
+  const isMixedDocument = !!ocrSummary && scannedPageNumbers.length < ocrSummary.pages.length;
+
+  // Reads a scanned page with both OCR providers for the comparison dialog
+  const compareOcr = useCallback((pageNum: number, signal: AbortSignal) => {
+    if (!selectedFile || !conversionGrant) return Promise.reject(new Error("There is no file to compare."));
+    return compareOcrOnPage(selectedFile, pageNum, { ocrLanguages, conversionGrant, signal, requestPassword });
+  }, [selectedFile, conversionGrant, ocrLanguages, requestPassword]);
 
   const handleCancel = useCallback(() => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
+    resolveDocumentChoice(null);
+    resolvePassword(null);
+  }, [resolveDocumentChoice, resolvePassword]);
+
+  // Edits made in the preview grid replace the extracted data, so downloads and history use the corrected values
+  // The computed balance option only applies to bank statements (grids with Paid Out / Paid In columns)
+  const hasBankStatement = useMemo(() => {
+    const grids = extractedTableSheets
+      ? extractedTableSheets.filter(sheet => sheet.kind === 'statement').map(sheet => sheet.data)
+      : [excelReadyData];
+    return grids.some(grid => grid !== null && readStatementFromGrid(grid) !== null);
+  }, [excelReadyData, extractedTableSheets]);
+
+  // Templates are learned from single-account statements: the corrected grid against the file's layout
+  const templateDefaultName = useMemo(() => {
+    const bankName = excelReadyData ? readStatementFromGrid(excelReadyData)?.bankName : undefined;
+    return bankName || selectedFile?.name.replace(/\.pdf$/i, '') || '';
+  }, [excelReadyData, selectedFile]);
+
+  const handleSaveTemplate = useCallback(async (name: string) => {
+    if (!currentUser || !selectedFile || !excelReadyData) return;
+    setIsSavingTemplate(true);
+    try {
+      const [{ withPdfPassword }, { extractLayoutFromPdfPagesInWorker }] = await Promise.all([
+        import('@/lib/pdf-utils'),
+        import('@/lib/pdf-worker-client'),
+      ]);
+      const buffer = await selectedFile.arrayBuffer();
+      // Encrypted statements ask for their password again rather than keeping it from the conversion
+      const { result: pages } = await withPdfPassword(
+        password => extractLayoutFromPdfPagesInWorker(buffer.slice(0), undefined, password, convertedPages),
+        incorrect => requestPassword(selectedFile.name, incorrect, new AbortController().signal)
+      );
+      const draft = learnExtractionTemplate(pages, excelReadyData, name);
+      if (!draft) {
+        toast({
+          variant: "destructive",
+          title: "Could Not Create Template",
+          description: "Too few transactions could be found in the PDF's text. Templates need a digital (not scanned) statement.",
+        });
+        return;
+      }
+      const saved = await saveExtractionTemplate(currentUser.uid, draft, templates);
+      setTemplates(current => [saved, ...current.filter(template => template.id !== saved.id)]);
+      setIsSaveTemplateOpen(false);
+      toast({ title: "Template Saved", description: `Statements matching "${saved.name}" will be read with this template.` });
+    } catch (e) {
+      if (isProcessingCancelledError(e)) return;
+      console.error("Failed to save extraction template:", e);
+      toast({ variant: "destructive", title: "Could Not Save Template", description: "Please try again in a moment." });
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  }, [currentUser, selectedFile, excelReadyData, convertedPages, templates, requestPassword, toast]);
+
+  const handleSheetEdit = useCallback((sheetIndex: number, edited: Array<Array<string | number | null>>) => {
+    setExtractedTableSheets(current =>
+      current ? current.map((sheet, index) => (index === sheetIndex ? { ...sheet, data: edited } : sheet)) : current
+    );
+    setIsValidationOutdated(true);
+  }, []);
+
+  const handleDataEdit = useCallback((edited: Array<Array<string | number | null>>) => {
+    setExcelReadyData(edited);
+    setIsValidationOutdated(true);
   }, []);
 
   const handleDownload = useCallback(() => {
-    if (excelReadyData && selectedFile) {
-        const originalFileName = selectedFile.name.replace(/\.[^/.]+$/, "") + ".xlsx";
-        exportToExcel(excelReadyData, originalFileName);
+    if (!selectedFile) return;
+    // Structured documents get the optional Validation sheet after their own sheet; generic tables are not validated
+    const exportSheets = buildResultSheets(
+      { data: excelReadyData, sheets: extractedTableSheets, validation: validationResult, classification },
+      { includeValidationSheet, includeComputedBalance },
+      selectedFile.name
+    );
+    if (exportSheets) {
+        const originalFileName = withExportExtension(selectedFile.name, exportFormat);
+        try {
+            exportInFormat(exportSheets, exportFormat, originalFileName, { ...exportOptions, currency: classification?.currency });
+        } catch (e) {
+            const message = e instanceof Error ? e.message : "The file could not be exported.";
+            toast({ variant: "destructive", title: "Export Failed", description: message });
+            return;
+        }
 
         // Store file in local storage
         if (typeof window !== 'undefined') {
             try {
-                const storedData = localStorage.getItem(STORAGE_KEY);
-                let files: StoredExcelFile[] = storedData ? JSON.parse(storedData) : [];
-                const now = Date.now();
-
-                // Filter out files older than 24 hours
-                files = files.filter(file => (now - file.timestamp) < TWENTY_FOUR_HOURS_MS);
-
-                // Add the new file
-                const newFile: StoredExcelFile = {
+                saveToDownloadHistory([{
                     name: originalFileName,
-                    data: excelReadyData,
-                    timestamp: now,
-                };
-                files.unshift(newFile); // Add to the beginning
-
-                // Keep only the most recent files
-                if (files.length > MAX_FILE_COUNT) {
-                    files.length = MAX_FILE_COUNT;
-                }
-
-                localStorage.setItem(STORAGE_KEY, JSON.stringify(files));
+                    data: exportSheets[0].data,
+                    sheets: exportSheets,
+                    timestamp: Date.now(),
+                }]);
                 toast({ title: "File Saved", description: "This download has been saved to your Documents page for 24 hours." });
 
             } catch (e) {
@@ -342,17 +679,69 @@ export default function HomePage() {
         // Clear large data arrays from state after download to free memory
         setTimeout(() => {
           setExcelReadyData(null);
+          setExtractedTableSheets(null);
+          setClassification(null);
+          setValidationResult(null);
           setSelectedFile(null);
         }, 1000); // Small delay to ensure download started
     }
-  }, [excelReadyData, selectedFile, toast]);
+  }, [excelReadyData, extractedTableSheets, validationResult, includeValidationSheet, includeComputedBalance, exportFormat, exportOptions, classification, selectedFile, toast]);
+
+  const handleBatchDownload = useCallback((target: 'zip' | 'workbook') => {
+    const entries: BatchExportEntry[] = [];
+    for (const item of batch.items) {
+      const sheets = item.status === 'done' && item.result ? buildResultSheets(item.result, { includeValidationSheet, includeComputedBalance }, item.file.name) : null;
+      if (item.result && sheets) {
+        entries.push({ fileName: item.file.name, sheets, currency: item.result.classification?.currency });
+      }
+    }
+    if (entries.length === 0) return;
+
+    const format: ExportFormat = target === 'zip' ? exportFormat : 'xlsx';
+    try {
+      if (target === 'zip') {
+        downloadBatchAsZip(entries, format, 'converted_files.zip', exportOptions);
+      } else {
+        exportCombinedWorkbook(entries, 'combined_workbook.xlsx');
+      }
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "The files could not be exported.";
+      toast({ variant: "destructive", title: "Export Failed", description: message });
+      return;
+    }
+
+    try {
+      const now = Date.now();
+      saveToDownloadHistory(entries.map(entry => ({
+        name: withExportExtension(entry.fileName, format),
+        data: entry.sheets[0].data,
+        sheets: entry.sheets,
+        timestamp: now,
+      })));
+      toast({ title: "Files Saved", description: "These downloads have been saved to your Documents page for 24 hours." });
+    } catch (e) {
+      console.error("Failed to save files to local storage", e);
+      toast({ variant: "destructive", title: "Could Not Save History", description: "There was an error saving these files to your local history." });
+    }
+  }, [batch.items, includeValidationSheet, includeComputedBalance, exportFormat, exportOptions, toast]);
 
   const handleClearSelection = useCallback(() => {
+    batch.clear();
     setSelectedFile(null);
+    setPageSelectionFile(null);
+    setConvertedPages(undefined);
+    setOcrSummary(null);
+    setConversionGrant(null);
     setExcelReadyData(null);
+    setExtractedTableSheets(null);
+    setClassification(null);
+    setValidationResult(null);
     setError(null);
     setLoadingStep("");
-  }, []);
+    setStructuringProgress(null);
+  }, [batch.clear]);
+
+  const hasBatchResults = batch.items.some(item => item.status === 'done');
 
   return (
     <div className="space-y-8">
@@ -366,15 +755,107 @@ export default function HomePage() {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          {!excelReadyData ? (
-            <FileUploader 
-              onFilesSelect={handleFileSelect}
-              disabled={isLoading}
-              isSubscribed={false}
-              dragText={getTranslation('fileUploaderDrag')}
-              orText={getTranslation('fileUploaderOr')}
-              clickText={getTranslation('fileUploaderClick')}
+          {batch.items.length > 0 ? (
+            <Card>
+              <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Files className="h-5 w-5 text-primary"/>
+                  <CardTitle className="text-xl">Batch Conversion</CardTitle>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <div className="flex items-center gap-2 mr-2">
+                    <Checkbox
+                      id="include-validation-sheet-batch"
+                      checked={includeValidationSheet}
+                      onCheckedChange={(checked) => setIncludeValidationSheet(checked === true)}
+                    />
+                    <Label htmlFor="include-validation-sheet-batch" className="text-sm font-normal">Add Validation sheets</Label>
+                  </div>
+                  <div className="flex items-center gap-2 mr-2">
+                    <Checkbox
+                      id="include-computed-balance-batch"
+                      checked={includeComputedBalance}
+                      onCheckedChange={(checked) => setIncludeComputedBalance(checked === true)}
+                    />
+                    <Label htmlFor="include-computed-balance-batch" className="text-sm font-normal">Add computed balance</Label>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={handleClearSelection}><Trash2 className="mr-2 h-4 w-4"/>Start Over</Button>
+                  <ExportFormatPicker
+                    format={exportFormat}
+                    onFormatChange={setExportFormat}
+                    options={exportOptions}
+                    onOptionsChange={setExportOptions}
+                    profiles={exportProfiles}
+                    disabled={!hasBatchResults}
+                  />
+                  <Button size="sm" onClick={() => handleBatchDownload('zip')} disabled={!hasBatchResults}>
+                    <FileArchive className="mr-2 h-4 w-4"/>Download ZIP
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleBatchDownload('workbook')} disabled={!hasBatchResults}>
+                    <Download className="mr-2 h-4 w-4"/>Combined Workbook
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <BatchQueue items={batch.items} onCancel={batch.cancel} onRetry={batch.retry} />
+              </CardContent>
+            </Card>
+          ) : pageSelectionFile ? (
+            <PageSelector
+              file={pageSelectionFile}
+              requestPassword={requestPassword}
+              onConfirm={handlePagesConfirmed}
+              onCancel={() => setPageSelectionFile(null)}
             />
+          ) : !excelReadyData && !extractedTableSheets ? (
+            <div className="space-y-4">
+              <div className="flex flex-col sm:flex-row items-center justify-center gap-2">
+                <Label htmlFor="extraction-mode">Document type</Label>
+                <Select value={extractionMode} onValueChange={(value) => setExtractionMode(value as ExtractionMode)} disabled={isLoading}>
+                  <SelectTrigger id="extraction-mode" className="w-[240px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">
+                      <span className="flex items-center"><Sparkles className="mr-2 h-4 w-4" />Auto-detect</span>
+                    </SelectItem>
+                    {DOCUMENT_TYPES.map(type => (
+                      <SelectItem key={type.id} value={type.id}>
+                        <span className="flex items-center"><type.icon className="mr-2 h-4 w-4" />{type.label}</span>
+                      </SelectItem>
+                    ))}
+                    <SelectItem value="genericTables">
+                      <span className="flex items-center"><Table2 className="mr-2 h-4 w-4" />Generic Tables</span>
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-center gap-2">
+                <Checkbox
+                  id="choose-pages"
+                  checked={choosePages}
+                  onCheckedChange={(checked) => setChoosePages(checked === true)}
+                  disabled={isLoading}
+                />
+                <Label htmlFor="choose-pages" className="text-sm font-normal">Choose pages before converting</Label>
+              </div>
+              <OcrPrivacyControls
+                privacyMode={privacyMode}
+                locked={ocrPreferences.privacyModeLocked}
+                languages={ocrLanguages}
+                onPrivacyModeChange={ocrPreferences.setPrivacyMode}
+                onLanguagesChange={ocrPreferences.setLanguages}
+                disabled={isLoading}
+              />
+              <FileUploader 
+                onFilesSelect={handleFileSelect}
+                disabled={isLoading}
+                isSubscribed={!!activePlan}
+                dragText={getTranslation('fileUploaderDrag')}
+                orText={getTranslation('fileUploaderOr')}
+                clickText={getTranslation('fileUploaderClick')}
+              />
+            </div>
           ) : (
              <div className="space-y-4">
                <Card>
@@ -384,12 +865,92 @@ export default function HomePage() {
                     <CardTitle className="text-xl">Conversion Preview</CardTitle>
                    </div>
                     <div className="flex items-center gap-2">
+                      {validationResult && (
+                        <div className="flex items-center gap-2 mr-2">
+                          <Checkbox
+                            id="include-validation-sheet"
+                            checked={includeValidationSheet}
+                            onCheckedChange={(checked) => setIncludeValidationSheet(checked === true)}
+                          />
+                          <Label htmlFor="include-validation-sheet" className="text-sm font-normal">Add Validation sheet</Label>
+                        </div>
+                      )}
+                      {hasBankStatement && (
+                        <div className="flex items-center gap-2 mr-2">
+                          <Checkbox
+                            id="include-computed-balance"
+                            checked={includeComputedBalance}
+                            onCheckedChange={(checked) => setIncludeComputedBalance(checked === true)}
+                          />
+                          <Label htmlFor="include-computed-balance" className="text-sm font-normal">Add computed balance</Label>
+                        </div>
+                      )}
+                      {currentUser && hasBankStatement && excelReadyData && (
+                        <Button variant="outline" size="sm" onClick={() => setIsSaveTemplateOpen(true)}>
+                          <BookmarkPlus className="mr-2 h-4 w-4"/>Save as Template
+                        </Button>
+                      )}
                       <Button variant="outline" size="sm" onClick={handleClearSelection}><Trash2 className="mr-2 h-4 w-4"/>Start Over</Button>
-                      <Button size="sm" onClick={handleDownload}><Download className="mr-2 h-4 w-4"/>Download Excel</Button>
+                      <ExportFormatPicker
+                        format={exportFormat}
+                        onFormatChange={setExportFormat}
+                        options={exportOptions}
+                        onOptionsChange={setExportOptions}
+                        profiles={exportProfiles}
+                      />
+                      <Button size="sm" onClick={handleDownload}><Download className="mr-2 h-4 w-4"/>Download</Button>
                     </div>
                  </CardHeader>
-                 <CardContent>
-                    <DataPreview data={excelReadyData} />
+                 <CardContent className="space-y-4">
+                    {classification && <ClassificationSummary classification={classification} />}
+                    {ocrSummary && (
+                      <OcrMissingPages
+                        pages={ocrSummary.pages}
+                        retryingPage={retryingPage}
+                        disabled={isLoading}
+                        onRetry={handleRetryOcrPage}
+                      />
+                    )}
+                    {ocrSummary && (isMixedDocument || !privacyMode) && (
+                      <div className="flex items-center justify-end gap-4">
+                        {isMixedDocument && (
+                          <p className="mr-auto text-sm text-muted-foreground">
+                            {scannedPageNumbers.length === 1 ? 'Page' : 'Pages'} {formatPageRanges(scannedPageNumbers)} had no usable text
+                            and {scannedPageNumbers.length === 1 ? 'was' : 'were'} read with OCR; the other pages come from the PDF's text.
+                          </p>
+                        )}
+                        {!privacyMode && (
+                          <Button variant="outline" size="sm" onClick={() => setIsOcrComparisonOpen(true)} disabled={isLoading}>
+                            <Scale className="mr-2 h-4 w-4"/>Compare with on-device OCR
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                    {extractedTableSheets ? (
+                      <div className={validationResult ? "grid gap-4 lg:grid-cols-[minmax(0,1fr)_320px]" : undefined}>
+                        <div className="space-y-6">
+                          {extractedTableSheets.map((sheet, index) => (
+                            <div key={index} className="space-y-2">
+                              <h3 className="font-semibold text-foreground">{sheet.name}</h3>
+                              <DataPreview
+                                data={sheet.data}
+                                onDataChange={(edited) => handleSheetEdit(index, edited)}
+                                currency={sheet.currency ?? classification?.currency}
+                                reconcileBalances={sheet.kind === 'statement'}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                        {validationResult && <ValidationPanel validation={validationResult} outdated={isValidationOutdated} />}
+                      </div>
+                    ) : validationResult ? (
+                      <div className="grid gap-4 lg:grid-cols-[minmax(0,1fr)_320px]">
+                        <DataPreview data={excelReadyData} onDataChange={handleDataEdit} currency={classification?.currency} reconcileBalances />
+                        <ValidationPanel validation={validationResult} outdated={isValidationOutdated} />
+                      </div>
+                    ) : (
+                      <DataPreview data={excelReadyData} onDataChange={handleDataEdit} currency={classification?.currency} reconcileBalances />
+                    )}
                  </CardContent>
                </Card>
             </div>
@@ -398,6 +959,14 @@ export default function HomePage() {
           {isLoading && (
             <div className="py-10 space-y-4">
               <LoadingSpinner message={loadingStep || 'Processing...'} />
+              {structuringProgress && structuringProgress.total > 0 && (
+                <div className="mx-auto max-w-sm space-y-1">
+                  <Progress value={(structuringProgress.completed / structuringProgress.total) * 100} />
+                  <p className="text-center text-xs text-muted-foreground">
+                    {structuringProgress.completed} of {structuringProgress.total} page windows structured
+                  </p>
+                </div>
+              )}
               <div className="flex justify-center">
                 <Button variant="outline" onClick={handleCancel}>
                   Cancel Processing
@@ -417,6 +986,36 @@ export default function HomePage() {
         </CardContent>
       </Card>
 
+      <DocumentTypeDialog
+        isOpen={isChoosingDocumentType}
+        classification={choiceClassification}
+        onChoose={resolveDocumentChoice}
+        onCancel={handleCancel}
+      />
+
+      <PdfPasswordDialog
+        isOpen={passwordRequest !== null}
+        fileName={passwordRequest?.fileName ?? ''}
+        incorrect={passwordRequest?.incorrect ?? false}
+        onSubmit={resolvePassword}
+        onCancel={() => resolvePassword(null)}
+      />
+
+      <SaveTemplateDialog
+        isOpen={isSaveTemplateOpen}
+        defaultName={templateDefaultName}
+        isSaving={isSavingTemplate}
+        onSave={handleSaveTemplate}
+        onCancel={() => setIsSaveTemplateOpen(false)}
+      />
+
+      <OcrComparisonDialog
+        isOpen={isOcrComparisonOpen}
+        pageNumbers={scannedPageNumbers}
+        compare={compareOcr}
+        onClose={() => setIsOcrComparisonOpen(false)}
+      />
+
       <LimitDialog
         isOpen={showLimitDialog}
         onOpenChange={setShowLimitDialog}
@@ -2,7 +2,7 @@
 "use client";
 
 import Link from 'next/link';
-import { LayoutDashboard, Settings, Megaphone, Palette, SearchCheck, MessageSquarePlus, CreditCard, Bot, FileText } from 'lucide-react';
+import { LayoutDashboard, Settings, Megaphone, Palette, SearchCheck, MessageSquarePlus, CreditCard, Bot, FileText, FileSpreadsheet } from 'lucide-react';
 import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
 
@@ -14,6 +14,7 @@ export const adminNavItems = [
   { href: '/admin/seo-settings', label: 'SEO Settings', icon: SearchCheck }, 
   { href: '/admin/popup-manager', label: 'Popup Manager', icon: MessageSquarePlus },
   { href: '/admin/payment-gateways', label: 'Payment Gateways', icon: CreditCard },
+  { href: '/admin/export-profiles', label: 'Export Profiles', icon: FileSpreadsheet },
   { href: '/admin/blog-manager', label: 'Blog Manager', icon: FileText },
   // Example for future: { href: '/admin/ai-content-rules', label: 'AI Content Rules', icon: Bot },
 ];
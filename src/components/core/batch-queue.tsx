@@ -0,0 +1,86 @@
+import { memo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { CheckCircle2, Clock, FileText, Loader2, RotateCcw, XCircle, Ban } from 'lucide-react';
+import type { BatchItem, BatchItemStatus } from '@/hooks/use-batch-queue';
+
+interface BatchQueueProps {
+  items: BatchItem<unknown>[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  extracting: 'Extracting',
+  ocr: 'OCR',
+  structuring: 'Structuring',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const FINISHED_STATUSES: BatchItemStatus[] = ['done', 'failed', 'cancelled'];
+
+function StatusIcon({ status }: { status: BatchItemStatus }) {
+  switch (status) {
+    case 'queued': return <Clock className="h-4 w-4 text-muted-foreground" />;
+    case 'done': return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+    case 'failed': return <XCircle className="h-4 w-4 text-destructive" />;
+    case 'cancelled': return <Ban className="h-4 w-4 text-muted-foreground" />;
+    default: return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+  }
+}
+
+/**
+ * Lists the files of a batch conversion with their status, and lets the user cancel or retry each one.
+ */
+const BatchQueue = memo(function BatchQueue({ items, onCancel, onRetry }: BatchQueueProps) {
+  const finishedCount = items.filter(item => FINISHED_STATUSES.includes(item.status)).length;
+  const doneCount = items.filter(item => item.status === 'done').length;
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Progress value={items.length > 0 ? (finishedCount / items.length) * 100 : 0} />
+        <p className="text-xs text-muted-foreground">
+          {doneCount} of {items.length} {items.length === 1 ? 'file' : 'files'} converted
+          {finishedCount > doneCount && `, ${finishedCount - doneCount} not converted`}
+        </p>
+      </div>
+      <ul className="divide-y rounded-md border">
+        {items.map(item => {
+          const isFinished = FINISHED_STATUSES.includes(item.status);
+          return (
+            <li key={item.id} className="flex items-center gap-3 p-3">
+              <FileText className="h-5 w-5 shrink-0 text-primary" />
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium" title={item.file.name}>{item.file.name}</p>
+                {(item.error || item.message) && (
+                  <p className={`truncate text-xs ${item.error ? 'text-destructive' : 'text-muted-foreground'}`} title={item.error ?? item.message}>
+                    {item.error ?? item.message}
+                  </p>
+                )}
+              </div>
+              <Badge variant={item.status === 'failed' ? 'destructive' : item.status === 'done' ? 'default' : 'secondary'} className="gap-1">
+                <StatusIcon status={item.status} />
+                {STATUS_LABELS[item.status]}
+              </Badge>
+              {!isFinished && (
+                <Button variant="ghost" size="sm" onClick={() => onCancel(item.id)}>Cancel</Button>
+              )}
+              {(item.status === 'failed' || item.status === 'cancelled') && (
+                <Button variant="ghost" size="sm" onClick={() => onRetry(item.id)}>
+                  <RotateCcw className="mr-1 h-4 w-4" />Retry
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+});
+
+export default BatchQueue;
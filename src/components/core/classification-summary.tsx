@@ -0,0 +1,32 @@
+import { memo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { getDocumentTypeInfo } from '@/config/document-types';
+import type { DocumentClassification } from '@/ai/flows/classify-document-flow';
+
+interface ClassificationSummaryProps {
+  classification: DocumentClassification;
+}
+
+/**
+ * Shows what the classifier detected: document type, issuer, language and currency.
+ */
+const ClassificationSummary = memo(function ClassificationSummary({ classification }: ClassificationSummaryProps) {
+  const typeLabel = classification.documentType === 'other'
+    ? 'Other document'
+    : getDocumentTypeInfo(classification.documentType).label;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-muted-foreground">Detected:</span>
+      <Badge>{typeLabel}</Badge>
+      {classification.issuerName && <Badge variant="secondary">{classification.issuerName}</Badge>}
+      {classification.language && <Badge variant="outline">Language: {classification.language.toUpperCase()}</Badge>}
+      {classification.currency && <Badge variant="outline">Currency: {classification.currency}</Badge>}
+      <span className="text-xs text-muted-foreground">
+        {Math.round(classification.confidence * 100)}% confidence
+      </span>
+    </div>
+  );
+});
+
+export default ClassificationSummary;
@@ -1,79 +1,362 @@
-import { memo, useMemo, useCallback } from 'react';
+import { memo, useMemo, useCallback, useEffect, useRef, useState } from 'react';
+import type React from 'react';
 import {
-  Table,
   TableHeader,
   TableBody,
   TableRow,
   TableHead,
   TableCell,
-  TableCaption,
 } from '@/components/ui/table';
-import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Undo2, Redo2, ArrowUpToLine, ArrowDownToLine, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { RECONCILIATION_COLUMN_HEADER } from '@/lib/reconciliation';
+import { formatAmount, isMoneyLabel, labelledCurrency } from '@/lib/currency-format';
+import { findStatementTable, reconcileStatementGrid, ORIGINAL_AMOUNT_HEADER, ORIGINAL_CURRENCY_HEADER } from '@/lib/statement-grid';
+import {
+  columnLabel,
+  deleteRow,
+  insertRow,
+  parseCellInput,
+  parseClipboardText,
+  pasteBlock,
+  setCell,
+  type CellPosition,
+  type Grid,
+  type GridCell,
+} from '@/lib/grid-editing';
+import { useGridHistory } from '@/hooks/use-grid-history';
 
 interface DataPreviewProps {
-  data: Array<Array<string | number | null>> | null;
+  data: Grid | null;
+  onDataChange?: (data: Grid) => void; // Omit for a read-only preview
+  currency?: string; // ISO 4217 code for amounts when the grid has no "Currency:" row
+  reconcileBalances?: boolean; // Bank statement grids: recompute the Balance Check column after each edit
+}
+
+interface EditingCell extends CellPosition {
+  value: string;
+}
+
+// Only the rows in view (plus a small overscan) are rendered, so long statements stay responsive
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 500;
+const OVERSCAN_ROWS = 8;
+const EMPTY_GRID: Grid = [];
+const noop = () => {};
+
+// Helper to format cell value for display; amounts in a known currency get its symbol
+function formatCellValue(value: GridCell | undefined, currency?: string): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') {
+    // Format numbers with 2 decimal places if they look like currency
+    return formatAmount(value, currency);
+  }
+  return String(value);
 }
 
-const PREVIEW_ROW_LIMIT = 100; // Limit preview rows to prevent rendering performance issues
-
-const DataPreview = memo(function DataPreview({ data }: DataPreviewProps) {
-  // Limit data to first 100 rows for preview performance
-  const displayData = useMemo(() => {
-    if (!data || data.length === 0) return null;
-    return data.slice(0, PREVIEW_ROW_LIMIT);
-  }, [data]);
-
-  const maxColumns = useMemo(() => {
-    if (!displayData) return 0;
-    return Math.max(0, ...displayData.map(row => row.length));
-  }, [displayData]);
-
-  // Helper to format cell value for display
-  const formatCellValue = useCallback((value: string | number | null | undefined): string => {
-    if (value === null || value === undefined) return '';
-    if (typeof value === 'number') {
-      // Format numbers with 2 decimal places if they look like currency
-      return value.toFixed(2);
+const DataPreview = memo(function DataPreview({ data, onDataChange, currency, reconcileBalances = false }: DataPreviewProps) {
+  const grid = data ?? EMPTY_GRID;
+  const isEditable = Boolean(onDataChange);
+  const { commit: commitGrid, undo, redo, canUndo, canRedo } = useGridHistory(grid, onDataChange ?? noop);
+  // An edited amount or balance changes which rows add up, so the flags are recomputed with the edit
+  const commit = useCallback(
+    (next: Grid) => commitGrid(reconcileBalances ? reconcileStatementGrid(next) : next),
+    [commitGrid, reconcileBalances]
+  );
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [selected, setSelected] = useState<CellPosition | null>(null);
+  const [editing, setEditing] = useState<EditingCell | null>(null);
+  // Enter/Tab/Escape and the editor's blur can both try to finish the same edit; only the first one counts
+  const isEditingRef = useRef(false);
+
+  const maxColumns = useMemo(() => Math.max(1, ...grid.map(row => row.length)), [grid]);
+
+  // Currency of each money cell: labelled header/footer amounts and the amount columns of the transaction
+  // table use the document's currency; original amounts of foreign-currency rows use their own
+  const cellCurrency = useMemo(() => {
+    const documentCurrency = labelledCurrency(grid) ?? currency;
+    const table = findStatementTable(grid);
+    const headers = table ? grid[table.headerRow].map(cell => String(cell ?? '')) : [];
+    const originalAmountCol = headers.indexOf(ORIGINAL_AMOUNT_HEADER);
+    const originalCurrencyCol = headers.indexOf(ORIGINAL_CURRENCY_HEADER);
+    return (rowIndex: number, colIndex: number): string | undefined => {
+      if (table && rowIndex > table.headerRow && rowIndex <= table.endRow) {
+        if (colIndex === originalAmountCol) {
+          return String(grid[rowIndex][originalCurrencyCol] ?? '').trim().toUpperCase() || undefined;
+        }
+        return isMoneyLabel(headers[colIndex]) ? documentCurrency : undefined;
+      }
+      return colIndex === 1 && isMoneyLabel(grid[rowIndex][0]) ? documentCurrency : undefined;
+    };
+  }, [grid, currency]);
+
+  // Locate the reconciliation flag column added to statements whose running balance does not add up
+  const reconciliation = useMemo(() => {
+    const headerRow = grid.findIndex(row => row.includes(RECONCILIATION_COLUMN_HEADER));
+    if (headerRow === -1) return null;
+    const column = grid[headerRow].indexOf(RECONCILIATION_COLUMN_HEADER);
+    const flaggedRows = new Set<number>();
+    for (let rowIndex = headerRow + 1; rowIndex < grid.length; rowIndex++) {
+      const flag = grid[rowIndex][column];
+      if (typeof flag === 'string' && flag.trim() !== '') flaggedRows.add(rowIndex);
+    }
+    return { column, flaggedRows };
+  }, [grid]);
+
+  // Keep the selection inside the grid when rows are deleted or the data is replaced
+  useEffect(() => {
+    setSelected(current => {
+      if (!current) return current;
+      if (grid.length === 0) return null;
+      return { row: Math.min(current.row, grid.length - 1), col: Math.min(current.col, maxColumns - 1) };
+    });
+  }, [grid, maxColumns]);
+
+  // Scroll the selected row into view during keyboard navigation
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !selected) return;
+    const rowTop = selected.row * ROW_HEIGHT;
+    const visibleHeight = container.clientHeight - ROW_HEIGHT; // minus the sticky header
+    if (rowTop < container.scrollTop) {
+      container.scrollTop = rowTop;
+    } else if (rowTop + ROW_HEIGHT > container.scrollTop + visibleHeight) {
+      container.scrollTop = rowTop + ROW_HEIGHT - visibleHeight;
+    }
+  }, [selected]);
+
+  const moveSelection = useCallback((rowDelta: number, colDelta: number) => {
+    setSelected(current => {
+      const base = current ?? { row: 0, col: 0 };
+      return {
+        row: Math.max(0, Math.min(grid.length - 1, base.row + rowDelta)),
+        col: Math.max(0, Math.min(maxColumns - 1, base.col + colDelta)),
+      };
+    });
+  }, [grid.length, maxColumns]);
+
+  const startEditing = useCallback((position: CellPosition, initialValue?: string) => {
+    if (!isEditable) return;
+    const current = grid[position.row]?.[position.col];
+    isEditingRef.current = true;
+    setSelected(position);
+    setEditing({ ...position, value: initialValue ?? (current === null || current === undefined ? '' : String(current)) });
+  }, [grid, isEditable]);
+
+  const finishEditing = useCallback((save: boolean, rowDelta = 0, colDelta = 0) => {
+    if (!isEditingRef.current) return;
+    isEditingRef.current = false;
+    if (editing && save) {
+      commit(setCell(grid, editing.row, editing.col, parseCellInput(editing.value)));
+    }
+    setEditing(null);
+    moveSelection(rowDelta, colDelta);
+    containerRef.current?.focus();
+  }, [commit, editing, grid, moveSelection]);
+
+  const handleInsertRow = useCallback((offset: 0 | 1) => {
+    const at = selected ? selected.row + offset : grid.length;
+    commit(insertRow(grid, at, maxColumns));
+    setSelected({ row: at, col: selected?.col ?? 0 });
+  }, [commit, grid, maxColumns, selected]);
+
+  const handleDeleteRow = useCallback(() => {
+    if (!selected) return;
+    commit(deleteRow(grid, selected.row));
+  }, [commit, grid, selected]);
+
+  const handleGridKeyDown = useCallback((event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (editing) return; // The cell editor handles its own keys
+
+    if (event.ctrlKey || event.metaKey) {
+      if (!isEditable) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault();
+        redo();
+      }
+      return;
     }
-    return String(value);
-  }, []);
 
-  if (!displayData || displayData.length === 0) {
+    switch (event.key) {
+      case 'ArrowUp': event.preventDefault(); moveSelection(-1, 0); return;
+      case 'ArrowDown': event.preventDefault(); moveSelection(1, 0); return;
+      case 'ArrowLeft': event.preventDefault(); moveSelection(0, -1); return;
+      case 'ArrowRight': event.preventDefault(); moveSelection(0, 1); return;
+    }
+
+    if (!selected || !isEditable) return;
+    if (event.key === 'Enter' || event.key === 'F2') {
+      event.preventDefault();
+      startEditing(selected);
+    } else if (event.key === 'Delete' || event.key === 'Backspace') {
+      event.preventDefault();
+      commit(setCell(grid, selected.row, selected.col, null));
+    } else if (event.key.length === 1 && !event.altKey) {
+      // Typing over a cell replaces its value, as in a spreadsheet
+      event.preventDefault();
+      startEditing(selected, event.key);
+    }
+  }, [commit, editing, grid, isEditable, moveSelection, redo, selected, startEditing, undo]);
+
+  const handleEditorKeyDown = useCallback((event: React.KeyboardEvent<HTMLInputElement>) => {
+    event.stopPropagation();
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      finishEditing(true, event.shiftKey ? -1 : 1, 0);
+    } else if (event.key === 'Tab') {
+      event.preventDefault();
+      finishEditing(true, 0, event.shiftKey ? -1 : 1);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      finishEditing(false);
+    }
+  }, [finishEditing]);
+
+  const handlePaste = useCallback((event: React.ClipboardEvent<HTMLDivElement>) => {
+    if (editing || !selected || !isEditable) return; // While editing, paste goes into the cell editor
+    const text = event.clipboardData.getData('text/plain');
+    if (!text) return;
+    event.preventDefault();
+    commit(pasteBlock(grid, selected, parseClipboardText(text)));
+  }, [commit, editing, grid, isEditable, selected]);
+
+  const handleCopy = useCallback((event: React.ClipboardEvent<HTMLDivElement>) => {
+    if (editing || !selected) return;
+    const value = grid[selected.row]?.[selected.col];
+    event.preventDefault();
+    event.clipboardData.setData('text/plain', value === null || value === undefined ? '' : String(value));
+  }, [editing, grid, selected]);
+
+  if (grid.length === 0) {
     return <p className="text-muted-foreground text-center py-8">No data to display.</p>;
   }
 
-  const hasMoreRows = data && data.length > PREVIEW_ROW_LIMIT;
+  const firstVisibleRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastVisibleRow = Math.min(grid.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const visibleRows = grid.slice(firstVisibleRow, lastVisibleRow);
 
   return (
-    <ScrollArea className="w-full whitespace-nowrap rounded-md border shadow-md max-h-[500px]">
-      <Table>
-        <TableCaption>
-          Preview of extracted data. Scroll horizontally if needed.
-          {hasMoreRows && ` (Showing first ${PREVIEW_ROW_LIMIT} of ${data.length} rows)`}
-        </TableCaption>
-        <TableHeader>
-          <TableRow>
-            {Array.from({ length: maxColumns }).map((_, colIndex) => (
-              <TableHead key={colIndex} className="font-semibold bg-muted/50">
-                Column {colIndex + 1}
-              </TableHead>
-            ))}
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {displayData.map((row, rowIndex) => (
-            <TableRow key={rowIndex}>
-              {Array.from({ length: maxColumns }).map((_, cellIndex) => (
-                <TableCell key={cellIndex} className="min-w-[100px]">
-                  {formatCellValue(row[cellIndex])}
-                </TableCell>
+    <div className="space-y-3">
+      {reconciliation && reconciliation.flaggedRows.size > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Running balance does not reconcile</AlertTitle>
+          <AlertDescription>
+            {reconciliation.flaggedRows.size} {reconciliation.flaggedRows.size === 1 ? 'row has' : 'rows have'} a balance
+            that does not follow from the previous balance. Highlighted rows show the likely fix in the
+            &quot;{RECONCILIATION_COLUMN_HEADER}&quot; column.
+          </AlertDescription>
+        </Alert>
+      )}
+      {isEditable && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+            <Undo2 className="mr-1 h-4 w-4" />Undo
+          </Button>
+          <Button variant="outline" size="sm" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Y)">
+            <Redo2 className="mr-1 h-4 w-4" />Redo
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleInsertRow(0)}>
+            <ArrowUpToLine className="mr-1 h-4 w-4" />Insert Row Above
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleInsertRow(1)}>
+            <ArrowDownToLine className="mr-1 h-4 w-4" />Insert Row Below
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleDeleteRow} disabled={!selected}>
+            <Trash2 className="mr-1 h-4 w-4" />Delete Row
+          </Button>
+        </div>
+      )}
+      <div
+        ref={containerRef}
+        role="grid"
+        aria-rowcount={grid.length}
+        aria-colcount={maxColumns}
+        tabIndex={0}
+        className="relative w-full overflow-auto rounded-md border shadow-md focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+        onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+        onKeyDown={handleGridKeyDown}
+        onPaste={handlePaste}
+        onCopy={handleCopy}
+      >
+        <table className="w-full text-sm whitespace-nowrap">
+          <TableHeader className="sticky top-0 z-10 bg-background">
+            <TableRow style={{ height: ROW_HEIGHT }}>
+              <TableHead className="w-12 h-auto px-2 bg-muted/50" />
+              {Array.from({ length: maxColumns }).map((_, colIndex) => (
+                <TableHead key={colIndex} className="h-auto px-3 font-semibold bg-muted/50">
+                  {columnLabel(colIndex)}
+                </TableHead>
               ))}
             </TableRow>
-          ))}
-        </TableBody>
-      </Table>
-      <ScrollBar orientation="horizontal" />
-    </ScrollArea>
+          </TableHeader>
+          <TableBody>
+            {firstVisibleRow > 0 && <tr style={{ height: firstVisibleRow * ROW_HEIGHT }} />}
+            {visibleRows.map((row, offset) => {
+              const rowIndex = firstVisibleRow + offset;
+              const isFlagged = reconciliation?.flaggedRows.has(rowIndex) ?? false;
+              return (
+                <TableRow
+                  key={rowIndex}
+                  style={{ height: ROW_HEIGHT }}
+                  className={cn(isFlagged && 'bg-destructive/10 hover:bg-destructive/15')}
+                >
+                  <TableCell className="w-12 px-2 py-0 text-right text-xs text-muted-foreground">{rowIndex + 1}</TableCell>
+                  {Array.from({ length: maxColumns }).map((_, colIndex) => {
+                    const isSelected = selected?.row === rowIndex && selected?.col === colIndex;
+                    const isEditing = editing?.row === rowIndex && editing?.col === colIndex;
+                    return (
+                      <TableCell
+                        key={colIndex}
+                        role="gridcell"
+                        aria-selected={isSelected}
+                        className={cn(
+                          'min-w-[100px] max-w-[400px] truncate px-3 py-0 cursor-default',
+                          isSelected && 'outline outline-2 -outline-offset-2 outline-primary',
+                          isFlagged && colIndex === reconciliation?.column && 'font-medium text-destructive'
+                        )}
+                        onMouseDown={() => setSelected({ row: rowIndex, col: colIndex })}
+                        onDoubleClick={() => startEditing({ row: rowIndex, col: colIndex })}
+                      >
+                        {isEditing && editing ? (
+                          <input
+                            autoFocus
+                            aria-label={`Edit cell ${columnLabel(colIndex)}${rowIndex + 1}`}
+                            className="h-7 w-full rounded-sm border border-input bg-background px-1 text-sm focus:outline-none"
+                            value={editing.value}
+                            onChange={(event) => setEditing({ ...editing, value: event.target.value })}
+                            onKeyDown={handleEditorKeyDown}
+                            onBlur={() => finishEditing(true)}
+                          />
+                        ) : (
+                          formatCellValue(row[colIndex], cellCurrency(rowIndex, colIndex))
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              );
+            })}
+            {lastVisibleRow < grid.length && <tr style={{ height: (grid.length - lastVisibleRow) * ROW_HEIGHT }} />}
+          </TableBody>
+        </table>
+      </div>
+      <p className="text-center text-sm text-muted-foreground">
+        {grid.length} {grid.length === 1 ? 'row' : 'rows'}.
+        {isEditable
+          ? ' Double-click a cell or start typing to edit. Paste ranges copied from Excel with Ctrl+V.'
+          : ' Scroll horizontally if needed.'}
+      </p>
+    </div>
   );
 });
 
@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Table2 } from 'lucide-react';
+import { DOCUMENT_TYPES, DEFAULT_DOCUMENT_TYPE_ID, type DocumentChoice } from '@/config/document-types';
+import type { DocumentClassification } from '@/ai/flows/classify-document-flow';
+
+interface DocumentTypeDialogProps {
+  isOpen: boolean;
+  classification: DocumentClassification | null;
+  onChoose: (choice: DocumentChoice) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks the user to pick the document type when the classifier is not confident enough.
+ */
+export default function DocumentTypeDialog({ isOpen, classification, onChoose, onCancel }: DocumentTypeDialogProps) {
+  const suggestedChoice: DocumentChoice =
+    classification && classification.documentType !== 'other' ? classification.documentType : DEFAULT_DOCUMENT_TYPE_ID;
+  const [choice, setChoice] = useState<DocumentChoice>(suggestedChoice);
+
+  useEffect(() => {
+    if (isOpen) setChoice(suggestedChoice);
+  }, [isOpen, suggestedChoice]);
+
+  const choices = [
+    ...DOCUMENT_TYPES.map(type => ({ id: type.id as DocumentChoice, label: type.label, description: type.description, icon: type.icon })),
+    { id: 'genericTables' as DocumentChoice, label: 'Generic Tables', description: 'Every table in the document with its own column headers.', icon: Table2 },
+  ];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onCancel(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>What kind of document is this?</DialogTitle>
+          <DialogDescription>
+            We could not tell the document type with enough confidence
+            {classification ? ` (${Math.round(classification.confidence * 100)}% sure)` : ''}.
+            Please choose one so the right columns are extracted.
+          </DialogDescription>
+        </DialogHeader>
+        <RadioGroup value={choice} onValueChange={(value) => setChoice(value as DocumentChoice)} className="space-y-2">
+          {choices.map(option => (
+            <Label
+              key={option.id}
+              htmlFor={`document-choice-${option.id}`}
+              className="flex items-start gap-3 rounded-md border p-3 cursor-pointer hover:bg-muted/50"
+            >
+              <RadioGroupItem value={option.id} id={`document-choice-${option.id}`} className="mt-1 shrink-0" />
+              <option.icon className="h-5 w-5 text-primary shrink-0" />
+              <span className="flex flex-col">
+                <span className="font-medium">{option.label}</span>
+                <span className="text-xs font-normal text-muted-foreground">{option.description}</span>
+              </span>
+            </Label>
+          ))}
+        </RadioGroup>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onChoose(choice)}>Continue</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Settings2 } from 'lucide-react';
+import {
+  CSV_DELIMITERS,
+  DECIMAL_SEPARATORS,
+  EXPORT_FORMATS,
+  type CsvDelimiter,
+  type DecimalSeparator,
+  type ExportFormat,
+  type ExportOptions,
+} from '@/lib/export-formats';
+import { EXPORT_DATE_FORMATS, type ExportDateFormat } from '@/lib/date-formats';
+import type { AccountingExportProfile } from '@/types/site-settings';
+
+interface ExportFormatPickerProps {
+  format: ExportFormat;
+  onFormatChange: (format: ExportFormat) => void;
+  options: ExportOptions;
+  onOptionsChange: (options: ExportOptions) => void;
+  profiles?: AccountingExportProfile[]; // Accounting software layouts offered as extra formats
+  disabled?: boolean;
+}
+
+// Accounting profiles share the 'accountingCsv' format, so their select values carry the profile ID
+const PROFILE_VALUE_PREFIX = 'profile:';
+
+/**
+ * Chooses the download format and, for text formats, the delimiter, decimal separator and date format.
+ */
+export default function ExportFormatPicker({ format, onFormatChange, options, onOptionsChange, profiles = [], disabled }: ExportFormatPickerProps) {
+  const usesDelimiter = format === 'csv';
+  const usesTextFormatting = format === 'csv' || format === 'tsv' || format === 'qif';
+  const selectValue = format === 'accountingCsv' && options.profile ? `${PROFILE_VALUE_PREFIX}${options.profile.id}` : format;
+
+  const handleValueChange = (value: string) => {
+    if (value.startsWith(PROFILE_VALUE_PREFIX)) {
+      const profile = profiles.find(item => item.id === value.slice(PROFILE_VALUE_PREFIX.length));
+      if (!profile) return;
+      onOptionsChange({ ...options, profile });
+      onFormatChange('accountingCsv');
+    } else {
+      onFormatChange(value as ExportFormat);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={selectValue} onValueChange={handleValueChange} disabled={disabled}>
+        <SelectTrigger className="h-9 w-[190px]" aria-label="Export format">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            <SelectLabel>File formats</SelectLabel>
+            {EXPORT_FORMATS.filter(info => info.id !== 'accountingCsv').map(info => (
+              <SelectItem key={info.id} value={info.id}>{info.label}</SelectItem>
+            ))}
+          </SelectGroup>
+          {profiles.length > 0 && (
+            <>
+              <SelectSeparator />
+              <SelectGroup>
+                <SelectLabel>Accounting software (CSV)</SelectLabel>
+                {profiles.map(profile => (
+                  <SelectItem key={profile.id} value={`${PROFILE_VALUE_PREFIX}${profile.id}`}>{profile.name}</SelectItem>
+                ))}
+              </SelectGroup>
+            </>
+          )}
+        </SelectContent>
+      </Select>
+      {usesTextFormatting && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="icon" className="h-9 w-9" aria-label="Export options" disabled={disabled}>
+              <Settings2 className="h-4 w-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 space-y-3" align="end">
+            {usesDelimiter && (
+              <div className="space-y-1">
+                <Label>Delimiter</Label>
+                <Select value={options.delimiter} onValueChange={(value) => onOptionsChange({ ...options, delimiter: value as CsvDelimiter })}>
+                  <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {CSV_DELIMITERS.map(item => <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label>Decimal separator</Label>
+              <Select value={options.decimalSeparator} onValueChange={(value) => onOptionsChange({ ...options, decimalSeparator: value as DecimalSeparator })}>
+                <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {DECIMAL_SEPARATORS.map(item => <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Date format</Label>
+              <Select value={options.dateFormat} onValueChange={(value) => onOptionsChange({ ...options, dateFormat: value as ExportDateFormat })}>
+                <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {EXPORT_DATE_FORMATS.map(item => <SelectItem key={item} value={item}>{item}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Scale } from 'lucide-react';
+import type { OcrComparison } from '@/lib/ocr-providers';
+import { isProcessingCancelledError } from '@/types/errors';
+
+interface OcrComparisonDialogProps {
+  isOpen: boolean;
+  pageNumbers: number[]; // The scanned pages that can be compared
+  /** Reads the page with each OCR provider; aborted when the dialog closes. */
+  compare: (pageNum: number, signal: AbortSignal) => Promise<OcrComparison>;
+  onClose: () => void;
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+/**
+ * Reads one scanned page with the AI and with on-device OCR and shows both texts side by side,
+ * with how much they agree and how long each took, so users can judge on-device OCR before relying on it.
+ */
+export default function OcrComparisonDialog({ isOpen, pageNumbers, compare, onClose }: OcrComparisonDialogProps) {
+  const [pageNum, setPageNum] = useState<number | null>(null);
+  const [comparison, setComparison] = useState<OcrComparison | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPageNum(pageNumbers[0] ?? null);
+      setComparison(null);
+      setError(null);
+    }
+    return () => abortControllerRef.current?.abort();
+  }, [isOpen, pageNumbers]);
+
+  const runComparison = async () => {
+    if (pageNum === null) return;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsComparing(true);
+    setComparison(null);
+    setError(null);
+    try {
+      setComparison(await compare(pageNum, abortController.signal));
+    } catch (err: unknown) {
+      if (!isProcessingCancelledError(err)) {
+        console.error("OCR comparison failed:", err);
+        setError(err instanceof Error ? err.message : "The page could not be compared.");
+      }
+    } finally {
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null;
+      setIsComparing(false);
+    }
+  };
+
+  const close = () => {
+    abortControllerRef.current?.abort();
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) close(); }}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5 text-primary" />
+            Compare OCR
+          </DialogTitle>
+          <DialogDescription>
+            Reads a page with the AI and with on-device OCR, which runs in your browser and is used in privacy mode.
+            The AI reading uploads the page, as a normal conversion does.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="compare-page">Page</Label>
+            <Select
+              value={pageNum !== null ? String(pageNum) : undefined}
+              onValueChange={(value) => setPageNum(Number(value))}
+              disabled={isComparing}
+            >
+              <SelectTrigger id="compare-page" className="w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {pageNumbers.map(page => (
+                  <SelectItem key={page} value={String(page)}>Page {page}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={runComparison} disabled={isComparing || pageNum === null}>
+            {isComparing ? 'Reading page...' : 'Compare'}
+          </Button>
+          {comparison?.similarity !== null && comparison?.similarity !== undefined && (
+            <p className="ml-auto text-sm text-muted-foreground">
+              The two readings share <span className="font-medium text-foreground">{Math.round(comparison.similarity * 100)}%</span> of their words
+            </p>
+          )}
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {comparison && (
+          <div className="grid gap-4 md:grid-cols-2">
+            {comparison.entries.map(entry => (
+              <div key={entry.providerId} className="space-y-1">
+                <div className="flex items-baseline justify-between">
+                  <h3 className="font-semibold text-foreground">{entry.label}</h3>
+                  <span className="text-xs text-muted-foreground">{formatDuration(entry.durationMs)}</span>
+                </div>
+                <ScrollArea className="h-[320px] rounded-md border p-3">
+                  {entry.text !== null
+                    ? <pre className="whitespace-pre-wrap text-xs">{entry.text || '(no text found)'}</pre>
+                    : <p className="text-sm text-destructive">{entry.error}</p>}
+                </ScrollArea>
+              </div>
+            ))}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
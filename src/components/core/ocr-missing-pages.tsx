@@ -0,0 +1,47 @@
+"use client";
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, RotateCw } from 'lucide-react';
+import { missingOcrPages, type OcrPageResult } from '@/lib/ocr-scheduler';
+
+interface OcrMissingPagesProps {
+  pages: OcrPageResult[];
+  retryingPage: number | null;
+  disabled?: boolean;
+  onRetry: (pageNum: number) => void;
+}
+
+/**
+ * Lists the pages OCR could not read, each with a button to scan just that page again.
+ */
+export default function OcrMissingPages({ pages, retryingPage, disabled, onRetry }: OcrMissingPagesProps) {
+  const missing = missingOcrPages(pages);
+  if (missing.length === 0) return null;
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {missing.length === 1 ? `Page ${missing[0]} could not be read` : `${missing.length} pages could not be read`}
+      </AlertTitle>
+      <AlertDescription className="space-y-2">
+        <p>The data below is missing these pages. Scan a page again to add it; the document is then structured anew.</p>
+        <div className="flex flex-wrap gap-2">
+          {missing.map(pageNum => (
+            <Button
+              key={pageNum}
+              variant="outline"
+              size="sm"
+              onClick={() => onRetry(pageNum)}
+              disabled={disabled || retryingPage !== null}
+            >
+              <RotateCw className={`mr-2 h-4 w-4${retryingPage === pageNum ? ' animate-spin' : ''}`} />
+              Retry page {pageNum}
+            </Button>
+          ))}
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
+import { Languages } from 'lucide-react';
+import { OCR_LANGUAGES } from '@/config/ocr-languages';
+
+interface OcrPrivacyControlsProps {
+  privacyMode: boolean;
+  locked: boolean; // The site requires privacy mode
+  languages: string[];
+  onPrivacyModeChange: (enabled: boolean) => void;
+  onLanguagesChange: (codes: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Turns privacy mode on or off and picks the language packs on-device OCR reads scanned pages with.
+ */
+export default function OcrPrivacyControls({
+  privacyMode,
+  locked,
+  languages,
+  onPrivacyModeChange,
+  onLanguagesChange,
+  disabled,
+}: OcrPrivacyControlsProps) {
+  const toggleLanguage = (code: string, enabled: boolean) => {
+    const next = enabled ? [...languages, code] : languages.filter(existing => existing !== code);
+    if (next.length > 0) onLanguagesChange(next);
+  };
+  const languageLabels = OCR_LANGUAGES.filter(language => languages.includes(language.code)).map(language => language.label);
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <div className="flex items-center justify-center gap-2">
+        <Switch
+          id="privacy-mode"
+          checked={privacyMode}
+          onCheckedChange={onPrivacyModeChange}
+          disabled={disabled || locked}
+        />
+        <Label htmlFor="privacy-mode" className="text-sm font-normal">Privacy mode: keep documents on this device</Label>
+        {privacyMode && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="h-8" disabled={disabled}>
+                <Languages className="mr-2 h-4 w-4" />{languageLabels.join(', ')}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 space-y-3">
+              <p className="text-sm font-medium">OCR languages</p>
+              <div className="grid grid-cols-2 gap-2">
+                {OCR_LANGUAGES.map(language => (
+                  <div key={language.code} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`ocr-language-${language.code}`}
+                      checked={languages.includes(language.code)}
+                      onCheckedChange={(checked) => toggleLanguage(language.code, checked === true)}
+                    />
+                    <Label htmlFor={`ocr-language-${language.code}`} className="text-sm font-normal">{language.label}</Label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">Each language is downloaded once and then read offline.</p>
+            </PopoverContent>
+          </Popover>
+        )}
+      </div>
+      {privacyMode && (
+        <p className="text-xs text-muted-foreground text-center">
+          {locked ? 'This site keeps all documents on your device. ' : ''}
+          Scanned pages are read in your browser and nothing is uploaded; only bank statements can be converted without AI.
+        </p>
+      )}
+    </div>
+  );
+}
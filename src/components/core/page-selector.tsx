@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { CheckCircle2, Layers } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatPageRanges, parsePageRanges } from '@/lib/page-ranges';
+import { isProcessingCancelledError } from '@/types/errors';
+
+// Thumbnails only need to be recognisable; a quarter of the OCR resolution keeps long files light
+const THUMBNAIL_SCALE = 0.25;
+
+interface PageSelectorProps {
+  file: File;
+  /** Asks for the password of an encrypted PDF; resolves null if the user cancels. */
+  requestPassword: (fileName: string, incorrect: boolean, signal: AbortSignal) => Promise<string | null>;
+  /**
+   * Called with the selected pages, or undefined for all pages when the thumbnails could not be shown.
+   * The password entered for the thumbnails is handed on so the conversion does not ask again.
+   */
+  onConfirm: (pageNumbers: number[] | undefined, password?: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Shows low-resolution thumbnails of a PDF's pages before it is converted, so only the pages the user
+ * selects (by clicking or by typing ranges such as "2-5,8") are sent to text extraction and OCR.
+ */
+export default function PageSelector({ file, requestPassword, onConfirm, onCancel }: PageSelectorProps) {
+  const [thumbnails, setThumbnails] = useState<Array<string | null>>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [rangeText, setRangeText] = useState('');
+  const [rangeError, setRangeError] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [password, setPassword] = useState<string | undefined>();
+  const pageCount = thumbnails.length;
+
+  useEffect(() => {
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    setThumbnails([]);
+    setLoadError(null);
+
+    (async () => {
+      const [{ withPdfPassword }, { convertPdfPagesToImageUrisInWorker }] = await Promise.all([
+        import('@/lib/pdf-utils'),
+        import('@/lib/pdf-worker-client'),
+      ]);
+      const buffer = await file.arrayBuffer();
+      // Each attempt gets a clone of the buffer, which is transferred to the rendering worker
+      const { password: entered } = await withPdfPassword(
+        candidate => convertPdfPagesToImageUrisInWorker(
+          buffer.slice(0),
+          async (imageUri, pageNum, totalPages) => {
+            if (signal.aborted) return;
+            setThumbnails(current => {
+              const next = current.length === totalPages ? [...current] : new Array<string | null>(totalPages).fill(null);
+              next[pageNum - 1] = imageUri;
+              return next;
+            });
+            if (pageNum === 1) {
+              setSelected(new Set(Array.from({ length: totalPages }, (_, index) => index + 1)));
+              setRangeText(`1-${totalPages}`);
+            }
+          },
+          signal,
+          candidate,
+          { scale: THUMBNAIL_SCALE }
+        ),
+        incorrect => requestPassword(file.name, incorrect, signal),
+        signal
+      );
+      if (!signal.aborted) setPassword(entered);
+    })().catch(error => {
+      if (signal.aborted) return;
+      if (isProcessingCancelledError(error)) {
+        onCancel();
+        return;
+      }
+      console.error("Failed to render page thumbnails:", error);
+      setLoadError("The pages of this PDF could not be shown. You can still convert all pages.");
+    });
+
+    return () => abortController.abort();
+    // onCancel and requestPassword are stable callbacks of the page; rendering restarts only for a new file
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [file]);
+
+  const selectedPages = useMemo(() => [...selected].sort((a, b) => a - b), [selected]);
+
+  const applySelection = (pages: Iterable<number>) => {
+    const next = new Set(pages);
+    setSelected(next);
+    setRangeText(formatPageRanges([...next]));
+    setRangeError(null);
+  };
+
+  const togglePage = (pageNum: number) => {
+    const next = new Set(selected);
+    if (next.has(pageNum)) next.delete(pageNum);
+    else next.add(pageNum);
+    applySelection(next);
+  };
+
+  const handleRangeChange = (text: string) => {
+    setRangeText(text);
+    if (!pageCount) return;
+    try {
+      setSelected(new Set(parsePageRanges(text, pageCount)));
+      setRangeError(null);
+    } catch (error) {
+      setRangeError(error instanceof Error ? error.message : "Invalid page range.");
+    }
+  };
+
+  const canConfirm = loadError !== null || (selectedPages.length > 0 && rangeError === null);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Layers className="h-5 w-5 text-primary" />
+          <CardTitle className="text-xl">Choose pages</CardTitle>
+        </div>
+        <CardDescription>
+          Only the selected pages of <span className="font-medium text-foreground">{file.name}</span> are converted.
+          Click a page to select or deselect it, or type page ranges.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loadError ? (
+          <p className="text-sm text-destructive">{loadError}</p>
+        ) : (
+          <>
+            <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="page-ranges">Pages</Label>
+                <Input
+                  id="page-ranges"
+                  value={rangeText}
+                  onChange={(event) => handleRangeChange(event.target.value)}
+                  placeholder="e.g. 2-5,8"
+                  disabled={pageCount === 0}
+                  aria-invalid={rangeError !== null}
+                />
+              </div>
+              <Button variant="outline" onClick={() => applySelection(Array.from({ length: pageCount }, (_, index) => index + 1))} disabled={pageCount === 0}>
+                Select all
+              </Button>
+              <Button variant="outline" onClick={() => applySelection([])} disabled={pageCount === 0}>
+                Clear
+              </Button>
+            </div>
+            {rangeError && <p className="text-sm text-destructive">{rangeError}</p>}
+            <ScrollArea className="h-[420px] rounded-md border p-3">
+              <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3">
+                {pageCount === 0
+                  ? Array.from({ length: 6 }, (_, index) => <Skeleton key={index} className="aspect-[3/4] w-full" />)
+                  : thumbnails.map((thumbnail, index) => {
+                      const pageNum = index + 1;
+                      const isSelected = selected.has(pageNum);
+                      return (
+                        <button
+                          key={pageNum}
+                          type="button"
+                          onClick={() => togglePage(pageNum)}
+                          aria-pressed={isSelected}
+                          aria-label={`Page ${pageNum}`}
+                          className={cn(
+                            "relative rounded-md border-2 p-1 text-xs transition-opacity",
+                            isSelected ? "border-primary" : "border-transparent opacity-50"
+                          )}
+                        >
+                          {thumbnail ? (
+                            // eslint-disable-next-line @next/next/no-img-element
+                            <img src={thumbnail} alt={`Page ${pageNum}`} className="w-full rounded-sm bg-white" />
+                          ) : (
+                            <Skeleton className="aspect-[3/4] w-full" />
+                          )}
+                          {isSelected && <CheckCircle2 className="absolute right-2 top-2 h-4 w-4 text-primary" />}
+                          <span className="mt-1 block text-center text-muted-foreground">{pageNum}</span>
+                        </button>
+                      );
+                    })}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button
+            onClick={() => onConfirm(loadError ? undefined : selectedPages, password)}
+            disabled={!canConfirm}
+          >
+            {loadError
+              ? 'Convert all pages'
+              : `Convert ${selectedPages.length} ${selectedPages.length === 1 ? 'page' : 'pages'}`}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Lock } from 'lucide-react';
+
+interface PdfPasswordDialogProps {
+  isOpen: boolean;
+  fileName: string;
+  incorrect: boolean; // The previous password was rejected
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks for the password of an encrypted PDF. The password only opens the file in this browser;
+ * it is never sent to the server or saved.
+ */
+export default function PdfPasswordDialog({ isOpen, fileName, incorrect, onSubmit, onCancel }: PdfPasswordDialogProps) {
+  const [password, setPassword] = useState('');
+
+  // Start empty every time, so a password is not kept in the form between files
+  useEffect(() => {
+    if (isOpen) setPassword('');
+  }, [isOpen, fileName, incorrect]);
+
+  const submit = () => {
+    if (password) onSubmit(password);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onCancel(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5 text-primary" />
+            Password required
+          </DialogTitle>
+          <DialogDescription>
+            <span className="font-medium text-foreground">{fileName}</span> is password-protected.
+            The password is only used to open the file in your browser; it is never uploaded or saved.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            submit();
+          }}
+        >
+          <Label htmlFor="pdf-password">PDF password</Label>
+          <Input
+            id="pdf-password"
+            type="password"
+            autoComplete="off"
+            autoFocus
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            aria-invalid={incorrect}
+          />
+          {incorrect && <p className="text-sm text-destructive">That password is incorrect. Please try again.</p>}
+        </form>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={submit} disabled={!password}>Open PDF</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
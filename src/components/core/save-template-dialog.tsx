@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface SaveTemplateDialogProps {
+  isOpen: boolean;
+  defaultName: string;
+  isSaving: boolean;
+  onSave: (name: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks for a name before the corrected conversion is saved as an extraction template.
+ */
+export default function SaveTemplateDialog({ isOpen, defaultName, isSaving, onSave, onCancel }: SaveTemplateDialogProps) {
+  const [name, setName] = useState(defaultName);
+
+  useEffect(() => {
+    if (isOpen) setName(defaultName);
+  }, [isOpen, defaultName]);
+
+  const trimmedName = name.trim();
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open && !isSaving) onCancel(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save as template</DialogTitle>
+          <DialogDescription>
+            The columns, date format and skipped lines of this statement are learned from your corrections.
+            Later statements from the same bank or with the same layout are read with the template instead of AI.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="template-name">Template name</Label>
+          <Input
+            id="template-name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="e.g. Main bank current account"
+            disabled={isSaving}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isSaving}>Cancel</Button>
+          <Button onClick={() => onSave(trimmedName)} disabled={isSaving || !trimmedName}>
+            {isSaving ? 'Saving...' : 'Save template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
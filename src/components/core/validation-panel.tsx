@@ -0,0 +1,81 @@
+import { memo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle, CheckCircle2, Wand2, XCircle } from 'lucide-react';
+import type { DocumentValidationResult } from '@/lib/document-types';
+
+interface ValidationPanelProps {
+  validation: DocumentValidationResult;
+  outdated?: boolean; // The data was edited after the checks ran
+}
+
+/**
+ * Lists validation issues, accuracy warnings and automatic corrections so the user knows whether the
+ * conversion needs a manual check.
+ */
+const ValidationPanel = memo(function ValidationPanel({ validation, outdated = false }: ValidationPanelProps) {
+  const { issues, accuracyWarnings, corrections = [] } = validation;
+  const needsReview = issues.length > 0 || accuracyWarnings.length > 0;
+  const hasFindings = needsReview || corrections.length > 0;
+
+  return (
+    <Card className="h-full">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          {needsReview
+            ? <AlertTriangle className="h-4 w-4 text-amber-500" />
+            : <CheckCircle2 className="h-4 w-4 text-green-600" />}
+          Validation
+        </CardTitle>
+        <CardDescription>
+          {needsReview ? 'Check these points against the original PDF.' : 'All validation checks passed.'}
+        </CardDescription>
+        {outdated && (
+          <p className="text-xs text-muted-foreground">
+            These checks ran before your edits and may no longer apply.
+          </p>
+        )}
+        {hasFindings && (
+          <div className="flex flex-wrap gap-2 pt-1">
+            {issues.length > 0 && <Badge variant="destructive">{issues.length} {issues.length === 1 ? 'issue' : 'issues'}</Badge>}
+            {accuracyWarnings.length > 0 && (
+              <Badge variant="secondary">{accuracyWarnings.length} {accuracyWarnings.length === 1 ? 'warning' : 'warnings'}</Badge>
+            )}
+            {corrections.length > 0 && (
+              <Badge variant="outline">{corrections.length} {corrections.length === 1 ? 'correction' : 'corrections'}</Badge>
+            )}
+          </div>
+        )}
+      </CardHeader>
+      {hasFindings && (
+        <CardContent>
+          <ScrollArea className="max-h-[420px] pr-3">
+            <ul className="space-y-2 text-sm">
+              {issues.map((issue, index) => (
+                <li key={`issue-${index}`} className="flex gap-2">
+                  <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+                  <span>{issue}</span>
+                </li>
+              ))}
+              {accuracyWarnings.map((warning, index) => (
+                <li key={`warning-${index}`} className="flex gap-2">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-500" />
+                  <span>{warning}</span>
+                </li>
+              ))}
+              {corrections.map((correction, index) => (
+                <li key={`correction-${index}`} className="flex gap-2">
+                  <Wand2 className="h-4 w-4 mt-0.5 shrink-0 text-primary" />
+                  <span>{correction}</span>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        </CardContent>
+      )}
+    </Card>
+  );
+});
+
+export default ValidationPanel;
@@ -0,0 +1,56 @@
+import type React from 'react';
+import { Landmark, CreditCard, FileText, Receipt, Wallet } from 'lucide-react';
+
+export type DocumentTypeId = 'bankStatement' | 'creditCardStatement' | 'invoice' | 'receipt' | 'payslip';
+
+// A registered document type, or free-form extraction of every table in the document
+export type DocumentChoice = DocumentTypeId | 'genericTables';
+
+export interface DocumentTypeInfo {
+  id: DocumentTypeId;
+  label: string;
+  description: string;
+  icon: React.ElementType;
+}
+
+export const DEFAULT_DOCUMENT_TYPE_ID: DocumentTypeId = 'bankStatement';
+
+// Below this classifier confidence the user is asked to pick the document type.
+export const MIN_CLASSIFICATION_CONFIDENCE = 0.7;
+
+export const DOCUMENT_TYPES: DocumentTypeInfo[] = [
+  {
+    id: 'bankStatement',
+    label: 'Bank Statement',
+    description: 'Transactions with date, description, paid out, paid in and running balance.',
+    icon: Landmark,
+  },
+  {
+    id: 'creditCardStatement',
+    label: 'Credit Card Statement',
+    description: 'Card transactions, payment due date, minimum payment and new balance.',
+    icon: CreditCard,
+  },
+  {
+    id: 'invoice',
+    label: 'Invoice',
+    description: 'Seller and buyer details, line items, tax and totals.',
+    icon: FileText,
+  },
+  {
+    id: 'receipt',
+    label: 'Receipt',
+    description: 'Merchant, purchased items, tax, tip and total paid.',
+    icon: Receipt,
+  },
+  {
+    id: 'payslip',
+    label: 'Payslip',
+    description: 'Earnings, deductions, gross pay and net pay.',
+    icon: Wallet,
+  },
+];
+
+export function getDocumentTypeInfo(id: DocumentTypeId): DocumentTypeInfo {
+  return DOCUMENT_TYPES.find(type => type.id === id) ?? DOCUMENT_TYPES[0];
+}
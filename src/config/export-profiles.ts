@@ -0,0 +1,71 @@
+import type { AccountingExportField, AccountingExportProfile, AccountingSignConvention } from '@/types/site-settings';
+
+export const ACCOUNTING_EXPORT_FIELDS: Array<{ id: AccountingExportField; label: string }> = [
+  { id: 'date', label: 'Date' },
+  { id: 'description', label: 'Description' },
+  { id: 'payee', label: 'Payee (from description)' },
+  { id: 'reference', label: 'Reference (left blank)' },
+  { id: 'amount', label: 'Signed amount' },
+  { id: 'debit', label: 'Debit (money out)' },
+  { id: 'credit', label: 'Credit (money in)' },
+  { id: 'balance', label: 'Running balance' },
+];
+
+export const ACCOUNTING_SIGN_CONVENTIONS: Array<{ id: AccountingSignConvention; label: string }> = [
+  { id: 'signedAmount', label: 'Single signed amount (money out negative)' },
+  { id: 'separateDebitCredit', label: 'Separate debit and credit columns' },
+];
+
+// Bank-import CSV layouts of the major accounting packages
+export const BUILT_IN_EXPORT_PROFILES: AccountingExportProfile[] = [
+  {
+    id: 'quickbooks-online',
+    name: 'QuickBooks Online',
+    columns: [
+      { field: 'date', header: 'Date' },
+      { field: 'description', header: 'Description' },
+      { field: 'amount', header: 'Amount' },
+    ],
+    dateFormat: 'MM/DD/YYYY',
+    signConvention: 'signedAmount',
+    delimiter: ',',
+    isBuiltIn: true,
+  },
+  {
+    id: 'xero',
+    name: 'Xero',
+    columns: [
+      { field: 'date', header: '*Date' },
+      { field: 'amount', header: '*Amount' },
+      { field: 'payee', header: 'Payee' },
+      { field: 'description', header: 'Description' },
+      { field: 'reference', header: 'Reference' },
+    ],
+    dateFormat: 'DD/MM/YYYY',
+    signConvention: 'signedAmount',
+    delimiter: ',',
+    isBuiltIn: true,
+  },
+  {
+    id: 'sage',
+    name: 'Sage',
+    columns: [
+      { field: 'date', header: 'Date' },
+      { field: 'reference', header: 'Reference' },
+      { field: 'description', header: 'Description' },
+      { field: 'credit', header: 'Money In' },
+      { field: 'debit', header: 'Money Out' },
+    ],
+    dateFormat: 'DD/MM/YYYY',
+    signConvention: 'separateDebitCredit',
+    delimiter: ',',
+    isBuiltIn: true,
+  },
+];
+
+/**
+ * Built-in profiles followed by the admin's custom ones.
+ */
+export function getExportProfiles(customProfiles: AccountingExportProfile[] = []): AccountingExportProfile[] {
+  return [...BUILT_IN_EXPORT_PROFILES, ...customProfiles];
+}
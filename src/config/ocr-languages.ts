@@ -0,0 +1,38 @@
+import type { OcrPrivacyPolicy } from '@/types/site-settings';
+
+export interface OcrLanguage {
+  code: string; // Tesseract traineddata name, e.g. 'eng'
+  label: string;
+}
+
+// Language packs offered for local OCR. Each is a few megabytes, downloaded once and cached by the browser.
+export const OCR_LANGUAGES: OcrLanguage[] = [
+  { code: 'eng', label: 'English' },
+  { code: 'deu', label: 'German' },
+  { code: 'fra', label: 'French' },
+  { code: 'spa', label: 'Spanish' },
+  { code: 'ita', label: 'Italian' },
+  { code: 'por', label: 'Portuguese' },
+  { code: 'nld', label: 'Dutch' },
+  { code: 'pol', label: 'Polish' },
+  { code: 'tur', label: 'Turkish' },
+  { code: 'swe', label: 'Swedish' },
+  { code: 'dan', label: 'Danish' },
+  { code: 'nor', label: 'Norwegian' },
+];
+
+export const DEFAULT_OCR_LANGUAGES = ['eng'];
+
+export const DEFAULT_OCR_PRIVACY_POLICY: OcrPrivacyPolicy = 'optional';
+
+export const OCR_PRIVACY_POLICIES: Array<{ id: OcrPrivacyPolicy; label: string; description: string }> = [
+  { id: 'optional', label: 'Optional', description: 'Users can turn privacy mode on; it is off until they do.' },
+  { id: 'default', label: 'On by default', description: 'Privacy mode is on for new users, who can turn it off.' },
+  { id: 'enforced', label: 'Always on', description: 'Every conversion stays on the device; users cannot turn it off.' },
+];
+
+/** The known language codes among `codes`, in the order of OCR_LANGUAGES; the default when none are known. */
+export function normalizeOcrLanguages(codes: string[] | undefined): string[] {
+  const known = OCR_LANGUAGES.map(language => language.code).filter(code => codes?.includes(code));
+  return known.length > 0 ? known : DEFAULT_OCR_LANGUAGES;
+}
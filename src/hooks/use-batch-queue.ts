@@ -0,0 +1,116 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { ConversionStage } from '@/lib/conversion-pipeline';
+import { isProcessingCancelledError } from '@/types/errors';
+
+export type BatchItemStatus = 'queued' | ConversionStage | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem<T> {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  message: string;
+  result: T | null;
+  error: string | null;
+}
+
+/** Runs one file; report stage changes through `update` and throw ProcessingCancelledError when `signal` aborts. */
+export type BatchProcessor<T> = (
+  file: File,
+  signal: AbortSignal,
+  update: (stage: ConversionStage, message: string) => void
+) => Promise<T>;
+
+const DEFAULT_CONCURRENCY = 2;
+
+/**
+ * Keeps a queue of files and converts at most `concurrency` of them at a time.
+ * Each file can be cancelled while queued or running, and retried once it has failed or been cancelled.
+ */
+export function useBatchQueue<T>(processFile: BatchProcessor<T>, concurrency: number = DEFAULT_CONCURRENCY) {
+  const [items, setItems] = useState<BatchItem<T>[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const processFileRef = useRef(processFile);
+  processFileRef.current = processFile;
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem<T>>) => {
+    setItems(current => current.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const runItem = useCallback(async (item: BatchItem<T>, controller: AbortController) => {
+    // A cancelled run can still be unwinding after the file was retried, so only the latest run may update it
+    const isCurrentRun = () => controllersRef.current.get(item.id) === controller;
+    // The slot is freed before the state update so the scheduler sees it when it re-runs
+    const finish = (changes: Partial<BatchItem<T>>) => {
+      if (!isCurrentRun()) return;
+      controllersRef.current.delete(item.id);
+      updateItem(item.id, changes);
+    };
+    try {
+      const result = await processFileRef.current(item.file, controller.signal, (stage, message) => {
+        if (isCurrentRun()) updateItem(item.id, { status: stage, message });
+      });
+      finish({ status: 'done', message: '', result });
+    } catch (err: unknown) {
+      if (controller.signal.aborted || isProcessingCancelledError(err) || (err instanceof Error && err.name === 'AbortError')) {
+        finish({ status: 'cancelled', message: '' });
+      } else {
+        const errorMessage = err instanceof Error ? err.message : "An unknown error occurred during conversion.";
+        console.error(`Batch conversion failed for ${item.file.name}:`, err);
+        finish({ status: 'failed', message: '', error: errorMessage });
+      }
+    }
+  }, [updateItem]);
+
+  // Start queued files whenever a slot is free
+  useEffect(() => {
+    const running = controllersRef.current;
+    const waiting = items.filter(item => item.status === 'queued' && !running.has(item.id));
+    for (const item of waiting.slice(0, Math.max(0, concurrency - running.size))) {
+      const controller = new AbortController();
+      running.set(item.id, controller);
+      updateItem(item.id, { status: 'extracting', message: 'Starting...' });
+      void runItem(item, controller);
+    }
+  }, [items, concurrency, runItem, updateItem]);
+
+  // Abort anything still running when the page goes away
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  const enqueue = useCallback((files: File[]) => {
+    setItems(current => [
+      ...current,
+      ...files.map(file => ({ id: uuidv4(), file, status: 'queued' as const, message: '', result: null, error: null })),
+    ]);
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    const controller = controllersRef.current.get(id);
+    if (controller) {
+      controller.abort();
+      controllersRef.current.delete(id);
+    }
+    setItems(current => current.map(item => (item.id === id && item.status !== 'done' ? { ...item, status: 'cancelled', message: '' } : item)));
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    setItems(current => current.map(item =>
+      item.id === id && (item.status === 'failed' || item.status === 'cancelled')
+        ? { ...item, status: 'queued', message: '', error: null, result: null }
+        : item
+    ));
+  }, []);
+
+  const clear = useCallback(() => {
+    controllersRef.current.forEach(controller => controller.abort());
+    controllersRef.current.clear();
+    setItems([]);
+  }, []);
+
+  return { items, enqueue, cancel, retry, clear };
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Grid } from '@/lib/grid-editing';
+
+const MAX_HISTORY_LENGTH = 100;
+
+interface GridHistory {
+  past: Grid[];
+  future: Grid[];
+}
+
+/**
+ * Undo/redo for a grid whose state is owned by the parent component.
+ * Edits are applied through `commit`, which reports the new grid via `onChange` and records the previous one.
+ * When the parent replaces the grid with unrelated data (e.g. a new conversion), the history starts over.
+ */
+export function useGridHistory(data: Grid, onChange: (next: Grid) => void) {
+  const [history, setHistory] = useState<GridHistory>({ past: [], future: [] });
+  const lastEmittedRef = useRef<Grid | null>(null);
+
+  useEffect(() => {
+    if (data !== lastEmittedRef.current) {
+      setHistory({ past: [], future: [] });
+      lastEmittedRef.current = data;
+    }
+  }, [data]);
+
+  const emit = useCallback((next: Grid) => {
+    lastEmittedRef.current = next;
+    onChange(next);
+  }, [onChange]);
+
+  const commit = useCallback((next: Grid) => {
+    if (next === data) return;
+    setHistory(current => ({
+      past: [...current.past, data].slice(-MAX_HISTORY_LENGTH),
+      future: [],
+    }));
+    emit(next);
+  }, [data, emit]);
+
+  const undo = useCallback(() => {
+    const previous = history.past[history.past.length - 1];
+    if (!previous) return;
+    setHistory({ past: history.past.slice(0, -1), future: [data, ...history.future] });
+    emit(previous);
+  }, [data, emit, history]);
+
+  const redo = useCallback(() => {
+    const [next, ...rest] = history.future;
+    if (!next) return;
+    setHistory({ past: [...history.past, data], future: rest });
+    emit(next);
+  }, [data, emit, history]);
+
+  return {
+    commit,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
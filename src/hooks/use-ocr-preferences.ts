@@ -0,0 +1,51 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSettings } from '@/context/settings-context';
+import { DEFAULT_OCR_PRIVACY_POLICY, normalizeOcrLanguages } from '@/config/ocr-languages';
+
+const STORAGE_KEY = 'XLSCONVERT_OCR_PREFERENCES';
+
+// The user's own choices; unset values follow the site settings
+interface StoredOcrPreferences {
+  privacyMode?: boolean;
+  languages?: string[];
+}
+
+function readStoredPreferences(): StoredOcrPreferences {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) as StoredOcrPreferences : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * The user's privacy mode and OCR language choices, kept in this browser. The admin's policy decides whether
+ * privacy mode starts on and whether it can be turned off; the admin's languages apply until the user picks some.
+ */
+export function useOcrPreferences() {
+  const { settings } = useSettings();
+  const [stored, setStored] = useState<StoredOcrPreferences>({});
+
+  useEffect(() => {
+    setStored(readStoredPreferences());
+  }, []);
+
+  const policy = settings?.ocrPrivacyMode ?? DEFAULT_OCR_PRIVACY_POLICY;
+  const privacyModeLocked = policy === 'enforced';
+  const privacyMode = privacyModeLocked || (stored.privacyMode ?? policy === 'default');
+  const languages = normalizeOcrLanguages(stored.languages ?? settings?.defaultOcrLanguages);
+
+  const update = useCallback((changes: StoredOcrPreferences) => {
+    const next = { ...readStoredPreferences(), ...changes };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    setStored(next);
+  }, []);
+
+  const setPrivacyMode = useCallback((enabled: boolean) => update({ privacyMode: enabled }), [update]);
+  const setLanguages = useCallback((codes: string[]) => update({ languages: codes }), [update]);
+
+  return { privacyMode, privacyModeLocked, languages, setPrivacyMode, setLanguages };
+}
@@ -0,0 +1,72 @@
+import type { Transaction } from '@/ai/flows/structure-pdf-data-flow';
+import type { AccountingExportProfile } from '@/types/site-settings';
+import { formatExportDate } from '@/lib/date-formats';
+
+type ExportCell = string | number | null;
+
+/**
+ * Checks that a profile can be exported: it needs a name, a date column and amount columns that match its sign convention.
+ * Returns the problems found, or an empty list when the profile is usable.
+ */
+export function validateExportProfile(profile: AccountingExportProfile): string[] {
+  const problems: string[] = [];
+  const fields = new Set(profile.columns.map(column => column.field));
+
+  if (!profile.name.trim()) problems.push('Profile name is required.');
+  if (profile.columns.length === 0) problems.push('Add at least one column.');
+  if (!fields.has('date')) problems.push('A date column is required.');
+  if (profile.signConvention === 'signedAmount' && !fields.has('amount')) {
+    problems.push('A signed amount column is required for this sign convention.');
+  }
+  if (profile.signConvention === 'separateDebitCredit' && (!fields.has('debit') || !fields.has('credit'))) {
+    problems.push('Debit and credit columns are required for this sign convention.');
+  }
+  if (profile.columns.some(column => !column.header.trim())) problems.push('Every column needs a header name.');
+  return problems;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function cellFor(transaction: Transaction, field: AccountingExportProfile['columns'][number]['field'], profile: AccountingExportProfile): ExportCell {
+  switch (field) {
+    case 'date': return formatExportDate(transaction.date, profile.dateFormat);
+    case 'description':
+    case 'payee': return transaction.description;
+    case 'reference': return null;
+    case 'amount': {
+      const amount = roundCents((transaction.credit ?? 0) - (transaction.debit ?? 0));
+      // With separate debit and credit columns the direction is in those columns, so the amount is unsigned
+      return profile.signConvention === 'signedAmount' ? amount : Math.abs(amount);
+    }
+    case 'debit': {
+      if (transaction.debit === undefined || transaction.debit === null) return null;
+      // Money out is negative in signed layouts, also in a debit column next to the signed amount
+      const debit = roundCents(Math.abs(transaction.debit));
+      return profile.signConvention === 'signedAmount' && debit !== 0 ? -debit : debit;
+    }
+    case 'credit': {
+      if (transaction.credit === undefined || transaction.credit === null) return null;
+      return roundCents(Math.abs(transaction.credit));
+    }
+    case 'balance': return transaction.balance ?? null;
+  }
+}
+
+/**
+ * Lays out structured transactions in the profile's column order, header names, date format and sign convention:
+ * 'signedAmount' writes money out as negative numbers, 'separateDebitCredit' writes every amount as a positive number.
+ * The first row holds the header names.
+ */
+export function formatTransactionsForProfile(transactions: Transaction[], profile: AccountingExportProfile): ExportCell[][] {
+  const problems = validateExportProfile(profile);
+  if (problems.length > 0) {
+    throw new Error(`Export profile "${profile.name}" is incomplete: ${problems.join(' ')}`);
+  }
+
+  return [
+    profile.columns.map(column => column.header),
+    ...transactions.map(transaction => profile.columns.map(column => cellFor(transaction, column.field, profile))),
+  ];
+}
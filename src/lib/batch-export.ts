@@ -0,0 +1,80 @@
+import { strToU8, zipSync } from 'fflate';
+import { buildExcelFile, exportToExcel, type ExcelSheet } from '@/lib/excel-export';
+import {
+  buildExportContent,
+  withExportExtension,
+  DEFAULT_EXPORT_OPTIONS,
+  type ExportFormat,
+  type ExportOptions,
+} from '@/lib/export-formats';
+import { downloadBlob } from '@/lib/download';
+
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/** One converted file of a batch, ready to export. */
+export interface BatchExportEntry {
+  fileName: string; // Original PDF name
+  sheets: ExcelSheet[];
+  currency?: string;
+}
+
+function baseName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '');
+}
+
+function uniqueFileName(name: string, usedNames: Set<string>): string {
+  let candidate = name;
+  for (let suffix = 2; usedNames.has(candidate.toLowerCase()); suffix++) {
+    candidate = name.replace(/(\.[^.]+)?$/, ext => ` (${suffix})${ext}`);
+  }
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Downloads every converted file of a batch in the chosen format, bundled into one ZIP.
+ * Throws, naming the file, when one of them cannot be written in that format.
+ */
+export function downloadBatchAsZip(
+  entries: BatchExportEntry[],
+  format: ExportFormat,
+  zipFileName: string,
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS
+): void {
+  if (entries.length === 0) {
+    throw new Error("No converted files to download");
+  }
+
+  const files: Record<string, Uint8Array> = {};
+  const usedNames = new Set<string>();
+  for (const entry of entries) {
+    try {
+      files[uniqueFileName(withExportExtension(entry.fileName, format), usedNames)] = format === 'xlsx'
+        ? buildExcelFile(entry.sheets)
+        : strToU8(buildExportContent(entry.sheets, format, { ...options, currency: entry.currency ?? options.currency }));
+    } catch (error) {
+      throw new Error(`${entry.fileName}: ${error instanceof Error ? error.message : 'The file could not be exported.'}`);
+    }
+  }
+
+  const zip = zipSync(files, { level: 6 });
+  downloadBlob(new Blob([zip], { type: 'application/zip' }), zipFileName);
+}
+
+/**
+ * Downloads one workbook holding the sheets of every converted file, each sheet named after its source PDF.
+ */
+export function exportCombinedWorkbook(entries: BatchExportEntry[], fileName: string): void {
+  const sheets = entries.flatMap(entry => {
+    const source = baseName(entry.fileName);
+    return entry.sheets.map((sheet, index) => ({
+      ...sheet,
+      sourceFileName: sheet.sourceFileName ?? entry.fileName,
+      // The main sheet takes the file's name; extra sheets such as Validation add their own
+      name: index === 0
+        ? source
+        : `${source.slice(0, Math.max(1, MAX_SHEET_NAME_LENGTH - sheet.name.length - 1))} ${sheet.name}`,
+    }));
+  });
+  exportToExcel(sheets, fileName);
+}
@@ -0,0 +1,159 @@
+import type { StructuredPdfDataOutput, StructurePdfDataInput, Transaction } from '@/ai/flows/structure-pdf-data-flow';
+import { ProcessingCancelledError, isNetworkError } from '@/types/errors';
+
+// Statements longer than this many pages are structured in overlapping windows
+// so the AI never has to hold the whole document at once.
+export const PAGE_WINDOW_SIZE = 4;
+export const PAGE_WINDOW_OVERLAP = 1;
+
+export interface PageWindow {
+  startPage: number; // 1-based, inclusive
+  endPage: number; // 1-based, inclusive
+  text: string;
+}
+
+export interface StructuringProgress {
+  completed: number;
+  total: number;
+}
+
+interface StructureInPageWindowsOptions {
+  windowSize?: number;
+  overlap?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: StructuringProgress) => void;
+}
+
+/**
+ * Splits per-page text into windows of `windowSize` pages, each sharing `overlap` pages with the previous one.
+ */
+export function buildPageWindows(
+  pageTexts: string[],
+  windowSize: number = PAGE_WINDOW_SIZE,
+  overlap: number = PAGE_WINDOW_OVERLAP
+): PageWindow[] {
+  const size = Math.max(1, windowSize);
+  const step = Math.max(1, size - Math.max(0, overlap));
+  const windows: PageWindow[] = [];
+
+  for (let start = 0; start < pageTexts.length; start += step) {
+    const end = Math.min(start + size, pageTexts.length);
+    windows.push({
+      startPage: start + 1,
+      endPage: end,
+      text: pageTexts.slice(start, end).join('\n\n').trim(),
+    });
+    if (end === pageTexts.length) break;
+  }
+
+  return windows;
+}
+
+function transactionKey(transaction: Transaction): string {
+  const description = transaction.description.toLowerCase().replace(/\s+/g, ' ').trim();
+  return [
+    transaction.date,
+    description,
+    transaction.debit ?? '',
+    transaction.credit ?? '',
+    transaction.balance ?? '',
+  ].join('|');
+}
+
+/**
+ * Drops transactions from `next` that were already extracted from the overlapping pages in `previous`.
+ * Matching is by count, so genuinely repeated transactions (same day, same amount) are kept.
+ */
+function removeOverlapDuplicates(previous: Transaction[], next: Transaction[]): Transaction[] {
+  const seen = new Map<string, number>();
+  for (const transaction of previous) {
+    const key = transactionKey(transaction);
+    seen.set(key, (seen.get(key) ?? 0) + 1);
+  }
+
+  return next.filter(transaction => {
+    const key = transactionKey(transaction);
+    const remaining = seen.get(key) ?? 0;
+    if (remaining > 0) {
+      seen.set(key, remaining - 1);
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Merges window results in page order: header fields come from the first window that has them,
+ * footer fields from the last, and transactions repeated on overlapping pages are kept once.
+ * Currency sub-accounts are merged the same way: opening balance from the first window, the rest from the last.
+ */
+export function mergeWindowResults(results: StructuredPdfDataOutput[]): StructuredPdfDataOutput {
+  const merged: StructuredPdfDataOutput = { transactions: [] };
+  let previousTransactions: Transaction[] = [];
+
+  for (const result of results) {
+    if (result.header) {
+      const header = { ...(merged.header ?? {}) };
+      for (const [key, value] of Object.entries(result.header)) {
+        const field = key as keyof typeof header;
+        if (header[field] === undefined && value !== undefined && value !== '') {
+          (header as Record<string, unknown>)[field] = value;
+        }
+      }
+      merged.header = header;
+    }
+
+    if (result.footer) {
+      merged.footer = { ...(merged.footer ?? {}), ...result.footer };
+    }
+
+    for (const subAccount of result.subAccounts ?? []) {
+      const subAccounts = merged.subAccounts ?? (merged.subAccounts = []);
+      const index = subAccounts.findIndex(existing => existing.currency === subAccount.currency);
+      if (index === -1) {
+        subAccounts.push(subAccount);
+      } else {
+        const { openingBalance } = subAccounts[index];
+        subAccounts[index] = { ...subAccounts[index], ...subAccount, openingBalance: openingBalance ?? subAccount.openingBalance };
+      }
+    }
+
+    const transactions = result.transactions ?? [];
+    merged.transactions.push(...removeOverlapDuplicates(previousTransactions, transactions));
+    previousTransactions = transactions;
+  }
+
+  return merged;
+}
+
+/**
+ * Structures a long bank statement one page window at a time and merges the results.
+ * Windows run sequentially so progress can be reported and cancellation honoured between calls.
+ */
+export async function structureInPageWindows(
+  pageTexts: string[],
+  structure: (input: StructurePdfDataInput) => Promise<StructuredPdfDataOutput>,
+  options: StructureInPageWindowsOptions = {}
+): Promise<StructuredPdfDataOutput> {
+  const windows = buildPageWindows(pageTexts, options.windowSize, options.overlap)
+    .filter(window => window.text.length > 0);
+  const results: StructuredPdfDataOutput[] = [];
+
+  options.onProgress?.({ completed: 0, total: windows.length });
+  for (const window of windows) {
+    // AbortSignal cannot be passed to server actions, so check between windows
+    if (options.signal?.aborted) {
+      throw new ProcessingCancelledError();
+    }
+    try {
+      results.push(await structure({ rawText: window.text }));
+    } catch (error) {
+      if (isNetworkError(error)) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to structure pages ${window.startPage}-${window.endPage}: ${message}`);
+    }
+    options.onProgress?.({ completed: results.length, total: windows.length });
+  }
+
+  return mergeWindowResults(results);
+}
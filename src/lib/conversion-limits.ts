@@ -0,0 +1,130 @@
+"use client";
+
+import { auth } from '@/lib/firebase';
+import { logConversionToFirestore } from '@/lib/firebase-analytics-service';
+import {
+  activateSubscriptionPlan,
+  getActivePlanForUser,
+  getConversionLimitStatus,
+  releaseConversionQuota,
+  reserveConversionQuota,
+} from '@/app/actions/conversion-quota';
+import type { Plan } from '@/config/pricing';
+import type { ActivePlan, BillingCycle, ConversionGrantCredentials, LimitStatus } from '@/types/conversion-quota';
+
+export type { ActivePlan, LimitStatus, PlanDetails } from '@/types/conversion-quota';
+
+/**
+ * Returns a fresh ID token for the signed-in user, or null for guests.
+ * The userId must match the Firebase Auth session so the ledger cannot be charged to someone else.
+ */
+async function getIdTokenFor(userId: string | null): Promise<string | null> {
+  if (!userId) return null;
+  const user = auth.currentUser;
+  if (!user || user.uid !== userId) {
+    throw new Error("Your session has changed. Please sign in again.");
+  }
+  return user.getIdToken();
+}
+
+// --- PUBLIC API ---
+
+/**
+ * Checks if a conversion is allowed for the user against the server-side quota ledger.
+ * It first checks for a paid plan, then falls back to the free tier.
+ * @param userId - The user's ID or null for a guest.
+ * @param conversionsRequested - The number of conversions being attempted (for batch processing).
+ */
+export async function checkConversionLimit(userId: string | null, conversionsRequested: number = 1): Promise<LimitStatus> {
+  return getConversionLimitStatus(await getIdTokenFor(userId), conversionsRequested);
+}
+
+// A reserved conversion, kept by the browser for the AI steps of the conversion
+export interface ConversionGrant {
+  grantId: string;
+  userId: string | null; // Who reserved it; the AI server actions only run it for them
+}
+
+export interface ConversionReservation {
+  status: LimitStatus;
+  grant: ConversionGrant | null; // Null when the quota is used up
+}
+
+/**
+ * Charges one conversion of a document with `pageCount` pages in the server-side ledger. The AI steps of the
+ * conversion only run with the returned grant, so each file is paid for before the server does any work;
+ * the page count bounds how many AI calls the grant allows.
+ * The status has `allowed: false` and there is no grant if the quota is used up.
+ */
+export async function reserveConversion(userId: string | null, pageCount: number): Promise<ConversionReservation> {
+  const { status, grantId } = await reserveConversionQuota(await getIdTokenFor(userId), pageCount);
+  return { status, grant: grantId ? { grantId, userId } : null };
+}
+
+/**
+ * The grant with a fresh ID token of the user who reserved it, as the AI server actions take it.
+ * Called for each AI call, since a grant can outlive the ID token it was reserved with.
+ */
+export async function getConversionGrantCredentials(grant: ConversionGrant): Promise<ConversionGrantCredentials> {
+  return { grantId: grant.grantId, idToken: await getIdTokenFor(grant.userId) };
+}
+
+/**
+ * Settles a reserved conversion once it has ended. A successful conversion is logged for analytics;
+ * a failed one is offered back, which the server grants only when it saw the AI provider fail it.
+ */
+export async function settleConversion(grant: ConversionGrant, succeeded: boolean): Promise<void> {
+  const { grantId, userId } = grant;
+  if (succeeded) {
+    // Log the conversion to Firestore for backend analytics
+    logConversionToFirestore(userId ? 'loggedIn' : 'guest', userId || undefined).catch(error => {
+      console.warn("[ConversionLimits] Failed to log conversion to Firestore:", error);
+    });
+    return;
+  }
+  try {
+    await releaseConversionQuota(await getIdTokenFor(userId), grantId);
+  } catch (error) {
+    console.warn("[ConversionLimits] Failed to give back an unfinished conversion:", error);
+  }
+}
+
+/**
+ * Activates a subscription plan for the signed-in user. Quota is looked up on the server from the plan ID.
+ */
+export async function activatePlan(
+  userId: string,
+  planId: Plan['id'],
+  cycle: BillingCycle,
+  subscriptionId: string
+): Promise<ActivePlan> {
+  const idToken = await getIdTokenFor(userId);
+  return activateSubscriptionPlan(idToken!, planId, cycle, subscriptionId);
+}
+
+export async function getActivePlan(userId: string | null): Promise<ActivePlan | null> {
+  if (!userId) return null;
+  const idToken = await getIdTokenFor(userId);
+  return getActivePlanForUser(idToken!);
+}
+
+/**
+ * Formats milliseconds into a human-readable string (e.g., "1 hour, 30 minutes").
+ */
+export function formatTime(milliseconds: number): string {
+  if (milliseconds <= 0) return "a moment";
+
+  let totalSeconds = Math.ceil(milliseconds / 1000);
+  let hours = Math.floor(totalSeconds / 3600);
+  totalSeconds %= 3600;
+  let minutes = Math.floor(totalSeconds / 60);
+  let seconds = totalSeconds % 60;
+
+  const parts: string[] = [];
+  if (hours > 0) parts.push(`${hours} hour${hours > 1 ? 's' : ''}`);
+  if (minutes > 0) parts.push(`${minutes} minute${minutes > 1 ? 's' : ''}`);
+  if (seconds > 0 && hours === 0 && minutes < 5) parts.push(`${seconds} second${seconds > 1 ? 's' : ''}`);
+  if (parts.length === 0) return "less than a minute";
+
+  return parts.join(', ');
+}
@@ -0,0 +1,558 @@
+import type { ExcelSheet } from '@/lib/excel-export';
+import type { DocumentValidationResult, FormattedDocument } from '@/lib/document-types';
+import type { StructuringProgress } from '@/lib/chunked-structuring';
+import type { StatementLocaleHints } from '@/lib/statement-normalization';
+import type { TextExtractionMode } from '@/lib/pdf-utils';
+import type { ExtractionTemplate } from '@/lib/extraction-templates';
+import type { OcrPageResult } from '@/lib/ocr-scheduler';
+import type { LayoutPage } from '@/lib/pdf-layout';
+import type { OcrComparison, OcrProviderId } from '@/lib/ocr-providers';
+import type { DocumentClassification } from '@/ai/flows/classify-document-flow';
+import { MIN_CLASSIFICATION_CONFIDENCE, type DocumentChoice } from '@/config/document-types';
+import { callServer } from '@/lib/server-calls';
+import { getConversionGrantCredentials, type ConversionGrant } from '@/lib/conversion-limits';
+import { ProcessingCancelledError } from '@/types/errors';
+
+// Rule-based statement extraction below this confidence falls back to AI structuring
+const RULE_BASED_MIN_CONFIDENCE = 0.9;
+// A matching saved template is trusted more: its result is kept unless most of it fails the balance check,
+// and the validation findings point out any rows that do not add up
+const TEMPLATE_MIN_CONFIDENCE = 0.5;
+
+// Privacy mode cannot hand a document to the AI, so what it cannot read locally fails with this
+const PRIVACY_MODE_AI_REQUIRED = "Privacy mode reads bank statements on your device only, and this document could not be read that way. " +
+  "Turn off privacy mode to convert it with AI, which uploads it to our server.";
+
+// 'auto' classifies the document first and only asks the user when the classifier is unsure
+export type ExtractionMode = 'auto' | DocumentChoice;
+
+// Stages reported while a PDF is converted; callers map them to their own status display
+export type ConversionStage = 'extracting' | 'ocr' | 'structuring';
+
+export interface ConversionResult {
+  data: Array<Array<string | number | null>> | null;
+  sheets: ExcelSheet[] | null; // Set for generic tables (one per table) and multi-currency statements (one per sub-account)
+  validation: DocumentValidationResult | null;
+  classification: DocumentClassification | null;
+  templateName?: string; // Set when the statement was read with a saved extraction template
+  ocr?: OcrSummary; // Set when some or all of the text came from OCR
+}
+
+// Where the text of a page came from: the PDF's text layer, or OCR of the rendered page
+export type PageTextSource = 'text' | 'ocr';
+
+export interface DocumentPage extends OcrPageResult {
+  source: PageTextSource;
+}
+
+// The text of each page of a (partly) scanned document, and the document type it was structured as
+export interface OcrSummary {
+  pages: DocumentPage[]; // Every converted page in page order; pages OCR could not read have null text
+  documentChoice: DocumentChoice;
+}
+
+// How the page markers in the text of mixed documents name each source
+const PAGE_SOURCE_LABELS: Record<PageTextSource, string> = { text: 'text layer', ocr: 'OCR' };
+
+export interface ConversionPipelineOptions {
+  extractionMode: ExtractionMode;
+  textExtractionMode?: TextExtractionMode; // Defaults to 'layout', which keeps table columns apart for the AI
+  templates?: ExtractionTemplate[]; // The user's saved templates, tried before the AI for matching statements
+  pageNumbers?: number[]; // The 1-based pages to convert, chosen before the conversion; all pages when omitted
+  password?: string; // The password entered while choosing pages, tried before asking again
+  ocrConcurrency?: number; // Pages read with OCR at the same time; defaults to the OCR provider's own
+  /**
+   * Keeps the document on the device: scanned pages are read with on-device OCR and statements from their
+   * layout; documents that would need the AI fail with an explanation instead of being uploaded.
+   */
+  privacyMode?: boolean;
+  ocrLanguages?: string[]; // Language packs for on-device OCR; defaults to DEFAULT_OCR_LANGUAGES
+  conversionGrant: ConversionGrant; // Issued by reserveConversion; the AI server actions only run for a paid conversion
+  signal: AbortSignal;
+  onStage?: (stage: ConversionStage, message: string) => void;
+  onStructuringProgress?: (progress: StructuringProgress | null) => void;
+  onClassification?: (classification: DocumentClassification) => void;
+  /** Asks the user for the document type when the classifier is unsure; resolves null if they cancel. */
+  requestDocumentChoice: (classification: DocumentClassification, signal: AbortSignal) => Promise<DocumentChoice | null>;
+  /**
+   * Asks the user for the password of an encrypted PDF (again, when `incorrect`); resolves null if they cancel.
+   * The password is only used to open the file in the browser and is dropped when the conversion ends.
+   */
+  requestPassword: (fileName: string, incorrect: boolean, signal: AbortSignal) => Promise<string | null>;
+}
+
+// A new conversion has no grant yet: it is reserved once the pages to convert are known
+export type NewConversionOptions = Omit<ConversionPipelineOptions, 'conversionGrant'> & {
+  /**
+   * Charges the conversion for `pageCount` pages, after their text is extracted on the device and before
+   * anything is sent to the server; resolves the grant the AI steps run with. Throws when the quota is used up.
+   */
+  reserveConversion: (pageCount: number) => Promise<ConversionGrant>;
+};
+
+function localeHints(classification: DocumentClassification | null): StatementLocaleHints {
+  return { language: classification?.language, currency: classification?.currency };
+}
+
+function throwIfAborted(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new ProcessingCancelledError();
+  }
+}
+
+// Statements with several currency sub-accounts become one statement sheet per currency;
+// corrections made by the normalization step are reported with the validation findings
+function toConversionResult(
+  formatted: FormattedDocument,
+  classification: DocumentClassification | null,
+  corrections: string[] = []
+): ConversionResult {
+  const { data, subAccounts } = formatted;
+  const validation = corrections.length > 0 ? { ...formatted.validation, corrections } : formatted.validation;
+  if (!subAccounts) {
+    return { data, sheets: null, validation, classification };
+  }
+  const sheets: ExcelSheet[] = subAccounts.map(account => ({
+    name: `${account.currency} Account`,
+    data: account.data,
+    kind: 'statement',
+    currency: account.currency,
+  }));
+  return { data: null, sheets, validation, classification };
+}
+
+/**
+ * Renders the pages in a Web Worker and reads them with OCR, several at a time: on the device in privacy mode,
+ * with the AI otherwise. Rendering waits for a free OCR slot, so only a small window of page images is in memory.
+ * Pages that cannot be read are returned with null text rather than failing the document.
+ */
+async function scanPages(
+  pdfBuffer: ArrayBuffer,
+  password: string | undefined,
+  pageNumbers: number[] | undefined,
+  options: Pick<ConversionPipelineOptions, 'signal' | 'onStage' | 'ocrConcurrency' | 'privacyMode' | 'ocrLanguages' | 'conversionGrant'>
+): Promise<OcrPageResult[]> {
+  const { signal } = options;
+  const [
+    { convertPdfPagesToImageUrisInWorker },
+    { createOcrProvider },
+    { createOcrScheduler }
+  ] = await Promise.all([
+    import('@/lib/pdf-worker-client'),
+    import('@/lib/ocr-providers'),
+    import('@/lib/ocr-scheduler')
+  ]);
+
+  if (options.privacyMode) options.onStage?.('ocr', "Loading on-device OCR...");
+  const provider = await createOcrProvider(options.privacyMode ? 'tesseract' : 'ai', {
+    languages: options.ocrLanguages,
+    concurrency: options.ocrConcurrency,
+    conversionGrant: options.conversionGrant,
+  });
+  try {
+    let pagesToScan = pageNumbers?.length ?? 0;
+    const scheduler = createOcrScheduler(
+      async imageUri => {
+        // Check for cancellation before calling server action
+        throwIfAborted(signal);
+        return provider.recognize(imageUri);
+      },
+      {
+        concurrency: provider.concurrency,
+        signal,
+        onPageDone: (_result, completed) => options.onStage?.('ocr', `Scanned ${completed} of ${pagesToScan} pages...`),
+      }
+    );
+    await convertPdfPagesToImageUrisInWorker(
+      pdfBuffer,
+      async (imageUri, pageNum, totalPages) => {
+        if (!pageNumbers) pagesToScan = totalPages;
+        await scheduler.schedule(pageNum, imageUri);
+      },
+      signal,
+      password,
+      { pageNumbers, scale: provider.renderScale }
+    );
+    return await scheduler.finish();
+  } finally {
+    await provider.dispose();
+  }
+}
+
+/**
+ * Reads a bank statement from page layouts without AI: with the user's matching saved template, else with
+ * the rule-based reader. Returns null when neither result is trusted. In privacy mode any statement with
+ * transactions is kept, since there is no AI to fall back to; its validation findings show what does not add up.
+ */
+async function readStatementFromLayouts(
+  layoutPages: LayoutPage[],
+  options: Pick<ConversionPipelineOptions, 'templates' | 'privacyMode' | 'onStage'>
+): Promise<ConversionResult | null> {
+  const reportStage = (stage: ConversionStage, message: string) => options.onStage?.(stage, message);
+  const [
+    { extractStatementFromLayout },
+    { findMatchingTemplate },
+    { formatStructuredDocumentForExcel }
+  ] = await Promise.all([
+    import('@/lib/rule-based-extraction'),
+    import('@/lib/extraction-templates'),
+    import('@/lib/document-types')
+  ]);
+
+  const template = findMatchingTemplate(options.templates ?? [], layoutPages);
+  if (template) {
+    reportStage('structuring', `Reading statement with your "${template.name}" template...`);
+    const templated = extractStatementFromLayout(layoutPages, {}, template);
+    if (templated.confidence >= TEMPLATE_MIN_CONFIDENCE) {
+      reportStage('structuring', "Preparing Excel data...");
+      const data = { ...templated.data, header: { ...templated.data.header, bankName: template.bankName } };
+      return {
+        ...toConversionResult(formatStructuredDocumentForExcel({ documentType: 'bankStatement', data }), null),
+        templateName: template.name,
+      };
+    }
+    console.info(`Template "${template.name}" did not fit this file (${templated.confidence.toFixed(2)}):`, templated.reasons);
+  }
+
+  reportStage('structuring', "Reading statement table...");
+  const ruleBased = extractStatementFromLayout(layoutPages);
+  const hasTransactions = ruleBased.data.transactions.length > 0;
+  if (ruleBased.confidence >= RULE_BASED_MIN_CONFIDENCE || (options.privacyMode && hasTransactions)) {
+    reportStage('structuring', "Preparing Excel data...");
+    return toConversionResult(
+      formatStructuredDocumentForExcel({ documentType: 'bankStatement', data: ruleBased.data }),
+      null
+    );
+  }
+  if (hasTransactions) {
+    console.info(`Rule-based extraction not confident (${ruleBased.confidence.toFixed(2)}), using AI:`, ruleBased.reasons);
+  }
+  return null;
+}
+
+/**
+ * The statement in the layouts of the pages, when every page that was read has one: text-layer pages read in
+ * layout mode and pages read with on-device OCR do, pages read with the AI OCR do not and go to the AI instead.
+ */
+async function readStatementFromPages(
+  pages: DocumentPage[],
+  options: Pick<ConversionPipelineOptions, 'templates' | 'privacyMode' | 'onStage'>
+): Promise<ConversionResult | null> {
+  if (pages.some(page => page.text !== null && !page.layout)) return null;
+  const layoutPages = pages.flatMap(page => (page.layout ? [page.layout] : []));
+  return layoutPages.length > 0 ? readStatementFromLayouts(layoutPages, options) : null;
+}
+
+/**
+ * The page texts, in page order, to structure with AI. When text-layer and OCR pages are mixed, each page
+ * starts with a marker giving its number and source; pages OCR could not read are left out.
+ */
+function pageTextsForStructuring(pages: DocumentPage[]): string[] {
+  const isMixed = new Set(pages.map(page => page.source)).size > 1;
+  return pages.flatMap(page => {
+    if (page.text === null) return [];
+    return isMixed ? [`[Page ${page.pageNum}, ${PAGE_SOURCE_LABELS[page.source]}]\n${page.text}`] : [page.text];
+  });
+}
+
+/**
+ * Identifies the document type of the extracted text (in 'auto' mode) and structures it with AI.
+ */
+async function structurePageTexts(
+  pageTexts: string[],
+  extractionMode: ExtractionMode,
+  options: Omit<ConversionPipelineOptions, 'extractionMode'>
+): Promise<{ result: ConversionResult; documentChoice: DocumentChoice }> {
+  const { signal, requestDocumentChoice, conversionGrant } = options;
+  const reportStage = (stage: ConversionStage, message: string) => options.onStage?.(stage, message);
+  const [
+    { formatExtractedTablesForExcel },
+    { formatStructuredDocumentForExcel },
+    { structureDocument: structureDocumentAI },
+    { structurePdfData: structurePdfDataAI },
+    { extractTables: extractTablesAI },
+    { classifyDocument: classifyDocumentAI },
+    { structureInPageWindows, PAGE_WINDOW_SIZE },
+    { normalizeStatementData }
+  ] = await Promise.all([
+    import('@/lib/pdf-utils'),
+    import('@/lib/document-types'),
+    import('@/ai/flows/structure-document-flow'),
+    import('@/ai/flows/structure-pdf-data-flow'),
+    import('@/ai/flows/extract-tables-flow'),
+    import('@/ai/flows/classify-document-flow'),
+    import('@/lib/chunked-structuring'),
+    import('@/lib/statement-normalization')
+  ]);
+
+  let rawTextOutput = pageTexts.join('\n\n').trim();
+  throwIfAborted(signal);
+
+  let classification: DocumentClassification | null = null;
+  let documentChoice: DocumentChoice;
+  if (extractionMode === 'auto') {
+    reportStage('structuring', "Identifying document type...");
+    classification = await callServer("Identifying the document type", async () => classifyDocumentAI({ rawText: rawTextOutput }, await getConversionGrantCredentials(conversionGrant)));
+    options.onClassification?.(classification);
+
+    if (classification.documentType !== 'other' && classification.confidence >= MIN_CLASSIFICATION_CONFIDENCE) {
+      documentChoice = classification.documentType;
+    } else {
+      reportStage('structuring', "Waiting for you to choose the document type...");
+      const userChoice = await requestDocumentChoice(classification, signal);
+      if (!userChoice) {
+        throw new ProcessingCancelledError();
+      }
+      throwIfAborted(signal);
+      documentChoice = userChoice;
+    }
+  } else {
+    documentChoice = extractionMode;
+  }
+
+  reportStage('structuring', documentChoice === 'genericTables' ? "Finding tables with AI..." : "Structuring data with AI...");
+  // Check for cancellation before calling server action (AbortSignal cannot be passed to server actions)
+  throwIfAborted(signal);
+
+  if (documentChoice === 'genericTables') {
+    const extractedTablesResult = await callServer("Finding tables", async () => extractTablesAI({ rawText: rawTextOutput }, await getConversionGrantCredentials(conversionGrant)));
+    rawTextOutput = '';
+    reportStage('structuring', "Preparing Excel data...");
+    return {
+      result: { data: null, sheets: formatExtractedTablesForExcel(extractedTablesResult), validation: null, classification },
+      documentChoice,
+    };
+  }
+
+  if (documentChoice === 'bankStatement' && pageTexts.length > PAGE_WINDOW_SIZE) {
+    reportStage('structuring', "Structuring long statement with AI, a few pages at a time...");
+    const structureWindow = (input: Parameters<typeof structurePdfDataAI>[0]) =>
+      callServer("Structuring the statement", async () => structurePdfDataAI(input, await getConversionGrantCredentials(conversionGrant)));
+    const structuredData = await structureInPageWindows(pageTexts, structureWindow, {
+      signal,
+      onProgress: options.onStructuringProgress,
+    });
+    options.onStructuringProgress?.(null);
+    reportStage('structuring', "Checking numbers and dates...");
+    const normalized = normalizeStatementData(structuredData, rawTextOutput, localeHints(classification));
+    pageTexts = [];
+    rawTextOutput = '';
+    reportStage('structuring', "Preparing Excel data...");
+    const result = toConversionResult(
+      formatStructuredDocumentForExcel({ documentType: 'bankStatement', data: normalized.data }),
+      classification,
+      normalized.corrections
+    );
+    return { result, documentChoice };
+  }
+
+  let structuredDocument = await callServer(
+    "Structuring the document",
+    async () => structureDocumentAI({ rawText: rawTextOutput, documentType: documentChoice }, await getConversionGrantCredentials(conversionGrant))
+  );
+  let corrections: string[] = [];
+  if (structuredDocument.documentType === 'bankStatement') {
+    reportStage('structuring', "Checking numbers and dates...");
+    const normalized = normalizeStatementData(structuredDocument.data, rawTextOutput, localeHints(classification));
+    structuredDocument = { documentType: 'bankStatement', data: normalized.data };
+    corrections = normalized.corrections;
+  }
+  // Clear raw text output to free memory (no longer needed after structuring)
+  pageTexts = [];
+  rawTextOutput = '';
+  reportStage('structuring', "Preparing Excel data...");
+  return { result: toConversionResult(formatStructuredDocumentForExcel(structuredDocument), classification, corrections), documentChoice };
+}
+
+/**
+ * Converts one PDF into Excel-ready data: extracts text page by page, scanning the pages without usable text with OCR,
+ * reads statements with a matching saved template or straight from their layout, and otherwise identifies the document type
+ * and structures it with AI. In privacy mode nothing is uploaded: only statements that can be read on the
+ * device are converted. Throws ProcessingCancelledError when aborted.
+ * The conversion is reserved once the number of pages is known; its grant lets the AI steps run.
+ */
+export async function convertPdfDocument(file: File, options: NewConversionOptions): Promise<ConversionResult> {
+  const { extractionMode, signal, requestDocumentChoice, requestPassword } = options;
+  const reportStage = (stage: ConversionStage, message: string) => options.onStage?.(stage, message);
+
+  let fileBuffer: ArrayBuffer | null = await file.arrayBuffer();
+  try {
+    throwIfAborted(signal);
+    reportStage('extracting', "Loading processing modules...");
+
+    // Dynamically import heavy dependencies to reduce initial bundle size
+    const [
+      { withPdfPassword },
+      { readPdfPagesInWorker },
+      { hasUsableText }
+    ] = await Promise.all([
+      import('@/lib/pdf-utils'),
+      import('@/lib/pdf-worker-client'),
+      import('@/lib/page-text-quality')
+    ]);
+
+    const readsStatement = extractionMode === 'auto' || extractionMode === 'bankStatement';
+    if (options.privacyMode && !readsStatement) {
+      throw new Error(PRIVACY_MODE_AI_REQUIRED);
+    }
+
+    reportStage('extracting', "Extracting text from PDF...");
+    // Privacy mode reads statements from their layout, as nothing else can structure them on the device
+    const textExtractionMode = options.privacyMode ? 'layout' : options.textExtractionMode ?? 'layout';
+    const buffer = fileBuffer;
+    // Text is extracted in a Web Worker, reporting each page as it is read
+    const onPageRead = (pageNum: number, totalPages: number) =>
+      reportStage('extracting', `Extracting text from page ${pageNum} of ${totalPages}...`);
+    // Encrypted PDFs are retried with the password the user enters; it is reused for OCR below.
+    // Each attempt gets a clone of the buffer, which is transferred to the worker.
+    const { result: contents, password } = await withPdfPassword(
+      candidate => readPdfPagesInWorker(buffer.slice(0), signal, textExtractionMode, candidate, options.pageNumbers, onPageRead),
+      async incorrect => {
+        reportStage('extracting', "Waiting for the PDF password...");
+        const entered = await requestPassword(file.name, incorrect, signal);
+        reportStage('extracting', "Extracting text from PDF...");
+        return entered;
+      },
+      signal,
+      options.password
+    );
+    const grantedOptions: ConversionPipelineOptions = { ...options, conversionGrant: await options.reserveConversion(contents.length) };
+    throwIfAborted(signal);
+
+    // The layout is kept for rule-based extraction; the AI gets its grid-like text
+    let pages: DocumentPage[] = contents.map(({ pageNum, text, layout }) =>
+      (layout ? { pageNum, text, layout, source: 'text' } : { pageNum, text, source: 'text' }));
+
+    // The decision is made per page, so the scanned pages of a mixed file are read with OCR and the others keep their text
+    const scanPageNumbers = contents.filter(page => !hasUsableText(page.stats)).map(page => page.pageNum);
+    if (scanPageNumbers.length > 0) {
+      if (scanPageNumbers.length === contents.length) {
+        reportStage('ocr', options.privacyMode
+          ? "PDF has no text, scanning pages on your device..."
+          : "PDF has no text, using OCR to scan pages...");
+      } else {
+        reportStage('ocr', `${scanPageNumbers.length} of ${contents.length} pages have no text, scanning them...`);
+      }
+      const scanned = new Map((await scanPages(fileBuffer.slice(0), password, scanPageNumbers, grantedOptions))
+        .map(page => [page.pageNum, page]));
+      pages = pages.map(page => {
+        const ocrPage = scanned.get(page.pageNum);
+        return ocrPage ? { ...ocrPage, source: 'ocr' } : page;
+      });
+    }
+    fileBuffer = null;
+    // Pages OCR could not read are kept with the result, so they can be scanned again one at a time
+    const withOcrSummary = (result: ConversionResult, documentChoice: DocumentChoice): ConversionResult =>
+      (scanPageNumbers.length > 0 ? { ...result, ocr: { pages, documentChoice } } : result);
+
+    if (readsStatement) {
+      const statement = await readStatementFromPages(pages, options);
+      if (statement) return withOcrSummary(statement, 'bankStatement');
+    }
+    if (options.privacyMode) throw new Error(PRIVACY_MODE_AI_REQUIRED);
+
+    // Text per page is kept so long statements can be structured in page windows
+    const pageTexts = pageTextsForStructuring(pages);
+    if (!pageTexts.join('').trim()) {
+      throw new Error(scanPageNumbers.length > 0 ? "OCR failed to extract any text from the document." : "The PDF has no text to convert.");
+    }
+    const { result, documentChoice } = await structurePageTexts(pageTexts, extractionMode, grantedOptions);
+    return withOcrSummary(result, documentChoice);
+  } finally {
+    // Clear file buffer reference to help with garbage collection
+    fileBuffer = null;
+  }
+}
+
+/**
+ * Scans one page of an OCR'd document again, typically one OCR could not read, and structures the document
+ * anew as the same document type. Throws when the page still cannot be read.
+ * The retry completes a conversion that was already counted, and runs with that conversion's grant.
+ */
+export async function retryOcrPage(
+  file: File,
+  ocr: OcrSummary,
+  pageNum: number,
+  options: Omit<ConversionPipelineOptions, 'extractionMode' | 'pageNumbers'>
+): Promise<ConversionResult> {
+  const { signal, requestPassword } = options;
+  const { withPdfPassword } = await import('@/lib/pdf-utils');
+  const buffer = await file.arrayBuffer();
+  throwIfAborted(signal);
+
+  options.onStage?.('ocr', `Scanning page ${pageNum} again...`);
+  // Each attempt gets a clone of the buffer, which is transferred to the rendering worker
+  const { result: [page] } = await withPdfPassword(
+    candidate => scanPages(buffer.slice(0), candidate, [pageNum], options),
+    incorrect => requestPassword(file.name, incorrect, signal),
+    signal,
+    options.password
+  );
+  if (!page || page.text === null) {
+    throw new Error(`Page ${pageNum} could not be read${page?.error ? `: ${page.error}` : '.'}`);
+  }
+
+  const pages = ocr.pages.map((existing): DocumentPage => (existing.pageNum === pageNum ? { ...page, source: 'ocr' } : existing));
+  if (options.privacyMode) {
+    const statement = await readStatementFromPages(pages, options);
+    if (!statement) throw new Error(PRIVACY_MODE_AI_REQUIRED);
+    return { ...statement, ocr: { pages, documentChoice: 'bankStatement' } };
+  }
+  const { result } = await structurePageTexts(pageTextsForStructuring(pages), ocr.documentChoice, options);
+  return { ...result, ocr: { pages, documentChoice: ocr.documentChoice } };
+}
+
+/**
+ * Reads one page with the AI and with on-device OCR, so their output can be compared before choosing
+ * privacy mode. The page is uploaded for the AI reading; callers should not offer this in privacy mode.
+ */
+export async function compareOcrOnPage(
+  file: File,
+  pageNum: number,
+  options: Pick<ConversionPipelineOptions, 'password' | 'ocrLanguages' | 'conversionGrant' | 'signal' | 'requestPassword'>,
+  providerIds: OcrProviderId[] = ['ai', 'tesseract']
+): Promise<OcrComparison> {
+  const { signal, requestPassword } = options;
+  const [
+    { withPdfPassword },
+    { convertPdfPagesToImageUrisInWorker },
+    { createOcrProvider, compareOcrProviders }
+  ] = await Promise.all([
+    import('@/lib/pdf-utils'),
+    import('@/lib/pdf-worker-client'),
+    import('@/lib/ocr-providers')
+  ]);
+  const buffer = await file.arrayBuffer();
+  let password = options.password;
+  // Each rendering gets a clone of the buffer, which is transferred to the rendering worker
+  const renderPage = async (scale: number): Promise<string> => {
+    const { result, password: entered } = await withPdfPassword(async candidate => {
+      let imageUri = '';
+      await convertPdfPagesToImageUrisInWorker(
+        buffer.slice(0),
+        async rendered => { imageUri = rendered; },
+        signal,
+        candidate,
+        { pageNumbers: [pageNum], scale }
+      );
+      return imageUri;
+    }, incorrect => requestPassword(file.name, incorrect, signal), signal, password);
+    password = entered;
+    throwIfAborted(signal);
+    return result;
+  };
+
+  const providers = [];
+  try {
+    for (const id of providerIds) {
+      providers.push(await createOcrProvider(id, {
+        languages: options.ocrLanguages,
+        concurrency: 1,
+        conversionGrant: options.conversionGrant,
+      }));
+    }
+    return await compareOcrProviders(renderPage, providers);
+  } finally {
+    await Promise.all(providers.map(provider => provider.dispose()));
+  }
+}
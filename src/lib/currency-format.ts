@@ -0,0 +1,51 @@
+/**
+ * Currency display for the preview and Excel number formats. Currencies are ISO 4217 codes;
+ * unknown or missing codes fall back to plain two-decimal numbers.
+ */
+
+type Grid = Array<Array<string | number | null>>;
+
+// Labels of header/footer rows (and column headers) whose values are amounts of money
+const MONEY_LABEL_PATTERN = /balance|total|amount|due|tax|paid|net|gross|fee|price|charge|payment|subtotal|debit|credit|deposit|withdrawal/i;
+
+function currencyFormatter(currency: string): Intl.NumberFormat | null {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, currencyDisplay: 'narrowSymbol' });
+  } catch {
+    // Unknown currency code
+    return null;
+  }
+}
+
+export function isMoneyLabel(label: string | number | null | undefined): boolean {
+  return MONEY_LABEL_PATTERN.test(String(label ?? ''));
+}
+
+/**
+ * Reads the currency from a grid's "Currency:" row, as written for statements, invoices and receipts.
+ */
+export function labelledCurrency(grid: Grid): string | undefined {
+  const row = grid.find(cells => String(cells[0] ?? '').trim().toLowerCase() === 'currency:');
+  const value = String(row?.[1] ?? '').trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(value) ? value : undefined;
+}
+
+/**
+ * Excel number format for amounts: the currency symbol and its usual number of decimals.
+ */
+export function currencyNumberFormat(currency?: string): string {
+  const formatter = currency ? currencyFormatter(currency) : null;
+  if (!formatter) return '#,##0.00';
+  const symbol = formatter.formatToParts(1).find(part => part.type === 'currency')?.value.replace(/"/g, '') ?? currency;
+  const decimals = formatter.resolvedOptions().maximumFractionDigits ?? 2;
+  const number = decimals > 0 ? `#,##0.${'0'.repeat(decimals)}` : '#,##0';
+  return `"${symbol}"${number};-"${symbol}"${number}`;
+}
+
+/**
+ * Formats an amount for display, e.g. "€1,234.50" or "¥1,235".
+ */
+export function formatAmount(value: number, currency?: string): string {
+  const formatter = currency ? currencyFormatter(currency) : null;
+  return formatter ? formatter.format(value) : value.toFixed(2);
+}
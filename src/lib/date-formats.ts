@@ -0,0 +1,42 @@
+/**
+ * Date layouts offered for exported files. Extracted dates are stored as ISO strings (YYYY-MM-DD).
+ */
+
+import type { ExportDateFormat } from '@/types/site-settings';
+
+export type { ExportDateFormat } from '@/types/site-settings';
+
+export const EXPORT_DATE_FORMATS: ExportDateFormat[] = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY'];
+
+/**
+ * Formats an ISO date (YYYY-MM-DD) in the requested layout; anything else is returned unchanged.
+ */
+export function formatExportDate(value: string, dateFormat: ExportDateFormat): string {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return value;
+  const [, year, month, day] = match;
+  switch (dateFormat) {
+    case 'DD/MM/YYYY': return `${day}/${month}/${year}`;
+    case 'MM/DD/YYYY': return `${month}/${day}/${year}`;
+    case 'DD.MM.YYYY': return `${day}.${month}.${year}`;
+    default: return value;
+  }
+}
+
+// Excel stores dates as days since 1899-12-30 (which absorbs its 1900 leap-year bug for modern dates)
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Converts an ISO date (YYYY-MM-DD) to an Excel date serial number, or null for anything else.
+ * Worked out in UTC so the result never shifts by a day with the user's time zone.
+ */
+export function toExcelDateSerial(value: string): number | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const time = Date.UTC(year, month - 1, day);
+  const date = new Date(time);
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return time / MS_PER_DAY + EXCEL_EPOCH_OFFSET_DAYS;
+}
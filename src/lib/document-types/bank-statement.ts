@@ -0,0 +1,28 @@
+import type { StructuredPdfDataOutput } from '@/ai/flows/structure-pdf-data-flow';
+import { formatStructuredDataForExcel, splitCurrencySubAccounts, validateTransactionData } from '@/lib/pdf-utils';
+import { buildValidationResult, type DocumentTypeHandler } from './shared';
+
+export const bankStatementHandler: DocumentTypeHandler<StructuredPdfDataOutput> = {
+  formatForExcel: (data) => formatStructuredDataForExcel(data).data,
+  formatSubAccounts(data) {
+    const accounts = splitCurrencySubAccounts(data);
+    if (accounts.length < 2) return null;
+    return accounts.map(account => ({ currency: account.header!.currency!, data: formatStructuredDataForExcel(account).data }));
+  },
+  validate(data) {
+    const accounts = splitCurrencySubAccounts(data);
+    if (accounts.length < 2) {
+      return validateTransactionData(data.transactions, data.footer, data.header?.openingBalance);
+    }
+    // Balances and totals only add up within each currency sub-account
+    const issues: string[] = [];
+    const accuracyWarnings: string[] = [];
+    for (const account of accounts) {
+      const result = validateTransactionData(account.transactions, account.footer, account.header?.openingBalance);
+      const prefix = `${account.header!.currency} account: `;
+      issues.push(...result.issues.map(issue => prefix + issue));
+      accuracyWarnings.push(...result.accuracyWarnings.map(warning => prefix + warning));
+    }
+    return buildValidationResult(issues, accuracyWarnings);
+  },
+};
@@ -0,0 +1,63 @@
+import type { CreditCardStatementData } from '@/ai/document-types';
+import { buildValidationResult, checkAmount, pushLabeledRows, sumAmounts, type DocumentTypeHandler, type ExcelRow } from './shared';
+
+export const creditCardStatementHandler: DocumentTypeHandler<CreditCardStatementData> = {
+  formatForExcel(data) {
+    const rows: ExcelRow[] = [];
+    pushLabeledRows(rows, [
+      ['Card Issuer:', data.issuer],
+      ['Cardholder:', data.cardholderName],
+      ['Card Number:', data.cardNumberLast4 ? `**** ${data.cardNumberLast4}` : undefined],
+      ['Statement Period:', data.statementPeriod],
+      ['Currency:', data.currency],
+      ['Credit Limit:', data.creditLimit],
+      ['Previous Balance:', data.previousBalance],
+      ['Payment Due Date:', data.paymentDueDate],
+      ['Minimum Payment:', data.minimumPayment],
+    ]);
+    if (rows.length > 0) rows.push([]);
+
+    rows.push(['Date', 'Posting Date', 'Description', 'Charges', 'Credits']);
+    for (const t of data.transactions || []) {
+      rows.push([t.date, t.postingDate ?? '', t.description, t.charge ?? null, t.credit ?? null]);
+    }
+
+    rows.push([]);
+    pushLabeledRows(rows, [
+      ['Total Charges:', data.totalCharges],
+      ['Total Credits:', data.totalCredits],
+      ['Interest Charged:', data.interestCharged],
+      ['Fees Charged:', data.feesCharged],
+      ['New Balance:', data.newBalance],
+    ]);
+    return rows;
+  },
+
+  validate(data) {
+    const issues: string[] = [];
+    const accuracyWarnings: string[] = [];
+    const transactions = data.transactions || [];
+
+    if (transactions.length === 0) issues.push("No transactions found");
+    if (!data.paymentDueDate) issues.push("Missing payment due date");
+    if (data.minimumPayment === undefined) issues.push("Missing minimum payment");
+
+    transactions.forEach((t, index) => {
+      if (!t.date) issues.push(`Transaction ${index + 1}: Missing date`);
+    });
+
+    const charges = sumAmounts(transactions.map(t => t.charge));
+    const credits = sumAmounts(transactions.map(t => t.credit));
+    checkAmount(accuracyWarnings, 'Total charges', charges, data.totalCharges);
+    checkAmount(accuracyWarnings, 'Total credits', credits, data.totalCredits);
+
+    if (data.previousBalance !== undefined) {
+      checkAmount(accuracyWarnings, 'New balance', data.previousBalance + charges - credits, data.newBalance);
+    }
+    if (data.minimumPayment !== undefined && data.newBalance !== undefined && data.minimumPayment > data.newBalance) {
+      accuracyWarnings.push(`Minimum payment ${data.minimumPayment.toFixed(2)} is higher than the new balance ${data.newBalance.toFixed(2)}`);
+    }
+
+    return buildValidationResult(issues, accuracyWarnings);
+  },
+};
@@ -0,0 +1,49 @@
+import type { DocumentTypeId } from '@/config/document-types';
+import type { StructuredDocumentDataMap } from '@/ai/document-types';
+import { bankStatementHandler } from './bank-statement';
+import { creditCardStatementHandler } from './credit-card-statement';
+import { invoiceHandler } from './invoice';
+import { receiptHandler } from './receipt';
+import { payslipHandler } from './payslip';
+import type { DocumentTypeHandler, DocumentValidationResult, FormattedDocument } from './shared';
+
+export type { DocumentTypeHandler, DocumentValidationResult, ExcelRow, FormattedDocument, SubAccountGrid } from './shared';
+
+/**
+ * Excel layout and validation rules for every document type, keyed by document type ID.
+ */
+export const DOCUMENT_TYPE_HANDLERS: { [K in DocumentTypeId]: DocumentTypeHandler<StructuredDocumentDataMap[K]> } = {
+  bankStatement: bankStatementHandler,
+  creditCardStatement: creditCardStatementHandler,
+  invoice: invoiceHandler,
+  receipt: receiptHandler,
+  payslip: payslipHandler,
+};
+
+// A structured document of type K; for a union K, the document of any of those types
+type StructuredDocumentOf<K extends DocumentTypeId> = {
+  [P in K]: { documentType: P; data: StructuredDocumentDataMap[P] };
+}[K];
+
+function getHandler<K extends DocumentTypeId>(documentType: K): DocumentTypeHandler<StructuredDocumentDataMap[K]> {
+  return DOCUMENT_TYPE_HANDLERS[documentType];
+}
+
+// Generic over the document type, so each handler only ever receives the data of its own type
+export function validateStructuredDocument<K extends DocumentTypeId>(document: StructuredDocumentOf<K>): DocumentValidationResult {
+  return getHandler<K>(document.documentType).validate(document.data);
+}
+
+/**
+ * Formats a structured document for Excel export using its document type's layout,
+ * together with the validation findings for the user to review.
+ */
+export function formatStructuredDocumentForExcel<K extends DocumentTypeId>(document: StructuredDocumentOf<K>): FormattedDocument {
+  const handler = getHandler<K>(document.documentType);
+  const subAccounts = handler.formatSubAccounts?.(document.data);
+  return {
+    data: handler.formatForExcel(document.data),
+    validation: validateStructuredDocument(document),
+    ...(subAccounts ? { subAccounts } : {}),
+  };
+}
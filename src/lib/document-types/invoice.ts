@@ -0,0 +1,55 @@
+import type { InvoiceData } from '@/ai/document-types';
+import { buildValidationResult, checkAmount, pushLabeledRows, sumAmounts, type DocumentTypeHandler, type ExcelRow } from './shared';
+
+export const invoiceHandler: DocumentTypeHandler<InvoiceData> = {
+  formatForExcel(data) {
+    const rows: ExcelRow[] = [];
+    pushLabeledRows(rows, [
+      ['Invoice Number:', data.invoiceNumber],
+      ['Issue Date:', data.issueDate],
+      ['Due Date:', data.dueDate],
+      ['Seller:', data.sellerName],
+      ['Seller Tax ID:', data.sellerTaxId],
+      ['Buyer:', data.buyerName],
+      ['Currency:', data.currency],
+    ]);
+    if (rows.length > 0) rows.push([]);
+
+    rows.push(['Description', 'Quantity', 'Unit Price', 'Tax Rate (%)', 'Amount']);
+    for (const item of data.lineItems || []) {
+      rows.push([item.description, item.quantity ?? null, item.unitPrice ?? null, item.taxRate ?? null, item.amount]);
+    }
+
+    rows.push([]);
+    pushLabeledRows(rows, [
+      ['Subtotal:', data.subtotal],
+      ['Discount:', data.discount],
+      ['Tax:', data.taxTotal],
+      ['Total:', data.total],
+    ]);
+    return rows;
+  },
+
+  validate(data) {
+    const issues: string[] = [];
+    const accuracyWarnings: string[] = [];
+    const lineItems = data.lineItems || [];
+
+    if (lineItems.length === 0) issues.push("No line items found");
+    if (!data.invoiceNumber) issues.push("Missing invoice number");
+    if (data.total === undefined) issues.push("Missing invoice total");
+
+    lineItems.forEach((item, index) => {
+      if (item.quantity !== undefined && item.unitPrice !== undefined) {
+        checkAmount(accuracyWarnings, `Line ${index + 1} amount`, item.quantity * item.unitPrice, item.amount);
+      }
+    });
+
+    const lineTotal = sumAmounts(lineItems.map(item => item.amount));
+    checkAmount(accuracyWarnings, 'Subtotal', lineTotal, data.subtotal);
+    const subtotal = data.subtotal ?? lineTotal;
+    checkAmount(accuracyWarnings, 'Invoice total', subtotal - (data.discount || 0) + (data.taxTotal || 0), data.total);
+
+    return buildValidationResult(issues, accuracyWarnings);
+  },
+};
@@ -0,0 +1,54 @@
+import type { PayslipData } from '@/ai/document-types';
+import { buildValidationResult, checkAmount, pushLabeledRows, sumAmounts, type DocumentTypeHandler, type ExcelRow } from './shared';
+
+export const payslipHandler: DocumentTypeHandler<PayslipData> = {
+  formatForExcel(data) {
+    const rows: ExcelRow[] = [];
+    pushLabeledRows(rows, [
+      ['Employer:', data.employerName],
+      ['Employee:', data.employeeName],
+      ['Employee ID:', data.employeeId],
+      ['Pay Period:', data.payPeriod],
+      ['Pay Date:', data.payDate],
+      ['Currency:', data.currency],
+    ]);
+    if (rows.length > 0) rows.push([]);
+
+    rows.push(['Type', 'Description', 'Amount']);
+    for (const line of data.earnings || []) {
+      rows.push(['Earning', line.description, line.amount]);
+    }
+    for (const line of data.deductions || []) {
+      rows.push(['Deduction', line.description, line.amount]);
+    }
+
+    rows.push([]);
+    pushLabeledRows(rows, [
+      ['Gross Pay:', data.grossPay],
+      ['Total Deductions:', data.totalDeductions],
+      ['Net Pay:', data.netPay],
+    ]);
+    return rows;
+  },
+
+  validate(data) {
+    const issues: string[] = [];
+    const accuracyWarnings: string[] = [];
+
+    if (!data.earnings || data.earnings.length === 0) issues.push("No earnings found");
+    if (data.netPay === undefined) issues.push("Missing net pay");
+
+    const totalEarnings = sumAmounts((data.earnings || []).map(line => line.amount));
+    const totalDeductions = sumAmounts((data.deductions || []).map(line => line.amount));
+    checkAmount(accuracyWarnings, 'Gross pay', totalEarnings, data.grossPay);
+    checkAmount(accuracyWarnings, 'Total deductions', totalDeductions, data.totalDeductions);
+    checkAmount(
+      accuracyWarnings,
+      'Net pay',
+      (data.grossPay ?? totalEarnings) - (data.totalDeductions ?? totalDeductions),
+      data.netPay
+    );
+
+    return buildValidationResult(issues, accuracyWarnings);
+  },
+};
@@ -0,0 +1,47 @@
+import type { ReceiptData } from '@/ai/document-types';
+import { buildValidationResult, checkAmount, pushLabeledRows, sumAmounts, type DocumentTypeHandler, type ExcelRow } from './shared';
+
+export const receiptHandler: DocumentTypeHandler<ReceiptData> = {
+  formatForExcel(data) {
+    const rows: ExcelRow[] = [];
+    pushLabeledRows(rows, [
+      ['Merchant:', data.merchantName],
+      ['Address:', data.merchantAddress],
+      ['Date:', data.date],
+      ['Time:', data.time],
+      ['Currency:', data.currency],
+    ]);
+    if (rows.length > 0) rows.push([]);
+
+    rows.push(['Item', 'Quantity', 'Price']);
+    for (const item of data.items || []) {
+      rows.push([item.description, item.quantity ?? null, item.price]);
+    }
+
+    rows.push([]);
+    pushLabeledRows(rows, [
+      ['Subtotal:', data.subtotal],
+      ['Tax:', data.tax],
+      ['Tip:', data.tip],
+      ['Total:', data.total],
+      ['Payment Method:', data.paymentMethod],
+    ]);
+    return rows;
+  },
+
+  validate(data) {
+    const issues: string[] = [];
+    const accuracyWarnings: string[] = [];
+    const items = data.items || [];
+
+    if (items.length === 0) issues.push("No items found");
+    if (data.total === undefined) issues.push("Missing receipt total");
+
+    const itemTotal = sumAmounts(items.map(item => item.price));
+    checkAmount(accuracyWarnings, 'Subtotal', itemTotal, data.subtotal);
+    const subtotal = data.subtotal ?? itemTotal;
+    checkAmount(accuracyWarnings, 'Receipt total', subtotal + (data.tax || 0) + (data.tip || 0), data.total);
+
+    return buildValidationResult(issues, accuracyWarnings);
+  },
+};
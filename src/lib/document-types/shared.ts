@@ -0,0 +1,74 @@
+/**
+ * Shared building blocks for document type Excel layouts and validation rules.
+ */
+
+export type ExcelRow = Array<string | number | null>;
+
+export interface DocumentValidationResult {
+  isValid: boolean;
+  issues: string[];
+  accuracyWarnings: string[];
+  corrections?: string[]; // Values fixed automatically after extraction, for the user to review
+}
+
+/** The grid of one currency sub-account of a multi-currency document. */
+export interface SubAccountGrid {
+  currency: string; // ISO 4217 code
+  data: ExcelRow[];
+}
+
+/** An Excel grid together with the validation findings for the data it was built from. */
+export interface FormattedDocument {
+  data: ExcelRow[];
+  validation: DocumentValidationResult;
+  subAccounts?: SubAccountGrid[]; // Set when the document holds several currency sub-accounts, one grid each
+}
+
+export interface DocumentTypeHandler<T> {
+  /** Builds the single-sheet Excel grid for this document type. */
+  formatForExcel(data: T): ExcelRow[];
+  /** Builds one grid per currency sub-account; null when the document has a single currency. */
+  formatSubAccounts?(data: T): SubAccountGrid[] | null;
+  /** Checks the extracted data for missing fields and totals that do not add up. */
+  validate(data: T): DocumentValidationResult;
+}
+
+// 1 cent tolerance for rounding differences
+const AMOUNT_TOLERANCE = 0.01;
+
+/**
+ * Appends "Label: value" rows for every field that has a value.
+ */
+export function pushLabeledRows(rows: ExcelRow[], fields: Array<[string, string | number | null | undefined]>): void {
+  for (const [label, value] of fields) {
+    if (value !== undefined && value !== null && value !== '') {
+      rows.push([label, value]);
+    }
+  }
+}
+
+export function sumAmounts(amounts: Array<number | null | undefined>): number {
+  return amounts.reduce<number>((sum, amount) => sum + (amount || 0), 0);
+}
+
+/**
+ * Adds an accuracy warning when a computed amount differs from the amount stated on the document.
+ */
+export function checkAmount(
+  accuracyWarnings: string[],
+  label: string,
+  computed: number,
+  stated: number | null | undefined
+): void {
+  if (stated === undefined || stated === null) return;
+  const diff = Math.abs(computed - stated);
+  if (diff > AMOUNT_TOLERANCE) {
+    accuracyWarnings.push(
+      `${label} mismatch: Calculated ${computed.toFixed(2)}, Document shows ${stated.toFixed(2)} (Difference: ${diff.toFixed(2)})`
+    );
+  }
+}
+
+export function buildValidationResult(issues: string[], accuracyWarnings: string[]): DocumentValidationResult {
+  return { isValid: issues.length === 0, issues, accuracyWarnings };
+}
@@ -1,5 +1,43 @@
 
 import * as XLSX from 'xlsx';
+import { RECONCILIATION_COLUMN_HEADER } from '@/lib/reconciliation';
+import {
+  addExcelTables,
+  addFlaggedColumnHighlights,
+  type ExcelTableDefinition,
+  type FlaggedColumnDefinition,
+} from '@/lib/excel-tables';
+import { buildStatementWorkbook } from '@/lib/statement-workbook';
+import { downloadBlob } from '@/lib/download';
+import { toExcelDateSerial } from '@/lib/date-formats';
+import { currencyNumberFormat, isMoneyLabel, labelledCurrency } from '@/lib/currency-format';
+import { ORIGINAL_AMOUNT_HEADER, ORIGINAL_CURRENCY_HEADER } from '@/lib/statement-grid';
+import type { DocumentValidationResult } from '@/lib/document-types/shared';
+
+/**
+ * A single worksheet to export.
+ * 'statement' sheets use the bank statement layout (header block, transaction table, footer block);
+ * bank statements among them are written as Summary, Transactions and Metadata sheets.
+ * 'table' sheets hold one plain table whose first row is the header row.
+ * 'transactions' sheets hold only a transaction table (Date, Description, Paid Out, Paid In, Balance).
+ */
+export interface ExcelSheet {
+  name: string;
+  data: Array<Array<string | number | null>>;
+  kind?: 'statement' | 'table' | 'transactions';
+  sourceFileName?: string; // PDF the sheet was converted from, listed on the Metadata sheet
+  currency?: string; // ISO 4217 code; amounts get its currency number format
+  computedBalance?: boolean; // Bank statements get Computed Balance and Balance Difference formula columns
+  formulas?: Record<string, ExcelFormula>; // By A1 address; `data` holds the value shown until Excel recalculates
+  tableName?: string; // Writes the whole grid as an Excel table with filter buttons
+}
+
+export interface ExcelFormula {
+  formula: string; // Without the leading '='
+  numberFormat?: string;
+}
+
+const MAX_SHEET_NAME_LENGTH = 31;
 
 /**
  * Validates data structure before Excel export to prevent errors
@@ -36,7 +74,7 @@ function findTransactionTableBounds(data: Array<Array<string | number | null>>):
   let headerRow = -1;
   for (let i = 0; i < data.length; i++) {
     const row = data[i];
-    if (Array.isArray(row) && row.length >= 5) {
+    if (Array.isArray(row) && row.length >= 3) {
       const firstCell = String(row[0] || '').toLowerCase();
       if (firstCell === 'date') {
         headerRow = i;
@@ -72,16 +110,77 @@ function findTransactionTableBounds(data: Array<Array<string | number | null>>):
 }
 
 /**
- * Exports data to Excel with proper formatting, cell types, and styles
+ * The Balance Check column of a statement grid, highlighted in the written file where rows do not reconcile.
  */
-export function exportToExcel(data: Array<Array<string | number | null>>, fileName: string = 'converted_data.xlsx'): void {
-  // Validate data structure
-  const validation = validateDataBeforeExport(data);
-  if (!validation.isValid) {
-    console.error("Data validation failed:", validation.error);
-    throw new Error(validation.error || "Invalid data structure");
+function findFlaggedColumn(data: Array<Array<string | number | null>>, sheetName: string): FlaggedColumnDefinition | null {
+  const { headerRow, endRow } = findTransactionTableBounds(data);
+  const column = (data[headerRow] ?? []).indexOf(RECONCILIATION_COLUMN_HEADER);
+  if (column === -1) return null;
+  return {
+    sheetName,
+    headerCell: XLSX.utils.encode_cell({ r: headerRow, c: column }),
+    cellsRef: endRow > headerRow
+      ? XLSX.utils.encode_range({ s: { r: headerRow + 1, c: column }, e: { r: endRow, c: column } })
+      : null,
+  };
+}
+
+// Foreign-currency rows show their original amount in the original currency
+function originalAmountFormats(data: Array<Array<string | number | null>>, headerRow: number): { column: number; formatFor: (row: number) => string } | null {
+  const headers = (data[headerRow] ?? []).map(cell => String(cell ?? ''));
+  const column = headers.indexOf(ORIGINAL_AMOUNT_HEADER);
+  const currencyColumn = headers.indexOf(ORIGINAL_CURRENCY_HEADER);
+  if (column === -1 || currencyColumn === -1) return null;
+  return { column, formatFor: row => currencyNumberFormat(String(data[row]?.[currencyColumn] ?? '').trim().toUpperCase() || undefined) };
+}
+
+/**
+ * Builds a worksheet for a generic table: the first row is the header, numbers keep their precision.
+ */
+function buildTableWorksheet(data: Array<Array<string | number | null>>, currency?: string): XLSX.WorkSheet {
+  const worksheet = XLSX.utils.aoa_to_sheet(data);
+  const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+
+  // A column with any decimal value shows all of its numbers with two decimals
+  const decimalColumns = new Set<number>();
+  data.slice(1).forEach(row => row.forEach((value, col) => {
+    if (typeof value === 'number' && !Number.isInteger(value)) decimalColumns.add(col);
+  }));
+
+  const decimalFormat = currencyNumberFormat(currency);
+  const originalAmounts = originalAmountFormats(data, 0);
+  for (let row = range.s.r + 1; row <= range.e.r; row++) {
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      const cell = worksheet[XLSX.utils.encode_cell({ r: row, c: col })];
+      const dateSerial = typeof cell?.v === 'string' ? toExcelDateSerial(cell.v) : null;
+      if (cell && typeof cell.v === 'number' && col === originalAmounts?.column) {
+        cell.t = 'n';
+        cell.z = originalAmounts.formatFor(row);
+      } else if (cell && typeof cell.v === 'number') {
+        cell.t = 'n';
+        cell.z = decimalColumns.has(col) ? decimalFormat : '#,##0';
+      } else if (cell && dateSerial !== null) {
+        cell.v = dateSerial;
+        cell.t = 'n';
+        cell.z = 'yyyy-mm-dd';
+      }
+    }
   }
 
+  const maxCols = Math.max(...data.map(row => row.length));
+  worksheet['!cols'] = Array.from({ length: maxCols }, (_, col) => {
+    const longest = Math.max(10, ...data.map(row => String(row[col] ?? '').length));
+    return { wch: Math.min(longest + 2, 50) };
+  });
+
+  worksheet['!views'] = [{ state: 'frozen', xSplit: 0, ySplit: 1, topLeftCell: 'A2', activeCell: 'A2' }];
+  return worksheet;
+}
+
+/**
+ * Builds a worksheet in the bank statement layout with proper formatting, cell types, and styles
+ */
+function buildStatementWorksheet(data: Array<Array<string | number | null>>, currency?: string): XLSX.WorkSheet {
   // Create worksheet from data
   // Note: aoa_to_sheet creates independent cells (no merged cells) which prevents issue #4
   const worksheet = XLSX.utils.aoa_to_sheet(data);
@@ -93,6 +192,10 @@ export function exportToExcel(data: Array<Array<string | number | null>>, fileNa
 
   // Find transaction table bounds for formatting
   const tableBounds = findTransactionTableBounds(data);
+  const hasTransactionTable = String(data[tableBounds.headerRow]?.[0] ?? '').trim().toLowerCase() === 'date';
+  const amountFormat = currencyNumberFormat(labelledCurrency(data) ?? currency);
+  const reconciliationColumn = (data[tableBounds.headerRow] ?? []).indexOf(RECONCILIATION_COLUMN_HEADER);
+  const originalAmounts = hasTransactionTable ? originalAmountFormats(data, tableBounds.headerRow) : null;
 
   // Apply cell formatting and types
   const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
@@ -111,37 +214,34 @@ export function exportToExcel(data: Array<Array<string | number | null>>, fileNa
       const isDateColumn = isInTransactionTable && col === 0 && !isHeaderRow; // Date column (not header)
       const isDescriptionColumn = isInTransactionTable && col === 1; // Description
 
+      const dateSerial = !isHeaderRow && typeof cell.v === 'string' ? toExcelDateSerial(cell.v) : null;
+
       // Set cell type and format
       if (isNumericColumn && !isHeaderRow && typeof cell.v === 'number') {
-        // Format as number with 2 decimal places and thousands separator
-        cell.z = '#,##0.00';
+        // Transaction amounts and balances in the statement's currency
+        cell.z = hasTransactionTable ? amountFormat : '#,##0.00';
         cell.t = 'n'; // number type
-      } else if (isDateColumn && typeof cell.v === 'string' && cell.v.match(/^\d{4}-\d{2}-\d{2}$/)) {
-        // Format as date (YYYY-MM-DD)
-        // Convert string date to Excel date serial number
-        const dateValue = new Date(cell.v + 'T00:00:00'); // Add time to avoid timezone issues
-        if (!isNaN(dateValue.getTime())) {
-          // Excel uses days since 1900-01-01, but JavaScript Date uses milliseconds since 1970-01-01
-          // Use the date value directly - XLSX will handle the conversion
-          cell.v = dateValue;
-          cell.t = 'd'; // date type
-          cell.z = 'yyyy-mm-dd';
-        } else {
-          // If date parsing fails, keep as string
-          cell.t = 's';
-        }
+      } else if (isInTransactionTable && !isHeaderRow && typeof cell.v === 'number' && col === originalAmounts?.column) {
+        cell.z = originalAmounts.formatFor(row);
+        cell.t = 'n';
+      } else if (dateSerial !== null) {
+        // ISO dates become real Excel dates (serial numbers shown as YYYY-MM-DD)
+        cell.v = dateSerial;
+        cell.t = 'n';
+        cell.z = 'yyyy-mm-dd';
+      } else if (isDateColumn && typeof cell.v === 'string') {
+        // Dates that are not ISO formatted stay as text
+        cell.t = 's';
       } else if (typeof cell.v === 'number') {
-        // Other numeric cells (like header/footer values)
-        cell.z = '#,##0.00';
+        // Other numeric cells (like header/footer values); labelled money values get the currency format
+        cell.z = !isInTransactionTable && isMoneyLabel(data[row]?.[0]) ? amountFormat : '#,##0.00';
         cell.t = 'n';
       } else {
         // Text cells
         cell.t = 's'; // string type
       }
 
-      // Note: xlsx library has limited style support
-      // We focus on number formatting (cell.z) and cell types (cell.t) which are well-supported
-      // Styling (cell.s) may not work in all Excel versions, so we prioritize formatting
+      // The xlsx community build does not write cell.s, so fills are added afterwards by addFlaggedColumnHighlights
     }
   }
 
@@ -167,6 +267,7 @@ export function exportToExcel(data: Array<Array<string | number | null>>, fileNa
     if (col === 2) maxWidth = Math.max(maxWidth, 15); // Paid Out
     if (col === 3) maxWidth = Math.max(maxWidth, 15); // Paid In
     if (col === 4) maxWidth = Math.max(maxWidth, 18); // Balance
+    if (col === reconciliationColumn) maxWidth = Math.max(maxWidth, 50); // Balance Check
     
     colWidths.push({ wch: maxWidth });
   }
@@ -191,16 +292,156 @@ export function exportToExcel(data: Array<Array<string | number | null>>, fileNa
       activeCell: XLSX.utils.encode_cell({ r: tableBounds.headerRow + 1, c: 0 })
     }];
   }
-  
+
+  return worksheet;
+}
+
+/**
+ * Turns an arbitrary title into a valid, unique Excel sheet name.
+ */
+function toSafeSheetName(name: string, usedNames: Set<string>): string {
+  const base = (name.replace(/[\\/?*[\]:]/g, ' ').trim() || 'Sheet').slice(0, MAX_SHEET_NAME_LENGTH);
+  let candidate = base;
+  for (let suffix = 2; usedNames.has(candidate.toLowerCase()); suffix++) {
+    const suffixText = ` (${suffix})`;
+    candidate = base.slice(0, MAX_SHEET_NAME_LENGTH - suffixText.length) + suffixText;
+  }
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Builds the optional "Validation" sheet listing what needs a manual check before the data is used.
+ */
+export function buildValidationSheet(validation: DocumentValidationResult): ExcelSheet {
+  const data: Array<Array<string | number | null>> = [['Severity', 'Finding']];
+  validation.issues.forEach(issue => data.push(['Issue', issue]));
+  validation.accuracyWarnings.forEach(warning => data.push(['Warning', warning]));
+  validation.corrections?.forEach(correction => data.push(['Corrected', correction]));
+  if (data.length === 1) {
+    data.push(['OK', 'All validation checks passed.']);
+  }
+  return { name: 'Validation', data, kind: 'table' };
+}
+
+/**
+ * Writes a sheet's formulas over the values already in the worksheet, which Excel shows until it recalculates.
+ */
+function applyFormulas(worksheet: XLSX.WorkSheet, formulas: Record<string, ExcelFormula>, defaultFormat: string): void {
+  for (const [address, { formula, numberFormat }] of Object.entries(formulas)) {
+    const cached = worksheet[address]?.v;
+    worksheet[address] = typeof cached === 'string'
+      ? { t: 's', v: cached, f: formula }
+      : { t: 'n', v: typeof cached === 'number' ? cached : 0, f: formula, z: numberFormat ?? defaultFormat };
+  }
+}
+
+function prefixedSheetName(prefix: string, name: string): string {
+  return prefix ? `${prefix.slice(0, Math.max(1, MAX_SHEET_NAME_LENGTH - name.length - 1))} ${name}` : name;
+}
+
+/**
+ * Builds the workbook with one worksheet per sheet, validating each sheet's data first.
+ * Bank statement sheets are expanded into Summary, Transactions and Metadata sheets; the Excel tables
+ * and highlighted columns this needs are returned separately because they are added to the written file afterwards.
+ */
+function buildWorkbook(data: Array<Array<string | number | null>> | ExcelSheet[]): {
+  workbook: XLSX.WorkBook;
+  tables: ExcelTableDefinition[];
+  flaggedColumns: FlaggedColumnDefinition[];
+} {
+  const sheets: ExcelSheet[] = isSheetList(data) ? data : [{ name: 'Sheet1', data, kind: 'statement' }];
+  if (sheets.length === 0) {
+    throw new Error("No data to export");
+  }
+
   const workbook = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1');
+  const usedNames = new Set<string>();
+  const tables: ExcelTableDefinition[] = [];
+  const flaggedColumns: FlaggedColumnDefinition[] = [];
 
-  // Write file with proper options to prevent corruption
-  // Use standard writeFile which handles formatting correctly
+  const appendSheet = (sheet: ExcelSheet, sheetName: string) => {
+    // Validate data structure
+    const validation = validateDataBeforeExport(sheet.data);
+    if (!validation.isValid) {
+      console.error(`Data validation failed for sheet "${sheet.name}":`, validation.error);
+      throw new Error(validation.error || "Invalid data structure");
+    }
+
+    const worksheet = sheet.kind === 'table'
+      ? buildTableWorksheet(sheet.data, sheet.currency)
+      : buildStatementWorksheet(sheet.data, sheet.currency);
+    if (sheet.formulas) {
+      applyFormulas(worksheet, sheet.formulas, currencyNumberFormat(sheet.currency));
+    }
+    if (sheet.tableName) {
+      // The table brings its own filter buttons, so the sheet keeps only the frozen header
+      tables.push({
+        sheetName,
+        name: sheet.tableName,
+        ref: worksheet['!ref'] || 'A1',
+        columns: sheet.data[0].map(cell => String(cell ?? '')),
+      });
+    }
+    const flaggedColumn = sheet.kind === 'table' ? null : findFlaggedColumn(sheet.data, sheetName);
+    if (flaggedColumn) flaggedColumns.push(flaggedColumn);
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
+  };
+
+  for (const sheet of sheets) {
+    if ((sheet.kind ?? 'statement') === 'statement') {
+      // Sheets of a combined workbook are named after their file, which then prefixes the expanded sheets
+      const prefix = sheet.name === 'Sheet1' ? '' : sheet.name;
+      const names = {
+        summarySheet: prefixedSheetName(prefix, 'Summary'),
+        transactionsSheet: prefixedSheetName(prefix, 'Transactions'),
+        metadataSheet: prefixedSheetName(prefix, 'Metadata'),
+        tableName: `Transactions${tables.length > 0 ? tables.length + 1 : ''}`,
+      };
+      const reservedNames = new Set(usedNames);
+      const resolvedNames = {
+        summarySheet: toSafeSheetName(names.summarySheet, reservedNames),
+        transactionsSheet: toSafeSheetName(names.transactionsSheet, reservedNames),
+        metadataSheet: toSafeSheetName(names.metadataSheet, reservedNames),
+        tableName: names.tableName,
+      };
+      const statementSheets = buildStatementWorkbook(sheet, resolvedNames);
+      if (statementSheets) {
+        statementSheets.forEach(statementSheet => appendSheet(statementSheet, toSafeSheetName(statementSheet.name, usedNames)));
+        continue;
+      }
+    }
+    appendSheet(sheet, toSafeSheetName(sheet.name, usedNames));
+  }
+  return { workbook, tables, flaggedColumns };
+}
+
+/**
+ * Builds the workbook and returns the .xlsx bytes, e.g. to bundle several workbooks into one ZIP.
+ */
+export function buildExcelFile(data: Array<Array<string | number | null>> | ExcelSheet[]): Uint8Array {
+  const { workbook, tables, flaggedColumns } = buildWorkbook(data);
   try {
-    XLSX.writeFile(workbook, fileName);
+    const file = new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx', cellStyles: true }));
+    return addFlaggedColumnHighlights(addExcelTables(file, tables), flaggedColumns);
   } catch (error) {
     console.error("Error writing Excel file:", error);
     throw new Error(`Failed to export Excel file: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
+
+/**
+ * Exports data to Excel with proper formatting, cell types, and styles.
+ * Pass a single grid for a one-sheet workbook, or a list of sheets to write each to its own worksheet.
+ */
+export function exportToExcel(
+  data: Array<Array<string | number | null>> | ExcelSheet[],
+  fileName: string = 'converted_data.xlsx'
+): void {
+  const file = buildExcelFile(data);
+  downloadBlob(new Blob([file], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), fileName);
+}
+
+function isSheetList(data: Array<Array<string | number | null>> | ExcelSheet[]): data is ExcelSheet[] {
+  return data.length > 0 && !Array.isArray(data[0]);
+}
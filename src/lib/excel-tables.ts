@@ -0,0 +1,184 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+
+/**
+ * The xlsx community build cannot write Excel tables (ListObjects) or cell fills and fonts, so they are
+ * added to the finished .xlsx package afterwards: one table part per table, linked from its worksheet,
+ * and conditional formatting with differential styles (dxfs) for highlighted columns.
+ */
+
+export interface ExcelTableDefinition {
+  sheetName: string;
+  name: string; // Unique in the workbook, letters/digits/underscores only
+  ref: string; // A1 range including the header row, e.g. "A1:E42"
+  columns: string[]; // Header cell texts, in order
+}
+
+// A column whose header cell is always highlighted and whose other cells are highlighted when they hold text,
+// e.g. the Balance Check column that carries reconciliation flags
+export interface FlaggedColumnDefinition {
+  sheetName: string;
+  headerCell: string; // A1 address, e.g. "F1"
+  cellsRef: string | null; // A1 range below the header, e.g. "F2:F42"; null when the column has no rows
+}
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const TABLE_REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/table';
+const TABLE_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.table+xml';
+// Red text on a light red fill for flagged cells, bold on a light yellow fill for the header
+const FLAGGED_CELL_DXF = '<dxf><font><color rgb="FF9C0006"/></font><fill><patternFill patternType="solid"><bgColor rgb="FFF4CCCC"/></patternFill></fill></dxf>';
+const FLAGGED_HEADER_DXF = '<dxf><font><b/></font><fill><patternFill patternType="solid"><bgColor rgb="FFFFEB9C"/></patternFill></fill></dxf>';
+// Worksheet children that must come after <conditionalFormatting>, in schema order
+const AFTER_CONDITIONAL_FORMATTING = [
+  '<dataValidations', '<hyperlinks', '<printOptions', '<pageMargins', '<pageSetup', '<headerFooter', '<rowBreaks',
+  '<colBreaks', '<ignoredErrors', '<drawing', '<legacyDrawing', '<tableParts', '<extLst',
+];
+const EMPTY_RELS = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>';
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeXml(text: string): string {
+  return text.replace(/&quot;/g, '"').replace(/&gt;/g, '>').replace(/&lt;/g, '<').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+}
+
+function readText(files: Record<string, Uint8Array>, path: string): string {
+  const file = files[path];
+  if (!file) throw new Error(`Workbook part ${path} is missing`);
+  return strFromU8(file);
+}
+
+/** Maps each sheet name to its worksheet part path, e.g. "Transactions" -> "xl/worksheets/sheet2.xml". */
+function findWorksheetPaths(files: Record<string, Uint8Array>): Map<string, string> {
+  const workbook = readText(files, 'xl/workbook.xml');
+  const rels = readText(files, 'xl/_rels/workbook.xml.rels');
+  const targets = new Map<string, string>();
+  for (const match of rels.matchAll(/<Relationship\b[^>]*?Id="([^"]+)"[^>]*?Target="([^"]+)"/g)) {
+    targets.set(match[1], match[2].replace(/^\/?(xl\/)?/, 'xl/'));
+  }
+
+  const paths = new Map<string, string>();
+  for (const match of workbook.matchAll(/<sheet\b[^>]*?name="([^"]+)"[^>]*?r:id="([^"]+)"/g)) {
+    const target = targets.get(match[2]);
+    if (target) paths.set(unescapeXml(match[1]), target);
+  }
+  return paths;
+}
+
+function buildTableXml(table: ExcelTableDefinition, id: number): string {
+  const name = escapeXml(table.name);
+  const columns = table.columns
+    .map((column, index) => `<tableColumn id="${index + 1}" name="${escapeXml(column)}"/>`)
+    .join('');
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + `<table xmlns="${MAIN_NS}" id="${id}" name="${name}" displayName="${name}" ref="${table.ref}" totalsRowShown="0">`
+    + `<autoFilter ref="${table.ref}"/>`
+    + `<tableColumns count="${table.columns.length}">${columns}</tableColumns>`
+    + '<tableStyleInfo name="TableStyleMedium2" showFirstColumn="0" showLastColumn="0" showRowStripes="1" showColumnStripes="0"/>'
+    + '</table>';
+}
+
+/**
+ * Adds Excel tables (with filter buttons and banded rows) to an .xlsx file written by the xlsx library.
+ * The header row of each table must already hold the column names as text.
+ */
+export function addExcelTables(file: Uint8Array, tables: ExcelTableDefinition[]): Uint8Array {
+  if (tables.length === 0) return file;
+
+  const files = unzipSync(file);
+  const worksheetPaths = findWorksheetPaths(files);
+  let contentTypes = readText(files, '[Content_Types].xml');
+
+  tables.forEach((table, index) => {
+    const tableId = index + 1;
+    const sheetPath = worksheetPaths.get(table.sheetName);
+    if (!sheetPath) throw new Error(`Sheet "${table.sheetName}" was not found for table ${table.name}`);
+
+    files[`xl/tables/table${tableId}.xml`] = strToU8(buildTableXml(table, tableId));
+    contentTypes = contentTypes.replace('</Types>', `<Override PartName="/xl/tables/table${tableId}.xml" ContentType="${TABLE_CONTENT_TYPE}"/></Types>`);
+
+    // Link the table from its worksheet through the worksheet's relationships part
+    const sheetFileName = sheetPath.slice(sheetPath.lastIndexOf('/') + 1);
+    const relsPath = `xl/worksheets/_rels/${sheetFileName}.rels`;
+    const relId = `rIdTable${tableId}`;
+    const rels = files[relsPath] ? strFromU8(files[relsPath]) : EMPTY_RELS;
+    files[relsPath] = strToU8(rels.replace(
+      '</Relationships>',
+      `<Relationship Id="${relId}" Type="${TABLE_REL_TYPE}" Target="../tables/table${tableId}.xml"/></Relationships>`
+    ));
+
+    // <tableParts> must be the last child of <worksheet> (before any <extLst>)
+    let sheetXml = readText(files, sheetPath);
+    const tablePart = `<tablePart r:id="${relId}"/>`;
+    if (sheetXml.includes('</tableParts>')) {
+      sheetXml = sheetXml
+        .replace(/<tableParts count="(\d+)">/, (_, count: string) => `<tableParts count="${Number(count) + 1}">`)
+        .replace('</tableParts>', `${tablePart}</tableParts>`);
+    } else {
+      const insertAt = sheetXml.includes('<extLst>') ? sheetXml.indexOf('<extLst>') : sheetXml.lastIndexOf('</worksheet>');
+      sheetXml = `${sheetXml.slice(0, insertAt)}<tableParts count="1">${tablePart}</tableParts>${sheetXml.slice(insertAt)}`;
+    }
+    files[sheetPath] = strToU8(sheetXml);
+  });
+
+  files['[Content_Types].xml'] = strToU8(contentTypes);
+  return zipSync(files, { level: 6 });
+}
+
+/** Appends differential styles to the stylesheet and returns the index of the first one. */
+function appendDxfs(stylesXml: string, dxfs: string[]): { stylesXml: string; firstId: number } {
+  const existing = stylesXml.match(/<dxfs count="(\d+)"(\/>|>[\s\S]*?<\/dxfs>)/);
+  if (!existing) {
+    const insertAt = stylesXml.includes('<tableStyles') ? stylesXml.indexOf('<tableStyles') : stylesXml.lastIndexOf('</styleSheet>');
+    return {
+      stylesXml: `${stylesXml.slice(0, insertAt)}<dxfs count="${dxfs.length}">${dxfs.join('')}</dxfs>${stylesXml.slice(insertAt)}`,
+      firstId: 0,
+    };
+  }
+  const count = Number(existing[1]);
+  const body = existing[2] === '/>' ? '' : existing[2].slice(1, -'</dxfs>'.length);
+  return {
+    stylesXml: stylesXml.replace(existing[0], `<dxfs count="${count + dxfs.length}">${body}${dxfs.join('')}</dxfs>`),
+    firstId: count,
+  };
+}
+
+/**
+ * Highlights flagged columns in an .xlsx file written by the xlsx library, with conditional formatting
+ * so the highlight follows the cells when rows are sorted or filtered in Excel.
+ */
+export function addFlaggedColumnHighlights(file: Uint8Array, columns: FlaggedColumnDefinition[]): Uint8Array {
+  if (columns.length === 0) return file;
+
+  const files = unzipSync(file);
+  const worksheetPaths = findWorksheetPaths(files);
+  const { stylesXml, firstId } = appendDxfs(readText(files, 'xl/styles.xml'), [FLAGGED_CELL_DXF, FLAGGED_HEADER_DXF]);
+  files['xl/styles.xml'] = strToU8(stylesXml);
+  const cellDxfId = firstId;
+  const headerDxfId = firstId + 1;
+
+  for (const column of columns) {
+    const sheetPath = worksheetPaths.get(column.sheetName);
+    if (!sheetPath) throw new Error(`Sheet "${column.sheetName}" was not found for a highlighted column`);
+
+    let sheetXml = readText(files, sheetPath);
+    let priority = (sheetXml.match(/<cfRule\b/g) ?? []).length;
+    let formatting = `<conditionalFormatting sqref="${column.headerCell}">`
+      + `<cfRule type="expression" dxfId="${headerDxfId}" priority="${++priority}"><formula>TRUE</formula></cfRule>`
+      + '</conditionalFormatting>';
+    if (column.cellsRef) {
+      const firstCell = column.cellsRef.split(':')[0];
+      formatting += `<conditionalFormatting sqref="${column.cellsRef}">`
+        + `<cfRule type="notContainsBlanks" dxfId="${cellDxfId}" priority="${++priority}"><formula>LEN(TRIM(${firstCell}))&gt;0</formula></cfRule>`
+        + '</conditionalFormatting>';
+    }
+    const following = AFTER_CONDITIONAL_FORMATTING
+      .map(tag => sheetXml.indexOf(tag))
+      .filter(index => index !== -1);
+    const insertAt = following.length > 0 ? Math.min(...following) : sheetXml.lastIndexOf('</worksheet>');
+    sheetXml = `${sheetXml.slice(0, insertAt)}${formatting}${sheetXml.slice(insertAt)}`;
+    files[sheetPath] = strToU8(sheetXml);
+  }
+
+  return zipSync(files, { level: 6 });
+}
@@ -0,0 +1,338 @@
+import { exportToExcel, type ExcelSheet } from '@/lib/excel-export';
+import { formatTransactionsForProfile } from '@/lib/accounting-export';
+import { formatExportDate, type ExportDateFormat } from '@/lib/date-formats';
+import type { AccountingExportProfile, CsvDelimiter } from '@/types/site-settings';
+import {
+  readStatementFromGrid,
+  ORIGINAL_AMOUNT_HEADER,
+  ORIGINAL_CURRENCY_HEADER,
+  type StatementExport,
+} from '@/lib/statement-grid';
+import { downloadBlob } from '@/lib/download';
+
+/**
+ * Non-Excel export formats: delimited text for spreadsheets and bookkeeping imports, JSON for scripts,
+ * and OFX/QFX/QIF for personal finance and accounting software.
+ * Statement exports are built from the transaction table in the (possibly edited) preview grid,
+ * so every format carries the same transactions as the Excel download. Multi-currency statements
+ * (one sheet per currency sub-account) are written as several accounts where the format allows it.
+ */
+
+// 'accountingCsv' is the bank-import CSV of an accounting package, laid out by ExportOptions.profile
+export type ExportFormat = 'xlsx' | 'csv' | 'tsv' | 'json' | 'ofx' | 'qfx' | 'qif' | 'accountingCsv';
+export type { CsvDelimiter } from '@/types/site-settings';
+export type DecimalSeparator = '.' | ',';
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  requiresTransactions: boolean; // Only statements with a transaction table can be exported in this format
+}
+
+export interface ExportOptions {
+  delimiter: CsvDelimiter;
+  decimalSeparator: DecimalSeparator;
+  dateFormat: ExportDateFormat;
+  currency?: string; // ISO 4217 code written to OFX/QFX files when the statement shows none
+  profile?: AccountingExportProfile; // Required for 'accountingCsv'
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { id: 'xlsx', label: 'Excel (.xlsx)', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', requiresTransactions: false },
+  { id: 'csv', label: 'CSV (.csv)', extension: 'csv', mimeType: 'text/csv', requiresTransactions: false },
+  { id: 'tsv', label: 'TSV (.tsv)', extension: 'tsv', mimeType: 'text/tab-separated-values', requiresTransactions: false },
+  { id: 'json', label: 'JSON (.json)', extension: 'json', mimeType: 'application/json', requiresTransactions: false },
+  { id: 'ofx', label: 'OFX (.ofx)', extension: 'ofx', mimeType: 'application/x-ofx', requiresTransactions: true },
+  { id: 'qfx', label: 'Quicken QFX (.qfx)', extension: 'qfx', mimeType: 'application/vnd.intu.qfx', requiresTransactions: true },
+  { id: 'qif', label: 'QIF (.qif)', extension: 'qif', mimeType: 'application/qif', requiresTransactions: true },
+  { id: 'accountingCsv', label: 'Accounting software CSV', extension: 'csv', mimeType: 'text/csv', requiresTransactions: true },
+];
+
+export const CSV_DELIMITERS: Array<{ value: CsvDelimiter; label: string }> = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+export const DECIMAL_SEPARATORS: Array<{ value: DecimalSeparator; label: string }> = [
+  { value: '.', label: 'Point (1234.56)' },
+  { value: ',', label: 'Comma (1234,56)' },
+];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  delimiter: ',',
+  decimalSeparator: '.',
+  dateFormat: 'YYYY-MM-DD',
+};
+
+type Grid = Array<Array<string | number | null>>;
+
+export function getExportFormatInfo(format: ExportFormat): ExportFormatInfo {
+  return EXPORT_FORMATS.find(info => info.id === format) ?? EXPORT_FORMATS[0];
+}
+
+/**
+ * Swaps the extension of a file name for the one used by the export format.
+ */
+export function withExportExtension(fileName: string, format: ExportFormat): string {
+  return fileName.replace(/\.[^/.]+$/, '') + '.' + getExportFormatInfo(format).extension;
+}
+
+function formatNumber(value: number, decimalSeparator: DecimalSeparator): string {
+  const text = Number.isInteger(value) ? String(value) : value.toFixed(2);
+  return decimalSeparator === ',' ? text.replace('.', ',') : text;
+}
+
+// Spreadsheet apps run text starting with one of these as a formula, so such text is written with a leading '
+const FORMULA_TRIGGER_PATTERN = /^[=+\-@\t\r]/;
+// Numbers kept as text, e.g. "-1,234.56" in an extracted table, cannot carry a formula and are left as they are
+const NUMERIC_TEXT_PATTERN = /^[+-]?\d+(?:[.,\s']\d+)*$/;
+
+function neutralizeFormula(text: string): string {
+  return FORMULA_TRIGGER_PATTERN.test(text) && !NUMERIC_TEXT_PATTERN.test(text) ? `'${text}` : text;
+}
+
+function escapeDelimitedField(text: string, delimiter: string): string {
+  if (text.includes(delimiter) || text.includes('"') || /[\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+function toDelimitedText(rows: Grid, delimiter: string, options: ExportOptions, dateColumn: number | null): string {
+  return rows
+    .map((row, rowIndex) => row
+      .map((cell, colIndex) => {
+        if (cell === null || cell === undefined) return '';
+        if (typeof cell === 'number') return escapeDelimitedField(formatNumber(cell, options.decimalSeparator), delimiter);
+        const text = dateColumn === colIndex && rowIndex > 0 ? formatExportDate(cell, options.dateFormat) : cell;
+        return escapeDelimitedField(neutralizeFormula(text), delimiter);
+      })
+      .join(delimiter))
+    .join('\r\n');
+}
+
+function buildDelimited(sheets: ExcelSheet[], statements: StatementExport[], delimiter: string, options: ExportOptions): string {
+  if (statements.length > 0) {
+    const transactions = statements.flatMap(statement => statement.transactions);
+    const includeOriginalAmounts = transactions.some(t => t.originalAmount !== undefined || t.originalCurrency);
+    // Several sub-accounts share one table, told apart by an account currency column
+    const includeAccountCurrency = statements.length > 1;
+    const header: Grid[number] = ['Date', 'Description', 'Paid Out', 'Paid In', 'Balance'];
+    if (includeOriginalAmounts) header.push(ORIGINAL_AMOUNT_HEADER, ORIGINAL_CURRENCY_HEADER);
+    if (includeAccountCurrency) header.push('Account Currency');
+
+    const rows: Grid = [header];
+    for (const statement of statements) {
+      for (const t of statement.transactions) {
+        const row: Grid[number] = [t.date, t.description, t.debit ?? null, t.credit ?? null, t.balance];
+        if (includeOriginalAmounts) row.push(t.originalAmount ?? null, t.originalCurrency ?? null);
+        if (includeAccountCurrency) row.push(statement.currency ?? null);
+        rows.push(row);
+      }
+    }
+    return toDelimitedText(rows, delimiter, options, 0);
+  }
+  // Documents without a transaction table are written sheet by sheet, separated by a blank line
+  return sheets
+    .map(sheet => (sheets.length > 1 ? escapeDelimitedField(neutralizeFormula(sheet.name), delimiter) + '\r\n' : '') + toDelimitedText(sheet.data, delimiter, options, null))
+    .join('\r\n\r\n');
+}
+
+function buildJson(sheets: ExcelSheet[], statements: StatementExport[]): string {
+  if (statements.length === 1) {
+    return JSON.stringify(statements[0], null, 2);
+  }
+  if (statements.length > 1) {
+    return JSON.stringify({ accounts: statements }, null, 2);
+  }
+  return JSON.stringify({ sheets: sheets.map(sheet => ({ name: sheet.name, rows: sheet.data })) }, null, 2);
+}
+
+// <NAME> holds at most 32 characters; the full description goes in <MEMO>
+const OFX_NAME_MAX_LENGTH = 32;
+
+function toOfxDate(value: string): string {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? `${match[1]}${match[2]}${match[3]}` : value.replace(/\D/g, '').slice(0, 8);
+}
+
+// QIF and OFX are read line by line, so a line break inside a description would start a new field
+function toSingleLine(text: string): string {
+  return text.replace(/\s*[\r\n]+\s*/g, ' ').trim();
+}
+
+function escapeOfx(text: string): string {
+  return toSingleLine(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Shortens escaped text to an OFX field length without cutting an entity or a surrogate pair in half
+function truncateOfx(escaped: string, maxLength: number): string {
+  if (escaped.length <= maxLength) return escaped;
+  let truncated = escaped.slice(0, maxLength);
+  const entityStart = truncated.lastIndexOf('&');
+  if (entityStart !== -1 && !truncated.includes(';', entityStart)) truncated = truncated.slice(0, entityStart);
+  return /[\uD800-\uDBFF]$/.test(truncated) ? truncated.slice(0, -1) : truncated;
+}
+
+// Foreign-currency rows carry the original currency and the rate to the account currency
+function ofxOriginalCurrency(t: StatementExport['transactions'][number]): string[] {
+  if (!t.originalCurrency || !t.originalAmount || t.amount === 0) return [];
+  const rate = Math.abs(t.amount) / Math.abs(t.originalAmount);
+  return ['<ORIGCURRENCY>', `<CURRATE>${Number(rate.toPrecision(8))}`, `<CURSYM>${escapeOfx(t.originalCurrency)}`, '</ORIGCURRENCY>'];
+}
+
+// One <STMTTRNRS> per account; multi-currency statements get one per sub-account
+function buildOfxStatement(statement: StatementExport, options: ExportOptions, transactionUid: number, now: string, isMultiAccount: boolean): string[] {
+  // Transaction IDs only need the account number when several accounts share the file
+  const fitIdPrefix = isMultiAccount ? String(transactionUid) : '';
+  const dates = statement.transactions.map(t => toOfxDate(t.date)).filter(date => date.length === 8).sort();
+  const lastBalance = [...statement.transactions].reverse().find(t => t.balance !== null)?.balance;
+  const ledgerBalance = statement.closingBalance ?? lastBalance ?? 0;
+
+  const transactionBlocks = statement.transactions.map((t, index) => [
+    '<STMTTRN>',
+    `<TRNTYPE>${t.amount < 0 ? 'DEBIT' : 'CREDIT'}`,
+    `<DTPOSTED>${toOfxDate(t.date)}`,
+    `<TRNAMT>${t.amount.toFixed(2)}`,
+    `<FITID>${toOfxDate(t.date)}${fitIdPrefix}${String(index + 1).padStart(5, '0')}`,
+    `<NAME>${truncateOfx(escapeOfx(t.description), OFX_NAME_MAX_LENGTH)}`,
+    `<MEMO>${escapeOfx(t.description)}`,
+    ...ofxOriginalCurrency(t),
+    '</STMTTRN>',
+  ].join('\n'));
+
+  return [
+    '<STMTTRNRS>',
+    `<TRNUID>${transactionUid}`,
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    '<STMTRS>',
+    `<CURDEF>${(statement.currency || options.currency || 'USD').toUpperCase()}`,
+    '<BANKACCTFROM>',
+    `<BANKID>${escapeOfx(statement.bankName || 'UNKNOWN')}`,
+    `<ACCTID>${escapeOfx(statement.accountNumber || 'UNKNOWN')}`,
+    '<ACCTTYPE>CHECKING',
+    '</BANKACCTFROM>',
+    '<BANKTRANLIST>',
+    `<DTSTART>${dates[0] ?? now}`,
+    `<DTEND>${dates[dates.length - 1] ?? now}`,
+    ...transactionBlocks,
+    '</BANKTRANLIST>',
+    `<LEDGERBAL><BALAMT>${ledgerBalance.toFixed(2)}<DTASOF>${dates[dates.length - 1] ?? now}</LEDGERBAL>`,
+    '</STMTRS>',
+    '</STMTTRNRS>',
+  ];
+}
+
+/**
+ * OFX 1.02 (SGML) bank statement; QFX is the same file with the Intuit bank ID that Quicken expects.
+ * The file is written as UTF-8 (see exportData), which the header declares, so accented payee names survive.
+ */
+function buildOfx(statements: StatementExport[], options: ExportOptions, isQfx: boolean): string {
+  const now = toOfxDate(new Date().toISOString().slice(0, 10));
+
+  return [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:UTF-8',
+    'CHARSET:NONE',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    `<DTSERVER>${now}`,
+    '<LANGUAGE>ENG',
+    ...(isQfx ? ['<INTU.BID>3000'] : []),
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1>',
+    ...statements.flatMap((statement, index) => buildOfxStatement(statement, options, index + 1, now, statements.length > 1)),
+    '</BANKMSGSRSV1>',
+    '</OFX>',
+    '',
+  ].join('\n');
+}
+
+function buildQif(statement: StatementExport, options: ExportOptions): string {
+  const lines = ['!Type:Bank'];
+  for (const t of statement.transactions) {
+    lines.push(
+      `D${formatExportDate(t.date, options.dateFormat)}`,
+      `T${formatNumber(t.amount, options.decimalSeparator)}`,
+      `P${toSingleLine(t.description)}`,
+      '^'
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Builds the file contents for a non-Excel format. Throws when the format needs a transaction table
+ * and the data has none (e.g. generic tables or invoices exported as OFX).
+ */
+export function buildExportContent(
+  data: Grid | ExcelSheet[],
+  format: Exclude<ExportFormat, 'xlsx'>,
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS
+): string {
+  const sheets: ExcelSheet[] = isSheetList(data) ? data : [{ name: 'Sheet1', data, kind: 'statement' }];
+  const statements: StatementExport[] = [];
+  for (const sheet of sheets) {
+    const statement = sheet.kind === 'table' ? null : readStatementFromGrid(sheet.data);
+    if (statement) statements.push({ ...statement, currency: statement.currency ?? sheet.currency });
+  }
+  const formatLabel = getExportFormatInfo(format).label;
+
+  if (getExportFormatInfo(format).requiresTransactions && statements.every(statement => statement.transactions.length === 0)) {
+    throw new Error(`${formatLabel} export needs a bank statement with a transaction table.`);
+  }
+  // QIF files and accounting imports hold a single account
+  if ((format === 'qif' || format === 'accountingCsv') && statements.length > 1) {
+    throw new Error(`${formatLabel} export holds one account, but this statement has ${statements.length} currency sub-accounts. Use Excel, CSV, JSON or OFX instead.`);
+  }
+
+  switch (format) {
+    case 'csv': return buildDelimited(sheets, statements, options.delimiter, options);
+    case 'tsv': return buildDelimited(sheets, statements, '\t', options);
+    case 'json': return buildJson(sheets, statements);
+    case 'ofx': return buildOfx(statements, options, false);
+    case 'qfx': return buildOfx(statements, options, true);
+    case 'qif': return buildQif(statements[0], options);
+    case 'accountingCsv': {
+      if (!options.profile) {
+        throw new Error('Choose an accounting software profile for this export.');
+      }
+      // Dates are already laid out by the profile, so no date column is reformatted here
+      const rows = formatTransactionsForProfile(statements[0].transactions, options.profile);
+      return toDelimitedText(rows, options.profile.delimiter, { ...options, decimalSeparator: '.' }, null);
+    }
+  }
+}
+
+/**
+ * Downloads the data in the chosen format. Excel goes through exportToExcel; the other formats are written as text.
+ */
+export function exportData(
+  data: Grid | ExcelSheet[],
+  format: ExportFormat,
+  fileName: string,
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS
+): void {
+  const targetName = withExportExtension(fileName, format);
+  if (format === 'xlsx') {
+    exportToExcel(data, targetName);
+    return;
+  }
+  const blob = new Blob([buildExportContent(data, format, options)], { type: `${getExportFormatInfo(format).mimeType};charset=utf-8` });
+  downloadBlob(blob, targetName);
+}
+
+function isSheetList(data: Grid | ExcelSheet[]): data is ExcelSheet[] {
+  return data.length > 0 && !Array.isArray(data[0]);
+}
@@ -0,0 +1,202 @@
+import type { LayoutLine, LayoutPage } from '@/lib/pdf-layout';
+import { layoutPageToText } from '@/lib/pdf-layout';
+import { readStatementFromGrid, type StatementTransaction } from '@/lib/statement-grid';
+import {
+  matchHeaderRow,
+  parseAmountCell,
+  type ColumnRole,
+  type LayoutTableTemplate,
+  type TemplateColumn,
+} from '@/lib/rule-based-extraction';
+import { buildMonthNames, detectStatementLocale, parseStatementDate, type DateOrder } from '@/lib/statement-normalization';
+
+/**
+ * Per-bank extraction templates. A template is learned from a conversion the user has checked and
+ * corrected in the preview: the corrected transactions are found again in the page layout, which tells
+ * where each column sits, how dates are written and which lines inside the table are not transactions.
+ * Later uploads of the same bank or layout are read with the template instead of the AI prompt.
+ */
+
+type Grid = Array<Array<string | number | null>>;
+
+export interface ExtractionTemplate extends LayoutTableTemplate {
+  id: string;
+  name: string;
+  bankName?: string; // Matched against the first page of later uploads
+  fingerprint: string | null; // See layoutFingerprint; null when the layout has no recognisable header row
+  updatedAt: number; // Milliseconds since the epoch
+}
+
+export type ExtractionTemplateDraft = Omit<ExtractionTemplate, 'id' | 'updatedAt'>;
+
+// A template needs this many transactions found in the layout before it is trusted
+const MIN_MATCHED_TRANSACTIONS = 3;
+// Corrected transactions are looked for this many places ahead, so a deleted or missed line does not stop matching
+const MATCH_LOOKAHEAD = 3;
+
+function lineText(line: LayoutLine): string {
+  return line.segments.map(segment => segment.text).join(' ');
+}
+
+function normaliseText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function sameAmount(a: number | null | undefined, b: number | null | undefined): boolean {
+  return a !== null && a !== undefined && b !== null && b !== undefined && Math.abs(Math.abs(a) - Math.abs(b)) < 0.005;
+}
+
+// A pattern for a line's text with its numbers generalised, e.g. "Page \d+ of \d+"
+function toSkipPattern(text: string): string {
+  const escaped = normaliseText(text).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return `^${escaped.replace(/\d+/g, '\\d+').replace(/ /g, '\\s+')}$`;
+}
+
+/**
+ * Identifies a statement layout by the texts of its transaction table header and its number of columns,
+ * e.g. "date|description|paid out|paid in|balance". Returns null when no header row is found.
+ */
+export function layoutFingerprint(pages: LayoutPage[]): string | null {
+  for (const page of pages) {
+    const header = page.rows.find(cells => cells.length > 1 && matchHeaderRow(cells) !== null);
+    if (header) return header.map(normaliseText).join('|');
+  }
+  return null;
+}
+
+/**
+ * The template for an upload: the one saved for the same layout, else the one whose bank name
+ * appears on the first page.
+ */
+export function findMatchingTemplate(templates: ExtractionTemplate[], pages: LayoutPage[]): ExtractionTemplate | null {
+  if (templates.length === 0 || pages.length === 0) return null;
+  const fingerprint = layoutFingerprint(pages);
+  const byLayout = fingerprint ? templates.find(template => template.fingerprint === fingerprint) : undefined;
+  if (byLayout) return byLayout;
+  const firstPage = normaliseText(layoutPageToText(pages[0]));
+  return templates.find(template => template.bankName && firstPage.includes(normaliseText(template.bankName))) ?? null;
+}
+
+/**
+ * Learns a template from the page layout of a converted statement and the grid as the user corrected it.
+ * Returns null when the grid is not a statement or too few of its transactions can be found in the layout.
+ */
+export function learnExtractionTemplate(pages: LayoutPage[], grid: Grid, name: string): ExtractionTemplateDraft | null {
+  const statement = readStatementFromGrid(grid);
+  if (!statement || statement.transactions.length < MIN_MATCHED_TRANSACTIONS) return null;
+
+  const locale = detectStatementLocale(pages.map(layoutPageToText).join('\n\n'), { currency: statement.currency });
+  const monthNames = buildMonthNames(locale.language);
+  const extents = new Map<ColumnRole, { left: number; right: number }>();
+  const dateOrderVotes: Record<DateOrder, number> = { DMY: 0, MDY: 0 };
+  const skipPatterns = new Set<string>();
+  let headerAnchors: string[] = [];
+  let matchedCount = 0;
+  const remaining: StatementTransaction[] = [...statement.transactions];
+
+  const extend = (role: ColumnRole, left: number, right: number) => {
+    const extent = extents.get(role);
+    extents.set(role, extent ? { left: Math.min(extent.left, left), right: Math.max(extent.right, right) } : { left, right });
+  };
+  const amountsOf = (line: LayoutLine) => line.segments.map(segment => parseAmountCell(segment.text, locale.decimalSeparator)?.value);
+
+  // A table line is a corrected transaction when it shows one of its amounts and part of its description
+  const findTransaction = (line: LayoutLine): number => {
+    const amounts = amountsOf(line);
+    return remaining.slice(0, MATCH_LOOKAHEAD).findIndex(transaction => {
+      const description = normaliseText(transaction.description);
+      const hasAmount = amounts.some(value => sameAmount(value, transaction.debit) || sameAmount(value, transaction.credit));
+      const hasDescription = line.segments.some(segment => {
+        const text = normaliseText(segment.text);
+        return text.length >= 3 && (description.includes(text) || text.includes(description));
+      });
+      return hasAmount && hasDescription;
+    });
+  };
+
+  for (const page of pages) {
+    const matchedLines: number[] = [];
+    page.lines.forEach((line, lineIndex) => {
+      if (line.segments.length < 2) return;
+      const found = findTransaction(line);
+      if (found === -1) return;
+      const [transaction] = remaining.splice(found, 1);
+      matchedLines.push(lineIndex);
+      matchedCount++;
+
+      const year = Number(transaction.date.slice(0, 4)) || null;
+      const amounts = amountsOf(line);
+      const debitIsCredit = sameAmount(transaction.debit, transaction.credit);
+      line.segments.forEach((segment, index) => {
+        const right = segment.x + segment.width;
+        const value = amounts[index];
+        if (!debitIsCredit && sameAmount(value, transaction.debit)) {
+          extend('debit', segment.x, right);
+        } else if (!debitIsCredit && sameAmount(value, transaction.credit)) {
+          extend('credit', segment.x, right);
+        } else if (sameAmount(value, transaction.balance)) {
+          extend('balance', segment.x, right);
+        } else {
+          const orders = (['DMY', 'MDY'] as DateOrder[])
+            .filter(dateOrder => parseStatementDate(segment.text, { ...locale, dateOrder }, year, monthNames) === transaction.date);
+          if (orders.length > 0) {
+            extend('date', segment.x, right);
+            if (orders.length === 1) dateOrderVotes[orders[0]]++;
+          } else if (normaliseText(transaction.description).includes(normaliseText(segment.text))) {
+            extend('description', segment.x, right);
+          }
+        }
+      });
+    });
+    if (matchedLines.length === 0) continue;
+
+    if (headerAnchors.length === 0) {
+      // The header is the nearest line above the first transaction with several cells and no amounts
+      const header = page.lines.slice(0, matchedLines[0]).reverse()
+        .find(line => line.segments.length > 1 && amountsOf(line).every(value => value === undefined));
+      headerAnchors = header ? header.segments.map(segment => normaliseText(segment.text)) : [];
+    }
+    // Table lines the user removed from the result are skipped next time; lines showing an amount of a
+    // corrected transaction are kept, as the user may only have edited their description
+    for (let lineIndex = matchedLines[0] + 1; lineIndex < matchedLines[matchedLines.length - 1]; lineIndex++) {
+      const line = page.lines[lineIndex];
+      const showsTransactionAmount = amountsOf(line).some(value =>
+        statement.transactions.some(transaction => sameAmount(value, transaction.debit) || sameAmount(value, transaction.credit)));
+      if (line.segments.length > 1 && !matchedLines.includes(lineIndex) && !showsTransactionAmount) {
+        skipPatterns.add(toSkipPattern(lineText(line)));
+      }
+    }
+  }
+
+  // Debits and credits written in the same place are one signed amount column
+  const debit = extents.get('debit');
+  const credit = extents.get('credit');
+  if (debit && credit && debit.left < credit.right && credit.left < debit.right) {
+    extents.delete('debit');
+    extents.delete('credit');
+    extents.set('amount', { left: Math.min(debit.left, credit.left), right: Math.max(debit.right, credit.right) });
+  }
+
+  const hasAmounts = extents.has('debit') || extents.has('credit') || extents.has('amount');
+  if (matchedCount < MIN_MATCHED_TRANSACTIONS || !extents.has('date') || !extents.has('description') || !hasAmounts) {
+    return null;
+  }
+
+  const columns: TemplateColumn[] = [...extents.entries()]
+    .map(([role, extent]) => ({ role, ...extent }))
+    .sort((a, b) => a.left - b.left);
+  const dateOrder: DateOrder = dateOrderVotes.DMY !== dateOrderVotes.MDY
+    ? (dateOrderVotes.DMY > dateOrderVotes.MDY ? 'DMY' : 'MDY')
+    : locale.dateOrder;
+
+  return {
+    name,
+    bankName: statement.bankName,
+    fingerprint: layoutFingerprint(pages),
+    columns,
+    headerAnchors,
+    dateOrder,
+    decimalSeparator: locale.decimalSeparator,
+    skipPatterns: [...skipPatterns],
+  };
+}
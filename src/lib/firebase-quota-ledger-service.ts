@@ -0,0 +1,356 @@
+import * as admin from 'firebase-admin';
+import { getFirebaseAdminApp } from '@/lib/firebase-admin-config';
+import { logError } from '@/lib/error-handler';
+import { providerErrorStatus } from '@/ai/provider-errors';
+import { PermissionError, ValidationError } from '@/types/errors';
+import type { ActivePlan, LimitStatus, PlanDetails } from '@/types/conversion-quota';
+
+// This file is for SERVER-SIDE use only.
+// The ledger is the single source of truth for conversion quota; clients have no Firestore access to it.
+
+const QUOTA_LEDGER_COLLECTION = 'conversion_quotas';
+const CONVERSION_GRANT_COLLECTION = 'conversion_grants';
+
+// The number of free conversions allowed.
+const MAX_GUEST_CONVERSIONS = 1;
+const MAX_LOGGED_IN_CONVERSIONS = 5;
+
+// The time window for the free tier limit, in milliseconds (24 hours).
+const FREE_TIER_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const MONTH_MS = 30 * 24 * 60 * 60 * 1000; // Approx 30 days
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000; // Approx 365 days
+const TRIAL_DURATION_MS = (days: number) => days * 24 * 60 * 60 * 1000;
+
+// A grant covers one document: its OCR, classification and structuring calls, and rescans of missed pages
+// while the result is open. Its call limit follows the page count the conversion was reserved for,
+// so one paid conversion cannot be stretched over other documents.
+const CONVERSION_GRANT_TTL_MS = 2 * 60 * 60 * 1000; // 2 hours
+const MAX_PAGES_PER_CONVERSION = 500;
+const AI_CALLS_PER_PAGE = 8; // Reading and structuring the page, and a few rescans or OCR comparisons of it
+const AI_CALLS_PER_DOCUMENT = 4; // Classification and the structuring call of a short document
+
+interface QuotaLedgerDocument {
+  plan: ActivePlan | null;
+  freeTierConversions: number[]; // Timestamps of free tier conversions
+  activatedSubscriptionIds: string[]; // PayPal subscriptions that have started a plan; each may do so once
+  updatedAt?: admin.firestore.FieldValue;
+}
+
+// Issued when a conversion is reserved; the AI server actions only run for a valid grant
+interface ConversionGrantDocument {
+  ledgerId: string;
+  chargedAt: number; // When the conversion was charged; for the free tier also its entry in freeTierConversions
+  planActivatedAt?: number; // Set when the conversion was charged to a plan: the start of that billing period
+  pageCount: number; // Pages of the document the conversion was reserved for
+  expiresAt: number;
+  aiCalls: number;
+  completedAiCalls: number;
+  failedAiCalls: number; // AI calls the provider could not answer (overloaded, rate-limited, timed out)
+  released: boolean; // The conversion was given back; the grant can no longer be used
+}
+
+export interface QuotaLedgerOwner {
+  ledgerId: string;
+  isGuest: boolean;
+}
+
+function getLedgerRef(ledgerId: string) {
+  return getFirebaseAdminApp().firestore().collection(QUOTA_LEDGER_COLLECTION).doc(ledgerId);
+}
+
+function readLedger(snapshot: admin.firestore.DocumentSnapshot): QuotaLedgerDocument {
+  const data = snapshot.exists ? (snapshot.data() as Partial<QuotaLedgerDocument>) : {};
+  return {
+    plan: data.plan ?? null,
+    freeTierConversions: Array.isArray(data.freeTierConversions) ? data.freeTierConversions : [],
+    activatedSubscriptionIds: Array.isArray(data.activatedSubscriptionIds) ? data.activatedSubscriptionIds : [],
+  };
+}
+
+/**
+ * Returns the plan if its billing period is still running, otherwise null.
+ */
+function getCurrentPlan(ledger: QuotaLedgerDocument, now: number): ActivePlan | null {
+  const plan = ledger.plan;
+  if (!plan) return null;
+  const planDuration = plan.billingCycle === 'monthly' ? MONTH_MS : YEAR_MS;
+  return now - plan.activatedAt > planDuration ? null : plan;
+}
+
+function getRecentFreeTierConversions(ledger: QuotaLedgerDocument, now: number): number[] {
+  return ledger.freeTierConversions.filter(timestamp => (now - timestamp) < FREE_TIER_WINDOW_MS);
+}
+
+/**
+ * Computes the limit status from a ledger snapshot.
+ * A running paid plan always takes precedence over the free tier.
+ */
+function computeLimitStatus(
+  ledger: QuotaLedgerDocument,
+  isGuest: boolean,
+  conversionsRequested: number,
+  now: number
+): LimitStatus {
+  const activePlan = isGuest ? null : getCurrentPlan(ledger, now);
+
+  if (activePlan) {
+    const isCurrentlyInTrial = !!(activePlan.isTrial && activePlan.trialEndsAt && now < activePlan.trialEndsAt);
+    const remainingPlanConversions = activePlan.totalConversions - activePlan.usedConversions;
+    const allowed = remainingPlanConversions >= conversionsRequested;
+    return {
+      allowed,
+      remaining: remainingPlanConversions,
+      onPlan: true,
+      planName: activePlan.name,
+      isPlanExhausted: allowed ? undefined : true,
+      isTrial: isCurrentlyInTrial,
+      trialEndsAt: activePlan.trialEndsAt,
+    };
+  }
+
+  const freeTierLimit = isGuest ? MAX_GUEST_CONVERSIONS : MAX_LOGGED_IN_CONVERSIONS;
+  const recentConversions = getRecentFreeTierConversions(ledger, now);
+  const remainingConversions = freeTierLimit - recentConversions.length;
+
+  if (remainingConversions >= conversionsRequested) {
+    return { allowed: true, remaining: remainingConversions, onPlan: false, isTrial: false };
+  }
+
+  // If limit is reached, calculate time until the oldest conversion expires.
+  const oldestTimestamp = recentConversions.length > 0 ? Math.min(...recentConversions) : now;
+  return {
+    allowed: false,
+    remaining: Math.max(0, remainingConversions),
+    timeToWaitMs: Math.max(0, (oldestTimestamp + FREE_TIER_WINDOW_MS) - now),
+    onPlan: false,
+    isTrial: false,
+  };
+}
+
+/**
+ * Reads the current limit status for a ledger without changing it.
+ */
+export async function getQuotaLimitStatus(owner: QuotaLedgerOwner, conversionsRequested: number = 1): Promise<LimitStatus> {
+  try {
+    const snapshot = await getLedgerRef(owner.ledgerId).get();
+    return computeLimitStatus(readLedger(snapshot), owner.isGuest, conversionsRequested, Date.now());
+  } catch (error) {
+    logError(error, { operation: 'getQuotaLimitStatus', ledgerId: owner.ledgerId });
+    throw error;
+  }
+}
+
+/**
+ * Atomically reserves one conversion of a document with `pageCount` pages and issues the grant the AI server
+ * actions require for it. Nothing is written when the quota is used up; the returned status then has
+ * `allowed: false` and no grant. On success `remaining` reflects the new balance.
+ */
+export async function reserveConversion(
+  owner: QuotaLedgerOwner,
+  pageCount: number
+): Promise<{ status: LimitStatus; grantId: string | null }> {
+  if (!Number.isInteger(pageCount) || pageCount < 1 || pageCount > MAX_PAGES_PER_CONVERSION) {
+    throw new ValidationError(`A conversion covers 1 to ${MAX_PAGES_PER_CONVERSION} pages.`, 'pageCount', pageCount);
+  }
+  const firestore = getFirebaseAdminApp().firestore();
+  const ledgerRef = getLedgerRef(owner.ledgerId);
+  const grantRef = firestore.collection(CONVERSION_GRANT_COLLECTION).doc();
+  try {
+    return await firestore.runTransaction(async (transaction) => {
+      const now = Date.now();
+      const ledger = readLedger(await transaction.get(ledgerRef));
+      const status = computeLimitStatus(ledger, owner.isGuest, 1, now);
+      if (!status.allowed) {
+        return { status, grantId: null };
+      }
+
+      const activePlan = owner.isGuest ? null : getCurrentPlan(ledger, now);
+      const updatedLedger: QuotaLedgerDocument = activePlan
+        ? {
+            plan: { ...activePlan, usedConversions: activePlan.usedConversions + 1 },
+            freeTierConversions: getRecentFreeTierConversions(ledger, now),
+            activatedSubscriptionIds: ledger.activatedSubscriptionIds,
+          }
+        : {
+            plan: ledger.plan,
+            activatedSubscriptionIds: ledger.activatedSubscriptionIds,
+            freeTierConversions: [...getRecentFreeTierConversions(ledger, now), now],
+          };
+      const grant: ConversionGrantDocument = {
+        ledgerId: owner.ledgerId,
+        chargedAt: now,
+        ...(activePlan ? { planActivatedAt: activePlan.activatedAt } : {}),
+        pageCount,
+        expiresAt: now + CONVERSION_GRANT_TTL_MS,
+        aiCalls: 0,
+        completedAiCalls: 0,
+        failedAiCalls: 0,
+        released: false,
+      };
+
+      transaction.set(ledgerRef, {
+        ...updatedLedger,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      transaction.set(grantRef, grant);
+      return { status: { ...status, remaining: status.remaining - 1 }, grantId: grantRef.id };
+    });
+  } catch (error) {
+    logError(error, { operation: 'reserveConversion', ledgerId: owner.ledgerId });
+    throw error;
+  }
+}
+
+/**
+ * Counts one AI call against a grant of the owner's ledger. Throws a PermissionError when the grant is unknown,
+ * of another ledger, expired, released or has used up its calls, so the AI is never called for a conversion
+ * the caller did not pay for.
+ */
+async function spendConversionGrant(owner: QuotaLedgerOwner, grantId: string): Promise<void> {
+  const firestore = getFirebaseAdminApp().firestore();
+  if (typeof grantId !== 'string' || !grantId) {
+    throw new PermissionError("This conversion was not started properly. Please convert the file again.", CONVERSION_GRANT_COLLECTION, 'use');
+  }
+  const grantRef = firestore.collection(CONVERSION_GRANT_COLLECTION).doc(grantId);
+  await firestore.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(grantRef);
+    const grant = snapshot.data() as ConversionGrantDocument | undefined;
+    if (!grant || grant.ledgerId !== owner.ledgerId || grant.released) {
+      throw new PermissionError("This conversion was not started properly. Please convert the file again.", CONVERSION_GRANT_COLLECTION, 'use');
+    }
+    const maxAiCalls = grant.pageCount * AI_CALLS_PER_PAGE + AI_CALLS_PER_DOCUMENT;
+    if (Date.now() > grant.expiresAt || grant.aiCalls >= maxAiCalls) {
+      throw new PermissionError("This conversion has expired. Please convert the file again.", CONVERSION_GRANT_COLLECTION, 'use');
+    }
+    transaction.update(grantRef, { aiCalls: admin.firestore.FieldValue.increment(1) });
+  });
+}
+
+/**
+ * Runs an AI call for the conversion a grant was issued for, on behalf of the grant's owner.
+ * The AI server actions call their flows through this.
+ */
+export async function runWithConversionGrant<T>(owner: QuotaLedgerOwner, grantId: string, call: () => Promise<T>): Promise<T> {
+  await spendConversionGrant(owner, grantId);
+  const grantRef = getFirebaseAdminApp().firestore().collection(CONVERSION_GRANT_COLLECTION).doc(grantId);
+  const recordCall = (field: 'completedAiCalls' | 'failedAiCalls') => grantRef
+    .update({ [field]: admin.firestore.FieldValue.increment(1) })
+    .catch(error => logError(error, { operation: 'runWithConversionGrant', grantId }));
+  let result: T;
+  try {
+    result = await call();
+  } catch (error) {
+    // Provider failures are what a release gives the conversion back for; the client cannot cause them at will
+    if (providerErrorStatus(error) !== null) await recordCall('failedAiCalls');
+    throw error;
+  }
+  // A grant with a completed AI call can no longer be released, so the result cannot be had for free
+  await recordCall('completedAiCalls');
+  return result;
+}
+
+/**
+ * Gives back the conversion a grant reserved when the server saw it fail: an AI call of the grant failed at
+ * the provider and none completed. The client's word is not enough, since conversions read without the AI
+ * (with a template or the rule-based reader) succeed without the server knowing. Grants of another ledger,
+ * and all other grants, are left as they are.
+ * @returns Whether the conversion was given back.
+ */
+export async function releaseConversion(owner: QuotaLedgerOwner, grantId: string): Promise<boolean> {
+  const firestore = getFirebaseAdminApp().firestore();
+  const ledgerRef = getLedgerRef(owner.ledgerId);
+  const grantRef = firestore.collection(CONVERSION_GRANT_COLLECTION).doc(grantId);
+  try {
+    return await firestore.runTransaction(async (transaction) => {
+      const [grantSnapshot, ledgerSnapshot] = await Promise.all([transaction.get(grantRef), transaction.get(ledgerRef)]);
+      const grant = grantSnapshot.data() as ConversionGrantDocument | undefined;
+      if (!grant || grant.ledgerId !== owner.ledgerId || grant.released || grant.completedAiCalls > 0 || !grant.failedAiCalls) {
+        return false;
+      }
+
+      const ledger = readLedger(ledgerSnapshot);
+      const updates: Partial<QuotaLedgerDocument> = {};
+      if (grant.planActivatedAt !== undefined) {
+        // Only usage of the billing period the conversion was charged to is given back
+        if (ledger.plan && ledger.plan.activatedAt === grant.planActivatedAt && ledger.plan.usedConversions > 0) {
+          updates.plan = { ...ledger.plan, usedConversions: ledger.plan.usedConversions - 1 };
+        }
+      } else {
+        const index = ledger.freeTierConversions.indexOf(grant.chargedAt);
+        if (index !== -1) {
+          updates.freeTierConversions = ledger.freeTierConversions.filter((_, i) => i !== index);
+        }
+      }
+
+      transaction.update(grantRef, { released: true });
+      if (Object.keys(updates).length > 0) {
+        transaction.set(ledgerRef, { ...updates, updatedAt: admin.firestore.FieldValue.serverTimestamp() }, { merge: true });
+      }
+      return true;
+    });
+  } catch (error) {
+    logError(error, { operation: 'releaseConversion', ledgerId: owner.ledgerId, grantId });
+    throw error;
+  }
+}
+
+/**
+ * Starts a new billing period for a user's plan. Usage from any previous period is discarded.
+ * Each subscription starts a plan once: activating it again returns the plan it started, with its usage,
+ * while it is the current plan, and is refused after another subscription has replaced it.
+ */
+export async function activateQuotaPlan(
+  userId: string,
+  planDetails: PlanDetails,
+  subscriptionId: string
+): Promise<ActivePlan> {
+  const ledgerRef = getLedgerRef(userId);
+  try {
+    return await getFirebaseAdminApp().firestore().runTransaction(async (transaction) => {
+      const ledger = readLedger(await transaction.get(ledgerRef));
+      if (ledger.activatedSubscriptionIds.includes(subscriptionId)) {
+        if (ledger.plan?.subscriptionId === subscriptionId) {
+          return ledger.plan;
+        }
+        throw new ValidationError("This subscription has already been used to activate a plan.", 'subscriptionId', subscriptionId);
+      }
+
+      const now = Date.now();
+      const hasTrial = !!(planDetails.trialDays && planDetails.trialDays > 0);
+      const newPlan: ActivePlan = {
+        name: planDetails.name,
+        planId: planDetails.id,
+        totalConversions: planDetails.conversions,
+        usedConversions: 0,
+        activatedAt: now,
+        billingCycle: planDetails.cycle,
+        isTrial: hasTrial,
+        ...(hasTrial ? { trialEndsAt: now + TRIAL_DURATION_MS(planDetails.trialDays!) } : {}),
+        subscriptionId,
+      };
+      transaction.set(ledgerRef, {
+        plan: newPlan,
+        activatedSubscriptionIds: [...ledger.activatedSubscriptionIds, subscriptionId],
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, { merge: true });
+      return newPlan;
+    });
+  } catch (error) {
+    logError(error, { operation: 'activateQuotaPlan', userId, subscriptionId });
+    throw error;
+  }
+}
+
+/**
+ * Returns the user's plan for the current billing period, or null if there is none.
+ */
+export async function getQuotaActivePlan(userId: string): Promise<ActivePlan | null> {
+  try {
+    const snapshot = await getLedgerRef(userId).get();
+    return getCurrentPlan(readLedger(snapshot), Date.now());
+  } catch (error) {
+    logError(error, { operation: 'getQuotaActivePlan', userId });
+    throw error;
+  }
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { collection, doc, getDocs, setDoc, Timestamp } from 'firebase/firestore';
+import { firestore } from './firebase';
+import type { ExtractionTemplate, ExtractionTemplateDraft } from '@/lib/extraction-templates';
+
+const USERS_COLLECTION = 'users';
+const TEMPLATES_SUBCOLLECTION = 'extractionTemplates';
+
+// Firestore stores the template as it is, with updatedAt as a Timestamp
+type StoredTemplate = Omit<ExtractionTemplate, 'id' | 'updatedAt'> & { updatedAt: Timestamp };
+
+function templatesCollection(userId: string) {
+  return collection(firestore, USERS_COLLECTION, userId, TEMPLATES_SUBCOLLECTION);
+}
+
+/**
+ * Fetches the extraction templates a user has saved, most recently updated first.
+ * @param userId The UID of the logged-in user.
+ */
+export async function getExtractionTemplates(userId: string): Promise<ExtractionTemplate[]> {
+  if (!userId) return [];
+  const snapshot = await getDocs(templatesCollection(userId));
+  return snapshot.docs
+    .map(templateDoc => {
+      const data = templateDoc.data() as StoredTemplate;
+      return { ...data, id: templateDoc.id, updatedAt: data.updatedAt?.toMillis?.() ?? 0 };
+    })
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Saves a template for the user. A template for the same layout or bank is replaced,
+ * so saving again after further corrections updates it instead of adding a duplicate.
+ * @param userId The UID of the logged-in user.
+ * @param draft The learned template.
+ * @param existing The user's saved templates, as returned by getExtractionTemplates.
+ * @returns The saved template.
+ */
+export async function saveExtractionTemplate(
+  userId: string,
+  draft: ExtractionTemplateDraft,
+  existing: ExtractionTemplate[]
+): Promise<ExtractionTemplate> {
+  if (!userId) {
+    throw new Error("You must be logged in to save templates.");
+  }
+  const replaced = existing.find(template =>
+    (draft.fingerprint && template.fingerprint === draft.fingerprint) ||
+    (draft.bankName && template.bankName?.toLowerCase() === draft.bankName.toLowerCase())
+  );
+  const templateRef = replaced ? doc(templatesCollection(userId), replaced.id) : doc(templatesCollection(userId));
+  const updatedAt = Timestamp.now();
+  // Firestore rejects undefined fields
+  const stored = JSON.parse(JSON.stringify(draft)) as ExtractionTemplateDraft;
+  const data: StoredTemplate = { ...stored, updatedAt };
+  await setDoc(templateRef, data);
+  return { ...stored, id: templateRef.id, updatedAt: updatedAt.toMillis() };
+}
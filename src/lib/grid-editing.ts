@@ -0,0 +1,88 @@
+/**
+ * Pure, immutable edit operations for the spreadsheet-style grid in DataPreview.
+ * Every operation returns a new grid and only copies the rows it changes, so undo history stays cheap.
+ */
+
+export type GridCell = string | number | null;
+export type Grid = GridCell[][];
+
+export interface CellPosition {
+  row: number;
+  col: number;
+}
+
+/**
+ * Excel-style column label: 0 → "A", 25 → "Z", 26 → "AA".
+ */
+export function columnLabel(index: number): string {
+  let label = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return label;
+}
+
+/**
+ * Turns typed, pasted or extracted text into a cell value. Plain numbers such as "1,234.56" become numbers;
+ * identifiers with leading zeros, dates and text stay strings, and empty input clears the cell.
+ */
+export function parseCellInput(input: string): GridCell {
+  const trimmed = input.trim();
+  if (trimmed === '') return null;
+  const withoutSeparators = trimmed.replace(/,(?=\d{3}(\D|$))/g, '');
+  if (/^-?\d+(\.\d+)?$/.test(withoutSeparators) && !/^-?0\d/.test(withoutSeparators)) {
+    return Number(withoutSeparators);
+  }
+  return trimmed;
+}
+
+/**
+ * Splits clipboard text copied from a spreadsheet (tab-separated columns, one line per row) into a block of values.
+ */
+export function parseClipboardText(text: string): GridCell[][] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  if (lines.length > 1 && lines[lines.length - 1] === '') {
+    lines.pop(); // Spreadsheets end copied ranges with a trailing newline
+  }
+  return lines.map(line => line.split('\t').map(parseCellInput));
+}
+
+export function setCell(grid: Grid, row: number, col: number, value: GridCell): Grid {
+  if (grid[row]?.[col] === value) return grid;
+  const next = grid.slice();
+  const updatedRow = (next[row] ?? []).slice();
+  while (updatedRow.length < col) updatedRow.push(null);
+  updatedRow[col] = value;
+  next[row] = updatedRow;
+  return next;
+}
+
+export function insertRow(grid: Grid, at: number, columnCount: number): Grid {
+  const next = grid.slice();
+  next.splice(Math.max(0, Math.min(at, grid.length)), 0, Array.from({ length: columnCount }, () => null));
+  return next;
+}
+
+export function deleteRow(grid: Grid, at: number): Grid {
+  if (at < 0 || at >= grid.length) return grid;
+  const next = grid.slice();
+  next.splice(at, 1);
+  return next;
+}
+
+/**
+ * Writes a pasted block with its top-left corner at `start`, adding rows at the end when it runs past them.
+ */
+export function pasteBlock(grid: Grid, start: CellPosition, block: GridCell[][]): Grid {
+  const next = grid.slice();
+  block.forEach((values, offset) => {
+    const rowIndex = start.row + offset;
+    const updatedRow = (next[rowIndex] ?? []).slice();
+    while (updatedRow.length < start.col) updatedRow.push(null);
+    values.forEach((value, colOffset) => {
+      updatedRow[start.col + colOffset] = value;
+    });
+    next[rowIndex] = updatedRow;
+  });
+  return next;
+}
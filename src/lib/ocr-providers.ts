@@ -0,0 +1,229 @@
+import { buildPageLayout, type LayoutPage, type PositionedTextItem } from '@/lib/pdf-layout';
+import { callServer } from '@/lib/server-calls';
+import { getConversionGrantCredentials, type ConversionGrant } from '@/lib/conversion-limits';
+import { OCR_CONCURRENCY } from '@/lib/ocr-scheduler';
+import { DEFAULT_OCR_LANGUAGES } from '@/config/ocr-languages';
+import { NetworkError } from '@/types/errors';
+
+/**
+ * The OCR engines a scanned page can be read with, behind one interface: the AI model on the server,
+ * and Tesseract compiled to WebAssembly, which runs in the browser so page images never leave the device
+ * (privacy mode). Both can read the same page for a side-by-side comparison of their output.
+ */
+
+export type OcrProviderId = 'ai' | 'tesseract';
+
+export interface OcrRecognition {
+  text: string;
+  layout?: LayoutPage; // Set by providers that know where each word is; PDF points, like the text layer's layout
+}
+
+export interface OcrProvider {
+  id: OcrProviderId;
+  label: string;
+  isLocal: boolean; // Page images are read in the browser and never uploaded
+  renderScale: number; // The page render scale the provider reads best at
+  concurrency: number; // Pages the provider reads at the same time
+  recognize(imageUri: string): Promise<OcrRecognition>;
+  /** Releases the provider's workers; it cannot be used afterwards. */
+  dispose(): Promise<void>;
+}
+
+export interface OcrProviderOptions {
+  languages?: string[]; // Tesseract language codes; the AI reads any language
+  concurrency?: number;
+  conversionGrant?: ConversionGrant; // The grant of the conversion the pages belong to; required by the AI
+}
+
+const TESSERACT_ASSETS_ROOT = '/tesseract';
+// Tesseract is most accurate at around 150-300 dpi; pages are rendered at 72 dpi times the scale
+const TESSERACT_RENDER_SCALE = 2.5;
+// Each Tesseract worker holds a WebAssembly instance and the language data, so only a few run at once
+const TESSERACT_MAX_WORKERS = 2;
+// Tesseract's LSTM engine, the most accurate one; the worker then loads the matching core
+const TESSERACT_OEM_LSTM_ONLY = 1;
+
+/** Reads pages with the AI model through a server action. */
+export async function createAiOcrProvider(options: OcrProviderOptions = {}): Promise<OcrProvider> {
+  const { conversionGrant } = options;
+  if (!conversionGrant) {
+    throw new Error("AI OCR can only read the pages of a reserved conversion.");
+  }
+  const { extractTextFromImage: extractTextFromImageAI } = await import('@/ai/flows/extract-text-from-image');
+  return {
+    id: 'ai',
+    label: 'AI OCR',
+    isLocal: false,
+    renderScale: 1,
+    concurrency: options.concurrency ?? OCR_CONCURRENCY,
+    async recognize(imageUri) {
+      const result = await callServer("Scanning pages", async () => extractTextFromImageAI({ photoDataUri: imageUri }, await getConversionGrantCredentials(conversionGrant)));
+      return { text: result?.extractedText ?? '' };
+    },
+    async dispose() {},
+  };
+}
+
+// The worker, cores and language packs copied by scripts/copy-tesseract-assets.mjs, in the directory of the copied version
+async function resolveTesseractAssets(
+  languages: string[]
+): Promise<{ workerPath: string; corePath: string; langPath: string }> {
+  const manifestUrl = `${TESSERACT_ASSETS_ROOT}/manifest.json`;
+  let response: Response;
+  try {
+    response = await fetch(manifestUrl, { cache: 'no-cache' });
+  } catch {
+    throw new NetworkError('On-device OCR could not be loaded. Please check your connection and try again.', undefined, manifestUrl);
+  }
+  if (!response.ok) {
+    throw new NetworkError('The on-device OCR files are missing from this site. Please contact support.', response.status, manifestUrl);
+  }
+  const { version, languages: available = [] } = await response.json() as { version?: string; languages?: string[] };
+  const missing = languages.filter(language => !available.includes(language));
+  if (missing.length > 0) {
+    throw new NetworkError(
+      `The on-device OCR language packs (${missing.join(', ')}) are missing from this site. Please contact support.`,
+      undefined,
+      manifestUrl
+    );
+  }
+  const base = new URL(`${TESSERACT_ASSETS_ROOT}/${version}/`, window.location.origin).href;
+  return { workerPath: `${base}worker.min.js`, corePath: `${base}core/`, langPath: `${base}lang` };
+}
+
+/**
+ * Tesseract's words as text items in PDF space: its boxes are in pixels of the rendered image with y growing
+ * downwards, so they are divided by the render scale and the bottom of each box becomes an upward baseline.
+ */
+export function ocrWordsToTextItems(
+  words: Array<{ text: string; bbox: { x0: number; y0: number; x1: number; y1: number } }>,
+  renderScale: number
+): PositionedTextItem[] {
+  return words.map(({ text, bbox }) => ({
+    text,
+    x: bbox.x0 / renderScale,
+    y: -bbox.y1 / renderScale,
+    width: (bbox.x1 - bbox.x0) / renderScale,
+    height: (bbox.y1 - bbox.y0) / renderScale,
+  }));
+}
+
+/**
+ * Reads pages with Tesseract in Web Workers. The worker, WebAssembly cores and language packs are all served
+ * by this site, and the packs are cached in the browser after the first download; page images stay on the device.
+ */
+export async function createTesseractOcrProvider(options: OcrProviderOptions = {}): Promise<OcrProvider> {
+  const languages = options.languages?.length ? options.languages : DEFAULT_OCR_LANGUAGES;
+  const [{ createScheduler, createWorker }, { workerPath, corePath, langPath }] = await Promise.all([
+    import('tesseract.js'),
+    resolveTesseractAssets(languages),
+  ]);
+  const workerCount = Math.max(1, Math.min(options.concurrency ?? TESSERACT_MAX_WORKERS, TESSERACT_MAX_WORKERS));
+  const scheduler = createScheduler();
+  try {
+    const workers = await Promise.all(Array.from({ length: workerCount }, () => createWorker(languages, TESSERACT_OEM_LSTM_ONLY, {
+      workerPath,
+      corePath,
+      langPath,
+      workerBlobURL: false,
+    })));
+    workers.forEach(worker => scheduler.addWorker(worker));
+  } catch (error) {
+    await scheduler.terminate();
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new NetworkError(`The OCR language packs (${languages.join(', ')}) could not be loaded: ${reason}`);
+  }
+
+  return {
+    id: 'tesseract',
+    label: 'On-device OCR',
+    isLocal: true,
+    renderScale: TESSERACT_RENDER_SCALE,
+    concurrency: workerCount,
+    async recognize(imageUri) {
+      const { data } = await scheduler.addJob('recognize', imageUri, {}, { text: true, blocks: true });
+      const words = (data.blocks ?? []).flatMap(block =>
+        block.paragraphs.flatMap(paragraph => paragraph.lines.flatMap(line => line.words)));
+      const layout = words.length > 0 ? buildPageLayout(ocrWordsToTextItems(words, TESSERACT_RENDER_SCALE)) : undefined;
+      return { text: data.text, layout };
+    },
+    async dispose() {
+      await scheduler.terminate();
+    },
+  };
+}
+
+export function createOcrProvider(id: OcrProviderId, options: OcrProviderOptions = {}): Promise<OcrProvider> {
+  return id === 'tesseract' ? createTesseractOcrProvider(options) : createAiOcrProvider(options);
+}
+
+function wordCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+(?:[.,][\p{N}]+)*/gu) ?? []) {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * How alike two OCR results are, from 0 to 1: the share of words (and numbers, with their separators)
+ * both contain, ignoring case, punctuation and order. Two empty texts are identical.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const countsA = wordCounts(a);
+  const countsB = wordCounts(b);
+  let shared = 0;
+  let total = 0;
+  countsA.forEach((count, word) => {
+    shared += Math.min(count, countsB.get(word) ?? 0);
+    total += count;
+  });
+  countsB.forEach(count => { total += count; });
+  return total === 0 ? 1 : (2 * shared) / total;
+}
+
+export interface OcrComparisonEntry {
+  providerId: OcrProviderId;
+  label: string;
+  text: string | null; // null when the provider failed
+  error?: string;
+  durationMs: number;
+}
+
+export interface OcrComparison {
+  entries: OcrComparisonEntry[];
+  similarity: number | null; // textSimilarity of the first two entries; null unless both read the page
+}
+
+/**
+ * Reads one page with each provider in turn and reports what each read and how long it took.
+ * renderPage renders the page at the scale a provider asks for; the time taken to render is not counted.
+ */
+export async function compareOcrProviders(
+  renderPage: (scale: number) => Promise<string>,
+  providers: OcrProvider[]
+): Promise<OcrComparison> {
+  const entries: OcrComparisonEntry[] = [];
+  for (const provider of providers) {
+    // Rendering errors (a cancelled password prompt, say) are not the provider's and end the comparison
+    const imageUri = await renderPage(provider.renderScale);
+    const started = performance.now();
+    try {
+      const { text } = await provider.recognize(imageUri);
+      entries.push({ providerId: provider.id, label: provider.label, text, durationMs: performance.now() - started });
+    } catch (error) {
+      entries.push({
+        providerId: provider.id,
+        label: provider.label,
+        text: null,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: performance.now() - started,
+      });
+    }
+  }
+  const [first, second] = entries;
+  const similarity = first && second && first.text !== null && second.text !== null
+    ? textSimilarity(first.text, second.text)
+    : null;
+  return { entries, similarity };
+}
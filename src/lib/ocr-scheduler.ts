@@ -0,0 +1,136 @@
+import type { LayoutPage } from '@/lib/pdf-layout';
+import type { OcrRecognition } from '@/lib/ocr-providers';
+import { ProcessingCancelledError, isRetryableError } from '@/types/errors';
+
+/**
+ * Runs OCR for several pages at once. Pages are scheduled as they are rendered; scheduling waits while
+ * all slots are busy, so rendering never gets far ahead of OCR. Failures that isRetryableError accepts
+ * are retried with exponential backoff; pages that still fail are reported as missing instead of
+ * failing the document.
+ */
+
+export const OCR_CONCURRENCY = 3;
+const OCR_MAX_RETRIES = 3;
+const OCR_RETRY_BASE_DELAY_MS = 1000;
+
+export interface OcrPageResult {
+  pageNum: number;
+  text: string | null; // null when the page could not be read
+  layout?: LayoutPage; // Where the words are on the page, from providers that report it
+  error?: string;
+}
+
+export interface OcrSchedulerOptions {
+  concurrency?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  signal?: AbortSignal;
+  /** Called as each page finishes, successfully or not. */
+  onPageDone?: (result: OcrPageResult, completed: number, scheduled: number) => void;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ProcessingCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ProcessingCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Calls fn until it succeeds, waiting baseDelayMs, then twice as long, and so on between attempts.
+ * Errors that isRetryableError rejects, and the last error, are thrown.
+ */
+export async function retryWithBackoff<T>(
+  fn: () => Promise<T>,
+  { retries = OCR_MAX_RETRIES, baseDelayMs = OCR_RETRY_BASE_DELAY_MS, signal }: { retries?: number; baseDelayMs?: number; signal?: AbortSignal } = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new ProcessingCancelledError();
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !isRetryableError(error)) throw error;
+      await delay(baseDelayMs * 2 ** attempt, signal);
+    }
+  }
+}
+
+/**
+ * Creates a scheduler that reads pages with ocrPage, at most `concurrency` at a time.
+ * Call schedule for each rendered page, then finish for the results in page order.
+ * Cancellation (the signal, or ocrPage throwing ProcessingCancelledError) rejects schedule and finish.
+ */
+export function createOcrScheduler(
+  ocrPage: (imageUri: string, pageNum: number) => Promise<OcrRecognition>,
+  options: OcrSchedulerOptions = {}
+) {
+  const concurrency = Math.max(1, options.concurrency ?? OCR_CONCURRENCY);
+  const { signal } = options;
+  const results: OcrPageResult[] = [];
+  const running = new Set<Promise<void>>();
+  let cancellation: unknown = null;
+  let scheduled = 0;
+
+  const readPage = async (imageUri: string, pageNum: number): Promise<void> => {
+    let result: OcrPageResult;
+    try {
+      const { text, layout } = await retryWithBackoff(() => ocrPage(imageUri, pageNum), {
+        retries: options.maxRetries,
+        baseDelayMs: options.retryBaseDelayMs,
+        signal,
+      });
+      result = layout ? { pageNum, text, layout } : { pageNum, text };
+    } catch (error) {
+      if (signal?.aborted || error instanceof ProcessingCancelledError) {
+        cancellation ??= error;
+        return;
+      }
+      console.warn(`OCR failed for page ${pageNum}:`, error);
+      result = { pageNum, text: null, error: error instanceof Error ? error.message : String(error) };
+    }
+    results.push(result);
+    options.onPageDone?.(result, results.length, scheduled);
+  };
+
+  const throwIfCancelled = () => {
+    if (cancellation) throw cancellation;
+    if (signal?.aborted) throw new ProcessingCancelledError();
+  };
+
+  return {
+    /** Starts OCR of a page; resolves once there is a free slot for the next one. */
+    async schedule(pageNum: number, imageUri: string): Promise<void> {
+      throwIfCancelled();
+      scheduled++;
+      const task = readPage(imageUri, pageNum).finally(() => running.delete(task));
+      running.add(task);
+      while (running.size >= concurrency) {
+        await Promise.race(running);
+      }
+      throwIfCancelled();
+    },
+
+    /** Waits for the scheduled pages and returns their results in page order. */
+    async finish(): Promise<OcrPageResult[]> {
+      await Promise.all(running);
+      throwIfCancelled();
+      return [...results].sort((a, b) => a.pageNum - b.pageNum);
+    },
+  };
+}
+
+/** The numbers of the pages OCR could not read. */
+export function missingOcrPages(pages: OcrPageResult[]): number[] {
+  return pages.filter(page => page.text === null).map(page => page.pageNum);
+}
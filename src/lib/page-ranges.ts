@@ -0,0 +1,51 @@
+import { ValidationError } from '@/types/errors';
+
+/**
+ * Page selections written as ranges, e.g. "2-5,8". Page numbers are 1-based.
+ */
+
+const RANGE_PATTERN = /^(\d+)\s*(?:-\s*(\d+))?$/;
+
+/**
+ * Parses a page selection such as "2-5,8" or "1, 3 - 4" into sorted, unique page numbers.
+ * Throws ValidationError for malformed parts, reversed ranges and pages outside the document.
+ * @param input The ranges as typed by the user.
+ * @param pageCount The number of pages in the document.
+ */
+export function parsePageRanges(input: string, pageCount: number): number[] {
+  const pages = new Set<number>();
+  const parts = input.split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0) {
+    throw new ValidationError('Enter the pages to convert, e.g. "2-5,8".', 'pages', input);
+  }
+  for (const part of parts) {
+    const match = part.match(RANGE_PATTERN);
+    if (!match) {
+      throw new ValidationError(`"${part}" is not a page or page range.`, 'pages', input);
+    }
+    const first = Number(match[1]);
+    const last = match[2] !== undefined ? Number(match[2]) : first;
+    if (first > last) {
+      throw new ValidationError(`The range "${part}" runs backwards.`, 'pages', input);
+    }
+    if (first < 1 || last > pageCount) {
+      throw new ValidationError(`Page ${first < 1 ? first : last} does not exist; the document has ${pageCount} pages.`, 'pages', input);
+    }
+    for (let page = first; page <= last; page++) pages.add(page);
+  }
+  return [...pages].sort((a, b) => a - b);
+}
+
+/**
+ * Writes page numbers as compact ranges, e.g. [2, 3, 4, 5, 8] becomes "2-5,8".
+ */
+export function formatPageRanges(pages: number[]): string {
+  const sorted = [...new Set(pages)].sort((a, b) => a - b);
+  const ranges: string[] = [];
+  for (let index = 0; index < sorted.length; index++) {
+    const first = sorted[index];
+    while (index + 1 < sorted.length && sorted[index + 1] === sorted[index] + 1) index++;
+    ranges.push(first === sorted[index] ? `${first}` : `${first}-${sorted[index]}`);
+  }
+  return ranges.join(',');
+}
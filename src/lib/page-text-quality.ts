@@ -0,0 +1,48 @@
+/**
+ * Decides page by page whether a PDF's text layer can be used or the page has to be scanned with OCR.
+ * Mixed files, such as a digital cover followed by scanned statement pages, have both kinds: the scanned
+ * pages have no text, only a few stray characters (a scanner's stamp), or text in fonts without a Unicode
+ * mapping that extracts as replacement and private-use characters.
+ */
+
+export interface PageTextStats {
+  characters: number; // Non-whitespace characters in the text layer
+  density: number; // Characters per square inch of the page
+  glyphCoverage: number; // Share of the characters that map to readable Unicode; 0 for a page without text
+}
+
+const POINTS_PER_SQUARE_INCH = 72 * 72;
+// A page with fewer characters than this carries no content worth reading, e.g. only a page number
+const MIN_PAGE_CHARACTERS = 20;
+// Below this many characters per square inch the text is a stamp or watermark on a scanned page;
+// a sparse digital page, such as a cover with a title and an address, still has a few
+const MIN_TEXT_DENSITY = 0.25;
+// Text that extracts largely as unmapped glyphs is unreadable even though there is plenty of it
+const MIN_GLYPH_COVERAGE = 0.9;
+
+// Glyphs without a Unicode mapping come out as the replacement character, private-use code points or controls
+const UNREADABLE_GLYPHS = /[\uFFFD\uE000-\uF8FF\u0000-\u0008\u000E-\u001F]/gu;
+
+/**
+ * Measures the text of one page from its text items.
+ * @param width The page width in points.
+ * @param height The page height in points.
+ */
+export function measurePageText(texts: string[], width: number, height: number): PageTextStats {
+  const text = texts.join('').replace(/\s+/g, '');
+  const characters = [...text].length;
+  const unreadable = text.match(UNREADABLE_GLYPHS)?.length ?? 0;
+  const squareInches = (Math.abs(width) * Math.abs(height)) / POINTS_PER_SQUARE_INCH;
+  return {
+    characters,
+    density: squareInches > 0 ? characters / squareInches : 0,
+    glyphCoverage: characters > 0 ? (characters - unreadable) / characters : 0,
+  };
+}
+
+/** Whether the text layer of a page can be used as it is; pages without usable text are scanned with OCR. */
+export function hasUsableText(stats: PageTextStats): boolean {
+  return stats.characters >= MIN_PAGE_CHARACTERS
+    && stats.density >= MIN_TEXT_DENSITY
+    && stats.glyphCoverage >= MIN_GLYPH_COVERAGE;
+}
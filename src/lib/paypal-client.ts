@@ -56,3 +56,25 @@ export function getPayPalClient(): Client {
 
     return clientInstance;
 }
+
+// The fields of a PayPal billing subscription that plan activation relies on
+export interface PayPalSubscription {
+    id: string;
+    status: string; // APPROVAL_PENDING, APPROVED, ACTIVE, SUSPENDED, CANCELLED or EXPIRED
+    planId: string;
+    customId?: string; // Set by the checkout to the subscriber's user ID
+}
+
+// The SDK has no Subscriptions controller, so the request is built with the client's own request builder,
+// which signs it with the client's OAuth credentials.
+export async function getPayPalSubscription(subscriptionId: string): Promise<PayPalSubscription> {
+    const request = getPayPalClient().getRequestBuilderFactory()('GET');
+    request.appendTemplatePath`/v1/billing/subscriptions/${subscriptionId}`;
+    request.authenticate([{ oauth2: true }]);
+    const response = await request.callAsText();
+    const body = JSON.parse(response.result) as { id?: string; status?: string; plan_id?: string; custom_id?: string };
+    if (!body.id || !body.status || !body.plan_id) {
+        throw new Error(`PayPal returned an unexpected response for subscription ${subscriptionId}.`);
+    }
+    return { id: body.id, status: body.status, planId: body.plan_id, customId: body.custom_id };
+}
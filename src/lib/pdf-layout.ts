@@ -0,0 +1,244 @@
+/**
+ * Rebuilds the visual layout of a PDF page from the positions of its text items.
+ * pdf.js returns text as loose items with x/y coordinates; joining them in stream order loses the
+ * columns of a statement table. Here items are grouped into lines by their baseline, split into
+ * segments where the horizontal gap is wider than a space, and the segments are placed in columns
+ * taken from the table's vertical ruling lines or, when it has none, found from the vertical strips
+ * of whitespace that the table lines share.
+ */
+
+/** A text item in PDF user space: x grows to the right, y (the baseline) grows upwards. */
+export interface PositionedTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A vertical line drawn on the page (table borders and column separators), in the same space as the text. */
+export interface VerticalRuling {
+  x: number;
+  top: number;
+  bottom: number;
+}
+
+/** Consecutive items on a line with no more than a space between them. */
+export interface LayoutSegment {
+  text: string;
+  x: number;
+  width: number;
+}
+
+export interface LayoutLine {
+  y: number;
+  segments: LayoutSegment[];
+}
+
+/** The horizontal extent of a column, from its leftmost to its rightmost text. */
+export interface LayoutColumn {
+  left: number;
+  right: number;
+}
+
+export interface LayoutPage {
+  lines: LayoutLine[];
+  columns: LayoutColumn[]; // Empty when the page has no table-like lines
+  /** One entry per line: a cell per column for table lines, a single cell for other lines. */
+  rows: string[][];
+}
+
+// Cells of table lines are separated like this in the text handed to the AI
+export const LAYOUT_CELL_SEPARATOR = ' | ';
+
+// A page needs this many lines with several segments before columns are looked for
+const MIN_TABLE_LINES = 3;
+// Whitespace strips may be crossed by this share of table lines (long descriptions, headings)
+const GAP_CROSSING_TOLERANCE = 0.05;
+// Narrowest whitespace strip, in points, that separates two columns
+const MIN_COLUMN_GAP = 4;
+// Rulings closer than this (in points) are the same separator drawn twice, e.g. cell borders
+const RULING_MERGE_DISTANCE = 2;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function charWidth(item: { text: string; width: number }): number {
+  return item.width / Math.max(1, item.text.length);
+}
+
+/**
+ * Groups items into lines (top to bottom) and each line into segments (left to right).
+ * Items belong to the same line when their baselines are closer than half the text height.
+ */
+export function groupItemsIntoLines(items: PositionedTextItem[]): LayoutLine[] {
+  const visible = items.filter(item => item.text.trim() !== '');
+  const sorted = [...visible].sort((a, b) => b.y - a.y || a.x - b.x);
+  const typicalHeight = median(visible.map(item => item.height).filter(height => height > 0)) || 10;
+
+  const lineItems: PositionedTextItem[][] = [];
+  let lineY = Number.NaN;
+  for (const item of sorted) {
+    const current = lineItems[lineItems.length - 1];
+    if (current && Math.abs(item.y - lineY) <= Math.max(1, (item.height || typicalHeight) / 2)) {
+      current.push(item);
+      lineY = current.reduce((sum, candidate) => sum + candidate.y, 0) / current.length;
+    } else {
+      lineItems.push([item]);
+      lineY = item.y;
+    }
+  }
+
+  return lineItems.map(itemsOnLine => {
+    const ordered = itemsOnLine.sort((a, b) => a.x - b.x);
+    const segments: LayoutSegment[] = [];
+    let previous: PositionedTextItem | null = null;
+    for (const item of ordered) {
+      const segment = segments[segments.length - 1];
+      const gap = previous ? item.x - (previous.x + previous.width) : Number.POSITIVE_INFINITY;
+      const spaceWidth = Math.max(charWidth(item), previous ? charWidth(previous) : 0);
+      if (segment && previous && gap <= spaceWidth * 1.5) {
+        // Items of one word can touch; a visible gap between words becomes a space
+        const needsSpace = gap > spaceWidth * 0.25 && !/\s$/.test(segment.text) && !/^\s/.test(item.text);
+        segment.text += (needsSpace ? ' ' : '') + item.text;
+        segment.width = item.x + item.width - segment.x;
+      } else {
+        segments.push({ text: item.text, x: item.x, width: item.width });
+      }
+      previous = item;
+    }
+    for (const segment of segments) segment.text = segment.text.replace(/\s+/g, ' ').trim();
+    return { y: itemsOnLine[0].y, segments: segments.filter(segment => segment.text !== '') };
+  }).filter(line => line.segments.length > 0);
+}
+
+/**
+ * Finds columns from the vertical whitespace shared by the table-like lines (lines with several segments):
+ * every strip at least MIN_COLUMN_GAP wide that (almost) no such line writes into separates two columns.
+ */
+export function detectColumns(lines: LayoutLine[]): LayoutColumn[] {
+  const tableLines = lines.filter(line => line.segments.length > 1);
+  if (tableLines.length < MIN_TABLE_LINES) return [];
+
+  const segments = tableLines.flatMap(line => line.segments);
+  const minX = Math.floor(Math.min(...segments.map(segment => segment.x)));
+  const maxX = Math.ceil(Math.max(...segments.map(segment => segment.x + segment.width)));
+  const coverage = new Array<number>(maxX - minX + 1).fill(0);
+  for (const line of tableLines) {
+    // Count each line once per point, however many of its segments cover it
+    const covered = new Set<number>();
+    for (const segment of line.segments) {
+      for (let x = Math.floor(segment.x); x < Math.ceil(segment.x + segment.width); x++) covered.add(x - minX);
+    }
+    covered.forEach(index => coverage[index]++);
+  }
+
+  const allowedCrossings = Math.floor(tableLines.length * GAP_CROSSING_TOLERANCE);
+  const columns: LayoutColumn[] = [];
+  let columnStart: number | null = null;
+  let gapStart: number | null = null;
+  coverage.forEach((count, index) => {
+    if (count > allowedCrossings) {
+      if (columnStart === null) {
+        columnStart = index;
+      } else if (gapStart !== null && index - gapStart < MIN_COLUMN_GAP) {
+        // Too narrow to separate columns; the column continues
+      } else if (gapStart !== null) {
+        columns.push({ left: minX + columnStart, right: minX + gapStart });
+        columnStart = index;
+      }
+      gapStart = null;
+    } else if (columnStart !== null && gapStart === null) {
+      gapStart = index;
+    }
+  });
+  if (columnStart !== null) {
+    columns.push({ left: minX + columnStart, right: minX + (gapStart ?? coverage.length) });
+  }
+  return columns.length > 1 ? columns : [];
+}
+
+/**
+ * Columns from vertical ruling lines: the strips between neighbouring rulings that hold text.
+ * Short rulings (underlines, tick marks) are ignored. Returns an empty list when the rulings do not split
+ * the table lines into at least two columns.
+ */
+export function columnsFromRulings(lines: LayoutLine[], rulings: VerticalRuling[]): LayoutColumn[] {
+  const tableLines = lines.filter(line => line.segments.length > 1);
+  if (tableLines.length < MIN_TABLE_LINES || rulings.length === 0) return [];
+
+  const lineSpacing = median(tableLines.slice(1).map((line, index) => Math.abs(tableLines[index].y - line.y))) || 12;
+  const separators: number[] = [];
+  for (const x of rulings.filter(ruling => ruling.top - ruling.bottom >= lineSpacing * 2).map(ruling => ruling.x).sort((a, b) => a - b)) {
+    if (separators.length === 0 || x - separators[separators.length - 1] > RULING_MERGE_DISTANCE) separators.push(x);
+  }
+  if (separators.length === 0) return [];
+
+  const segments = tableLines.flatMap(line => line.segments);
+  const bounds = [Math.min(...segments.map(segment => segment.x)) - 1, ...separators, Math.max(...segments.map(segment => segment.x + segment.width)) + 1];
+  const columns: LayoutColumn[] = [];
+  for (let index = 0; index < bounds.length - 1; index++) {
+    const [left, right] = [bounds[index], bounds[index + 1]];
+    const holdsText = segments.some(segment => {
+      const centre = segment.x + segment.width / 2;
+      return centre > left && centre < right;
+    });
+    if (holdsText && right > left) columns.push({ left, right });
+  }
+  return columns.length > 1 ? columns : [];
+}
+
+// The column a segment belongs to: the one containing its centre, else the nearest one
+function columnIndexOf(segment: LayoutSegment, columns: LayoutColumn[]): number {
+  const centre = segment.x + segment.width / 2;
+  let best = 0;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  columns.forEach((column, index) => {
+    const distance = centre < column.left ? column.left - centre : centre > column.right ? centre - column.right : 0;
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+/**
+ * Lays out a page's text items as lines and columns. Table lines become one cell per column
+ * (empty cells kept, so a blank Paid In column stays blank); other lines become a single cell.
+ * Ruling lines, when the page draws them, take precedence over whitespace for finding columns.
+ */
+export function buildPageLayout(items: PositionedTextItem[], rulings: VerticalRuling[] = []): LayoutPage {
+  const lines = groupItemsIntoLines(items);
+  const ruledColumns = columnsFromRulings(lines, rulings);
+  const columns = ruledColumns.length > 0 ? ruledColumns : detectColumns(lines);
+  return { lines, columns, rows: rowsForColumns(lines, columns) };
+}
+
+/**
+ * Places the segments of each line in the given columns: a cell per column for lines with several
+ * segments, a single cell for the others. Used for detected columns and for saved column ranges.
+ */
+export function rowsForColumns(lines: LayoutLine[], columns: LayoutColumn[]): string[][] {
+  return lines.map(line => {
+    if (columns.length === 0 || line.segments.length === 1) {
+      return [line.segments.map(segment => segment.text).join(' ')];
+    }
+    const cells = columns.map(() => '');
+    for (const segment of line.segments) {
+      const index = columnIndexOf(segment, columns);
+      cells[index] = cells[index] ? `${cells[index]} ${segment.text}` : segment.text;
+    }
+    return cells;
+  });
+}
+
+/**
+ * Grid-like text for a page: table lines as cells separated by " | ", other lines as they are.
+ */
+export function layoutPageToText(page: LayoutPage): string {
+  return page.rows.map(row => row.join(LAYOUT_CELL_SEPARATOR).trimEnd()).join('\n');
+}
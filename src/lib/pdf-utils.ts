@@ -4,56 +4,350 @@
 import * as pdfjsLib from 'pdfjs-dist';
 import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
 import type { StructuredPdfDataOutput } from '@/ai/flows/structure-pdf-data-flow';
-import { ProcessingCancelledError, NetworkError } from '@/types/errors';
+import type { ExtractTablesOutput } from '@/ai/flows/extract-tables-flow';
+import type { ExcelSheet } from '@/lib/excel-export';
+import type { FormattedDocument } from '@/lib/document-types/shared';
+import { ProcessingCancelledError, NetworkError, PdfPasswordError, isNetworkError, isPdfPasswordError } from '@/types/errors';
 import { logError } from '@/lib/error-handler';
+import { reconcileTransactions, describeRowReconciliation, RECONCILIATION_COLUMN_HEADER } from '@/lib/reconciliation';
+import { ORIGINAL_AMOUNT_HEADER, ORIGINAL_CURRENCY_HEADER } from '@/lib/statement-grid';
+import { parseCellInput } from '@/lib/grid-editing';
+import { buildPageLayout, layoutPageToText, type LayoutPage, type PositionedTextItem, type VerticalRuling } from '@/lib/pdf-layout';
+import { measurePageText, type PageTextStats } from '@/lib/page-text-quality';
+
+// The worker, character maps and standard fonts are served by the app itself (copied from pdfjs-dist by
+// scripts/copy-pdfjs-assets.mjs), so PDFs are read without a CDN or any external network access.
+// import.meta.url doesn't work reliably in Next.js client components, so the files are served from public/.
+const PDFJS_ASSETS_ROOT = '/pdfjs';
+const PDFJS_ASSETS_PATH = `${PDFJS_ASSETS_ROOT}/${pdfjsLib.version}`;
+
+// PDFs are also read inside the app's own Web Worker (src/workers/pdf-processing.worker.ts), which has no
+// window or document; there pdf.js parses in the worker thread itself and draws on OffscreenCanvas
+const isWorkerScope = typeof window === 'undefined' && typeof self !== 'undefined' && 'WorkerGlobalScope' in self;
+const hasPdfAssets = typeof window !== 'undefined' || isWorkerScope;
 
 // Cache worker initialization to prevent multiple loads
 let workerInitialized = false;
 
-// Set the worker source using CDN for Next.js compatibility
-// import.meta.url doesn't work reliably in Next.js client components, especially in production
-if (typeof window !== 'undefined' && !workerInitialized) {
-  // Use CDN-based worker URL for reliable loading across all environments
-  // This ensures the worker loads correctly in both development and production builds
-  pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.mjs`;
+if (hasPdfAssets && !workerInitialized) {
+  pdfjsLib.GlobalWorkerOptions.workerSrc = `${PDFJS_ASSETS_PATH}/pdf.worker.min.mjs`;
   workerInitialized = true;
 }
 
+// Resolved once the served worker is known to match this pdf.js; reset after a failure so it is checked again
+let workerCheck: Promise<void> | null = null;
+
+/**
+ * Checks that the app serves the pdf.js worker for this version of pdfjsLib. Throws NetworkError when the
+ * worker files cannot be fetched or belong to another version, rather than letting pdf.js fail obscurely.
+ */
+async function ensurePdfWorker(): Promise<void> {
+  if (!hasPdfAssets) return;
+  workerCheck ??= (async () => {
+    const manifestUrl = `${PDFJS_ASSETS_ROOT}/manifest.json`;
+    let response: Response;
+    try {
+      response = await fetch(manifestUrl, { cache: 'no-cache' });
+    } catch {
+      throw new NetworkError('The PDF reader could not be loaded. Please check your connection and try again.', undefined, manifestUrl);
+    }
+    if (!response.ok) {
+      throw new NetworkError('The PDF reader files are missing from this site. Please contact support.', response.status, manifestUrl);
+    }
+    const { version } = await response.json() as { version?: string };
+    if (version !== pdfjsLib.version) {
+      throw new NetworkError(
+        `The PDF reader files on this site (${version ?? 'unknown version'}) do not match the app (${pdfjsLib.version}). Please reload the page.`,
+        undefined,
+        manifestUrl
+      );
+    }
+  })().catch(error => {
+    workerCheck = null;
+    throw error;
+  });
+  return workerCheck;
+}
+
+// pdf.js creates its scratch canvases through a factory; the default one needs a document
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    if (width <= 0 || height <= 0) throw new Error("Invalid canvas size");
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) };
+  }
+
+  reset(canvasAndContext: { canvas: OffscreenCanvas | null }, width: number, height: number) {
+    if (!canvasAndContext.canvas) throw new Error("Canvas is not specified");
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: { canvas: OffscreenCanvas | null; context: unknown }) {
+    if (!canvasAndContext.canvas) throw new Error("Canvas is not specified");
+    canvasAndContext.canvas.width = 0;
+    canvasAndContext.canvas.height = 0;
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+// SVG filters (transfer maps, high-contrast mode) need a document too; pages render without them
+class NoFilterFactory {
+  addFilter() { return 'none'; }
+  addHCMFilter() { return 'none'; }
+  addAlphaFilter() { return 'none'; }
+  addLuminosityFilter() { return 'none'; }
+  addHighlightHCMFilter() { return 'none'; }
+  destroy() {}
+}
+
+// In a worker, fonts are drawn as paths because FontFace rules cannot be added to a document
+const WORKER_DOCUMENT_PARAMS = { CanvasFactory: OffscreenCanvasFactory, FilterFactory: NoFilterFactory, disableFontFace: true };
+
+// pdf.js reports a worker that failed to load or does not match its API with these messages
+const WORKER_FAILURE_PATTERN = /fake worker|does not match the Worker version|dynamically imported module/i;
+
+/**
+ * Asks the user for the password of an encrypted PDF; resolves null if they cancel.
+ * @param incorrect True when the previous password was rejected.
+ */
+export type PdfPasswordPrompt = (incorrect: boolean) => Promise<string | null>;
+
+/**
+ * Opens a PDF, mapping pdf.js's PasswordException to PdfPasswordError.
+ * The password is handed to pdf.js in the browser only; it is never logged or kept.
+ */
+async function openPdfDocument(pdfBuffer: ArrayBuffer, password?: string): Promise<PDFDocumentProxy> {
+  await ensurePdfWorker();
+  const assets = hasPdfAssets
+    ? { cMapUrl: `${PDFJS_ASSETS_PATH}/cmaps/`, cMapPacked: true, standardFontDataUrl: `${PDFJS_ASSETS_PATH}/standard_fonts/` }
+    : {};
+  try {
+    return await pdfjsLib.getDocument({ data: pdfBuffer, password, ...assets, ...(isWorkerScope ? WORKER_DOCUMENT_PARAMS : {}) }).promise;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'PasswordException') {
+      const code = (error as Error & { code?: number }).code;
+      throw new PdfPasswordError(code === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD);
+    }
+    if (error instanceof Error && WORKER_FAILURE_PATTERN.test(error.message)) {
+      throw new NetworkError('The PDF reader could not be started. Please reload the page and try again.');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Runs a PDF operation, asking for the password and retrying while the PDF is encrypted and the password
+ * missing or wrong. Resolves with the operation's result and the password that worked, so later reads of
+ * the same file need not ask again. Throws ProcessingCancelledError if the user cancels the prompt.
+ * @param initialPassword A password the user already entered for this file, tried first.
+ */
+export async function withPdfPassword<T>(
+  read: (password?: string) => Promise<T>,
+  requestPassword: PdfPasswordPrompt,
+  signal?: AbortSignal,
+  initialPassword?: string
+): Promise<{ result: T; password?: string }> {
+  let password = initialPassword;
+  for (;;) {
+    try {
+      return { result: await read(password), password };
+    } catch (error) {
+      if (!isPdfPasswordError(error)) throw error;
+      if (signal?.aborted) throw new ProcessingCancelledError();
+      const entered = await requestPassword(error.code === 'PDF_PASSWORD_INCORRECT');
+      if (entered === null || signal?.aborted) throw new ProcessingCancelledError();
+      password = entered;
+    }
+  }
+}
+
 /**
  * Extracts raw text from a PDF ArrayBuffer.
  * @param pdfBuffer The ArrayBuffer of the PDF file.
  * @param signal Optional AbortSignal to cancel the operation.
+ * @param mode 'plain' joins text items with spaces; 'layout' keeps lines and table columns.
+ * @param password Password of an encrypted PDF.
  * @returns A promise that resolves with the extracted text.
  */
-export async function extractTextFromPdf(pdfBuffer: ArrayBuffer, signal?: AbortSignal): Promise<string> {
+export async function extractTextFromPdf(
+  pdfBuffer: ArrayBuffer,
+  signal?: AbortSignal,
+  mode: TextExtractionMode = 'plain',
+  password?: string
+): Promise<string> {
+  const pageTexts = await extractTextFromPdfPages(pdfBuffer, signal, mode, password);
+  return pageTexts.join('\n\n').trim(); // Add extra newline for page breaks
+}
+
+/**
+ * How page text is read: 'plain' joins the text items in stream order, 'layout' rebuilds lines and
+ * columns from the item positions (table cells separated by " | ").
+ */
+export type TextExtractionMode = 'plain' | 'layout';
+
+/**
+ * The 1-based numbers of the pages to read, in page order; numbers outside the document are ignored.
+ * All pages are read when no selection is given.
+ */
+function selectedPageNumbers(pdf: PDFDocumentProxy, pageNumbers?: number[]): number[] {
+  if (!pageNumbers) return Array.from({ length: pdf.numPages }, (_, index) => index + 1);
+  return [...new Set(pageNumbers)].filter(pageNum => pageNum >= 1 && pageNum <= pdf.numPages).sort((a, b) => a - b);
+}
+
+/**
+ * Reports that a page has been read.
+ * @param pageNum The 1-based number of the page.
+ * @param totalPages The number of pages in the document.
+ */
+export type PdfPageProgress = (pageNum: number, totalPages: number) => void;
+
+type TextContentItems = Awaited<ReturnType<PDFPageProxy['getTextContent']>>['items'];
+
+function toPositionedItems(items: TextContentItems): PositionedTextItem[] {
+  const positioned: PositionedTextItem[] = [];
+  for (const item of items) {
+    if (!('str' in item) || typeof item.str !== 'string') continue;
+    // transform is [scaleX, skewY, skewX, scaleY, x, y]; the font size is the vertical scale
+    const [, , , scaleY, x, y] = item.transform as number[];
+    positioned.push({ text: item.str, x, y, width: item.width, height: item.height || Math.abs(scaleY) });
+  }
+  return positioned;
+}
+
+// Thickest stroke or filled rectangle, in points, still taken for a ruling line rather than a shape
+const MAX_RULING_THICKNESS = 2;
+
+type Matrix = [number, number, number, number, number, number];
+
+function multiplyMatrix(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+/**
+ * Finds the vertical lines a page draws (column separators and table borders) from its operator list:
+ * thin line segments and rectangles, and the side edges of larger rectangles such as cell borders.
+ * Coordinates are mapped through the current transform so they match the text item positions.
+ * A page whose operators cannot be read is treated as having no rulings.
+ */
+async function extractVerticalRulings(page: PDFPageProxy): Promise<VerticalRuling[]> {
+  const { OPS } = pdfjsLib;
+  let operatorList: Awaited<ReturnType<PDFPageProxy['getOperatorList']>>;
+  try {
+    operatorList = await page.getOperatorList();
+  } catch (error) {
+    console.warn('Could not read ruling lines, using text positions only:', error);
+    return [];
+  }
+
+  const rulings: VerticalRuling[] = [];
+  const addRuling = (from: [number, number], to: [number, number]) => {
+    if (Math.abs(from[0] - to[0]) <= MAX_RULING_THICKNESS && from[1] !== to[1]) {
+      rulings.push({ x: (from[0] + to[0]) / 2, top: Math.max(from[1], to[1]), bottom: Math.min(from[1], to[1]) });
+    }
+  };
+  let transform: Matrix = [1, 0, 0, 1, 0, 0];
+  const savedTransforms: Matrix[] = [];
+  const toPage = (x: number, y: number): [number, number] => [
+    transform[0] * x + transform[2] * y + transform[4],
+    transform[1] * x + transform[3] * y + transform[5],
+  ];
+
+  operatorList.fnArray.forEach((fn, index) => {
+    const args = operatorList.argsArray[index];
+    if (fn === OPS.save) {
+      savedTransforms.push(transform);
+    } else if (fn === OPS.restore) {
+      transform = savedTransforms.pop() ?? transform;
+    } else if (fn === OPS.transform) {
+      transform = multiplyMatrix(args as Matrix, transform);
+    } else if (fn === OPS.constructPath) {
+      const [pathOps, pathArgs] = args as [number[], number[]];
+      let argIndex = 0;
+      let current: [number, number] | null = null;
+      for (const op of pathOps) {
+        if (op === OPS.rectangle) {
+          const [x, y, width, height] = pathArgs.slice(argIndex, argIndex + 4);
+          argIndex += 4;
+          const [left, right] = width >= 0 ? [x, x + width] : [x + width, x];
+          if (Math.abs(width) <= MAX_RULING_THICKNESS) {
+            addRuling(toPage(x + width / 2, y), toPage(x + width / 2, y + height));
+          } else {
+            addRuling(toPage(left, y), toPage(left, y + height));
+            addRuling(toPage(right, y), toPage(right, y + height));
+          }
+        } else if (op === OPS.moveTo) {
+          current = toPage(pathArgs[argIndex], pathArgs[argIndex + 1]);
+          argIndex += 2;
+        } else if (op === OPS.lineTo) {
+          const next = toPage(pathArgs[argIndex], pathArgs[argIndex + 1]);
+          argIndex += 2;
+          if (current) addRuling(current, next);
+          current = next;
+        } else if (op === OPS.curveTo) {
+          current = toPage(pathArgs[argIndex + 4], pathArgs[argIndex + 5]);
+          argIndex += 6;
+        } else if (op === OPS.curveTo2 || op === OPS.curveTo3) {
+          current = toPage(pathArgs[argIndex + 2], pathArgs[argIndex + 3]);
+          argIndex += 4;
+        }
+      }
+    }
+  });
+  return rulings;
+}
+
+async function readPageLayout(items: TextContentItems, page: PDFPageProxy): Promise<LayoutPage> {
+  return buildPageLayout(toPositionedItems(items), await extractVerticalRulings(page));
+}
+
+function itemTexts(items: TextContentItems): string[] {
+  return items.map(item => ('str' in item && typeof item.str === 'string' ? item.str : ''));
+}
+
+/**
+ * Reads the text content of every page and maps it with readPage, handling cancellation and cleanup.
+ */
+async function mapPdfPageText<T>(
+  pdfBuffer: ArrayBuffer,
+  signal: AbortSignal | undefined,
+  operation: string,
+  readPage: (items: TextContentItems, page: PDFPageProxy) => T | Promise<T>,
+  password?: string,
+  pageNumbers?: number[],
+  onProgress?: PdfPageProgress
+): Promise<T[]> {
   let pdf: PDFDocumentProxy | null = null;
   try {
-    pdf = await pdfjsLib.getDocument({ data: pdfBuffer }).promise;
-    let fullText = '';
+    pdf = await openPdfDocument(pdfBuffer, password);
+    const pages: T[] = [];
 
-    for (let i = 1; i <= pdf.numPages; i++) {
+    for (const pageNum of selectedPageNumbers(pdf, pageNumbers)) {
       if (signal?.aborted) {
         throw new Error('PDF text extraction was cancelled');
       }
-      const page: PDFPageProxy = await pdf.getPage(i);
+      const page: PDFPageProxy = await pdf.getPage(pageNum);
       const textContent = await page.getTextContent();
-      const pageText = textContent.items
-        .map(item => {
-          if ('str' in item && typeof item.str === 'string') {
-            return item.str;
-          }
-          return '';
-        })
-        .join(' ');
-      fullText += pageText + '\n\n'; // Add extra newline for page breaks
+      pages.push(await readPage(textContent.items, page));
+      page.cleanup();
+      onProgress?.(pageNum, pdf.numPages);
     }
-    return fullText.trim();
+    return pages;
   } catch (error) {
     if (signal?.aborted || (error instanceof Error && error.message.includes('cancelled'))) {
       throw new ProcessingCancelledError('PDF text extraction was cancelled');
     }
+    if (isPdfPasswordError(error) || isNetworkError(error)) throw error;
     
-    logError(error, { operation: 'extractTextFromPdf' });
+    logError(error, { operation });
     
     // Check for network-related errors
     if (error instanceof Error && (error.message.includes('network') || error.message.includes('fetch'))) {
@@ -73,17 +367,101 @@ export async function extractTextFromPdf(pdfBuffer: ArrayBuffer, signal?: AbortS
   }
 }
 
+/**
+ * Extracts raw text from a PDF ArrayBuffer, one entry per page.
+ * @param pdfBuffer The ArrayBuffer of the PDF file.
+ * @param signal Optional AbortSignal to cancel the operation.
+ * @param mode 'plain' joins text items with spaces; 'layout' keeps lines and table columns.
+ * @param password Password of an encrypted PDF.
+ * @param pageNumbers The 1-based pages to read; all pages when omitted.
+ * @param onProgress Called after each page is read.
+ * @returns A promise that resolves with the text of each page read, in page order.
+ */
+export async function extractTextFromPdfPages(
+  pdfBuffer: ArrayBuffer,
+  signal?: AbortSignal,
+  mode: TextExtractionMode = 'plain',
+  password?: string,
+  pageNumbers?: number[],
+  onProgress?: PdfPageProgress
+): Promise<string[]> {
+  return mapPdfPageText(pdfBuffer, signal, 'extractTextFromPdfPages', async (items, page) => {
+    if (mode === 'layout') {
+      return layoutPageToText(await readPageLayout(items, page));
+    }
+    return itemTexts(items).join(' ');
+  }, password, pageNumbers, onProgress);
+}
+
+/** A page's text layer as read by readPdfPages, with the measurements that tell whether it is usable. */
+export interface PdfPageContent {
+  pageNum: number;
+  text: string;
+  layout: LayoutPage | null; // Set in 'layout' mode
+  stats: PageTextStats;
+}
+
+/**
+ * Reads the text of every page together with its text density and glyph coverage, so the caller can
+ * decide page by page whether to use the text or scan the page with OCR (see hasUsableText).
+ * @param pdfBuffer The ArrayBuffer of the PDF file.
+ * @param signal Optional AbortSignal to cancel the operation.
+ * @param mode 'plain' joins text items with spaces; 'layout' keeps lines and table columns.
+ * @param password Password of an encrypted PDF.
+ * @param pageNumbers The 1-based pages to read; all pages when omitted.
+ * @param onProgress Called after each page is read.
+ */
+export async function readPdfPages(
+  pdfBuffer: ArrayBuffer,
+  signal?: AbortSignal,
+  mode: TextExtractionMode = 'plain',
+  password?: string,
+  pageNumbers?: number[],
+  onProgress?: PdfPageProgress
+): Promise<PdfPageContent[]> {
+  return mapPdfPageText(pdfBuffer, signal, 'readPdfPages', async (items, page) => {
+    const texts = itemTexts(items);
+    const [left, bottom, right, top] = page.view;
+    const stats = measurePageText(texts, right - left, top - bottom);
+    if (mode === 'layout') {
+      const layout = await readPageLayout(items, page);
+      return { pageNum: page.pageNumber, text: layoutPageToText(layout), layout, stats };
+    }
+    return { pageNum: page.pageNumber, text: texts.join(' '), layout: null, stats };
+  }, password, pageNumbers, onProgress);
+}
+
+/**
+ * Extracts the layout of every page: lines, columns (from ruling lines or whitespace) and a row/cell
+ * grid per page, for rule-based table extraction without AI.
+ * @param pdfBuffer The ArrayBuffer of the PDF file.
+ * @param signal Optional AbortSignal to cancel the operation.
+ * @param password Password of an encrypted PDF.
+ * @param pageNumbers The 1-based pages to read; all pages when omitted.
+ * @param onProgress Called after each page is read.
+ */
+export async function extractLayoutFromPdfPages(
+  pdfBuffer: ArrayBuffer,
+  signal?: AbortSignal,
+  password?: string,
+  pageNumbers?: number[],
+  onProgress?: PdfPageProgress
+): Promise<LayoutPage[]> {
+  return mapPdfPageText(pdfBuffer, signal, 'extractLayoutFromPdfPages', readPageLayout, password, pageNumbers, onProgress);
+}
+
 /**
  * Converts all pages of a PDF ArrayBuffer into image data URIs.
  * Optimized for memory: uses JPEG format and lower scale for OCR.
  * @param pdfBuffer The ArrayBuffer of the PDF file.
  * @param signal Optional AbortSignal to cancel the operation.
+ * @param password Password of an encrypted PDF.
  * @returns A promise that resolves with an array of image data URIs.
  */
-export async function convertAllPdfPagesToImageUris(pdfBuffer: ArrayBuffer, signal?: AbortSignal): Promise<string[]> {
+export async function convertAllPdfPagesToImageUris(pdfBuffer: ArrayBuffer, signal?: AbortSignal, password?: string): Promise<string[]> {
   let pdf: PDFDocumentProxy | null = null;
   try {
-    pdf = await pdfjsLib.getDocument({ data: pdfBuffer }).promise;
+    pdf = await openPdfDocument(pdfBuffer, password);
     const imageUris: string[] = [];
 
     for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
@@ -117,6 +495,7 @@ export async function convertAllPdfPagesToImageUris(pdfBuffer: ArrayBuffer, sign
     if (signal?.aborted || (error instanceof Error && error.message.includes('cancelled'))) {
       throw new ProcessingCancelledError('PDF to image conversion was cancelled');
     }
+    if (isPdfPasswordError(error) || isNetworkError(error)) throw error;
     
     logError(error, { operation: 'convertAllPdfPagesToImageUris' });
     
@@ -138,60 +517,50 @@ export async function convertAllPdfPagesToImageUris(pdfBuffer: ArrayBuffer, sign
   }
 }
 
+export interface PageRenderOptions {
+  scale?: number; // Defaults to 1.0, enough for OCR; thumbnails use much less
+  pageNumbers?: number[]; // The 1-based pages to render; all pages when omitted
+}
+
+// JPEG keeps rendered pages small; the quality is ample for OCR
+const RENDERED_PAGE_TYPE = 'image/jpeg';
+const RENDERED_PAGE_QUALITY = 0.85;
+
 /**
- * Processes PDF pages incrementally, converting each page to an image and calling a callback.
- * This is memory-efficient as it processes one page at a time and releases memory immediately.
- * @param pdfBuffer The ArrayBuffer of the PDF file.
- * @param onPageProcessed Callback function called for each page with the image data URI.
- * @param signal Optional AbortSignal to cancel the operation.
- * @returns A promise that resolves when all pages are processed.
+ * Renders the selected pages one at a time with draw, which must finish with the page before the next is
+ * rendered, handling cancellation and cleanup.
  */
-export async function convertPdfPagesToImageUrisIncremental(
+async function forEachRenderedPage(
   pdfBuffer: ArrayBuffer,
-  onPageProcessed: (imageUri: string, pageNum: number, totalPages: number) => Promise<void>,
-  signal?: AbortSignal
+  signal: AbortSignal | undefined,
+  operation: string,
+  password: string | undefined,
+  options: PageRenderOptions,
+  draw: (page: PDFPageProxy, viewport: ReturnType<PDFPageProxy['getViewport']>, pageNum: number, totalPages: number) => Promise<void>
 ): Promise<void> {
   let pdf: PDFDocumentProxy | null = null;
   try {
-    pdf = await pdfjsLib.getDocument({ data: pdfBuffer }).promise;
+    pdf = await openPdfDocument(pdfBuffer, password);
     const totalPages = pdf.numPages;
 
-    for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
+    for (const pageNum of selectedPageNumbers(pdf, options.pageNumbers)) {
       if (signal?.aborted) {
         throw new Error('PDF to image conversion was cancelled');
       }
       
       const page: PDFPageProxy = await pdf.getPage(pageNum);
       // Reduced scale from 1.5 to 1.0 for maximum memory efficiency (sufficient for OCR)
-      const viewport = page.getViewport({ scale: 1.0 });
-
-      const canvas = document.createElement('canvas');
-      const context = canvas.getContext('2d');
-      if (!context) {
-        throw new Error("Could not get canvas context.");
-      }
-      canvas.height = viewport.height;
-      canvas.width = viewport.width;
-
-      await page.render({ canvasContext: context, viewport: viewport }).promise;
-      
-      // Use JPEG for smaller file size
-      const imageUri = canvas.toDataURL('image/jpeg', 0.85);
-      
-      // Process the page immediately
-      await onPageProcessed(imageUri, pageNum, totalPages);
-      
-      // Clean up canvas immediately after processing to free memory
-      context.clearRect(0, 0, canvas.width, canvas.height);
-      canvas.width = 0;
-      canvas.height = 0;
+      const viewport = page.getViewport({ scale: options.scale ?? 1.0 });
+      await draw(page, viewport, pageNum, totalPages);
+      page.cleanup();
     }
   } catch (error) {
     if (signal?.aborted || (error instanceof Error && error.message.includes('cancelled'))) {
       throw new ProcessingCancelledError('PDF to image conversion was cancelled');
     }
+    if (isPdfPasswordError(error) || isNetworkError(error)) throw error;
     
-    logError(error, { operation: 'convertPdfPagesToImageUrisIncremental' });
+    logError(error, { operation });
     
     // Check for network-related errors
     if (error instanceof Error && (error.message.includes('network') || error.message.includes('fetch'))) {
@@ -211,13 +580,87 @@ export async function convertPdfPagesToImageUrisIncremental(
   }
 }
 
+/**
+ * Processes PDF pages incrementally, converting each page to an image and calling a callback.
+ * This is memory-efficient as it processes one page at a time and releases memory immediately.
+ * Runs on the main thread; see pdf-worker-client for the same work in a Web Worker.
+ * @param pdfBuffer The ArrayBuffer of the PDF file.
+ * @param onPageProcessed Callback function called for each page with the image data URI and the document's page count.
+ * @param signal Optional AbortSignal to cancel the operation.
+ * @param password Password of an encrypted PDF.
+ * @param options Render scale and page selection.
+ * @returns A promise that resolves when all pages are processed.
+ */
+export async function convertPdfPagesToImageUrisIncremental(
+  pdfBuffer: ArrayBuffer,
+  onPageProcessed: (imageUri: string, pageNum: number, totalPages: number) => Promise<void>,
+  signal?: AbortSignal,
+  password?: string,
+  options: PageRenderOptions = {}
+): Promise<void> {
+  await forEachRenderedPage(pdfBuffer, signal, 'convertPdfPagesToImageUrisIncremental', password, options, async (page, viewport, pageNum, totalPages) => {
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error("Could not get canvas context.");
+    }
+    canvas.height = viewport.height;
+    canvas.width = viewport.width;
+
+    await page.render({ canvasContext: context, viewport: viewport }).promise;
+    
+    // Use JPEG for smaller file size
+    const imageUri = canvas.toDataURL(RENDERED_PAGE_TYPE, RENDERED_PAGE_QUALITY);
+    
+    // Process the page immediately
+    await onPageProcessed(imageUri, pageNum, totalPages);
+    
+    // Clean up canvas immediately after processing to free memory
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    canvas.width = 0;
+    canvas.height = 0;
+  });
+}
+
+/**
+ * Renders PDF pages one at a time on OffscreenCanvas and hands each over as a JPEG Blob, so pages can be
+ * rendered where there is no document, i.e. in a Web Worker.
+ * @param pdfBuffer The ArrayBuffer of the PDF file.
+ * @param onPageRendered Called for each page with its image; the next page is rendered once it resolves.
+ * @param signal Optional AbortSignal to cancel the operation.
+ * @param password Password of an encrypted PDF.
+ * @param options Render scale and page selection.
+ */
+export async function renderPdfPagesToBlobs(
+  pdfBuffer: ArrayBuffer,
+  onPageRendered: (image: Blob, pageNum: number, totalPages: number) => Promise<void>,
+  signal?: AbortSignal,
+  password?: string,
+  options: PageRenderOptions = {}
+): Promise<void> {
+  await forEachRenderedPage(pdfBuffer, signal, 'renderPdfPagesToBlobs', password, options, async (page, viewport, pageNum, totalPages) => {
+    const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error("Could not get canvas context.");
+    }
+    // pdf.js draws on any 2D context; its types only name the DOM one
+    await page.render({ canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise;
+    const image = await canvas.convertToBlob({ type: RENDERED_PAGE_TYPE, quality: RENDERED_PAGE_QUALITY });
+    canvas.width = 0;
+    canvas.height = 0;
+    await onPageRendered(image, pageNum, totalPages);
+  });
+}
+
 
 /**
  * Validates transaction data for completeness and accuracy
  */
-function validateTransactionData(
+export function validateTransactionData(
   transactions: Array<{date?: string, description?: string, debit?: number, credit?: number, balance?: number | null}>,
-  footer?: { totalDebits?: number, totalCredits?: number, totalWithdrawals?: number, totalDeposits?: number, closingBalance?: number }
+  footer?: { totalDebits?: number, totalCredits?: number, totalWithdrawals?: number, totalDeposits?: number, closingBalance?: number },
+  openingBalance?: number
 ): {
   isValid: boolean;
   issues: string[];
@@ -325,6 +768,14 @@ function validateTransactionData(
     }
   }
 
+  // Running balance check: every row whose printed balance does not follow from the previous one
+  const reconciliation = reconcileTransactions(transactions, openingBalance);
+  reconciliation.rows.forEach(row => {
+    if (row.status === 'mismatch') {
+      accuracyWarnings.push(`Transaction ${row.index + 1}: ${describeRowReconciliation(row)}`);
+    }
+  });
+
   // Validate numeric precision - check for potential rounding issues
   transactions.forEach((t, index) => {
     if (t.debit !== undefined && t.debit !== null) {
@@ -354,13 +805,55 @@ function validateTransactionData(
   };
 }
 
+/**
+ * Splits a statement holding several currency sub-accounts into one statement per currency, each with
+ * the sub-account's balances and totals and the transactions tagged with its currency.
+ * Returns a single-entry list for ordinary statements.
+ */
+export function splitCurrencySubAccounts(structuredData: StructuredPdfDataOutput): StructuredPdfDataOutput[] {
+  const { header, footer, transactions, subAccounts = [] } = structuredData;
+  const currencies = [...new Set([
+    ...subAccounts.map(account => account.currency.toUpperCase()),
+    ...transactions.map(t => t.accountCurrency?.toUpperCase()).filter((currency): currency is string => Boolean(currency)),
+  ])];
+  if (currencies.length < 2) return [structuredData];
+
+  // Rows the AI did not tag belong to the account's main currency, else to the first sub-account
+  const defaultCurrency = header?.currency?.toUpperCase() && currencies.includes(header.currency.toUpperCase())
+    ? header.currency.toUpperCase()
+    : currencies[0];
+  return currencies.map(currency => {
+    const account = subAccounts.find(candidate => candidate.currency.toUpperCase() === currency);
+    // Statement-level balances and totals describe the main currency account
+    const isMainAccount = currency === header?.currency?.toUpperCase();
+    return {
+      header: {
+        ...header,
+        accountNumber: account?.accountNumber ?? header?.accountNumber,
+        openingBalance: account?.openingBalance ?? (isMainAccount ? header?.openingBalance : undefined),
+        currency,
+      },
+      transactions: transactions.filter(t => (t.accountCurrency?.toUpperCase() || defaultCurrency) === currency),
+      footer: {
+        closingBalance: account?.closingBalance ?? (isMainAccount ? footer?.closingBalance : undefined),
+        totalDebits: account?.totalDebits ?? (isMainAccount ? footer?.totalDebits : undefined),
+        totalCredits: account?.totalCredits ?? (isMainAccount ? footer?.totalCredits : undefined),
+      },
+    };
+  });
+}
+
 /**
  * Formats structured PDF data for Excel export, including headers and footers
- * Returns data with proper types (numbers for numeric fields, strings for text)
+ * Returns data with proper types (numbers for numeric fields, strings for text),
+ * along with the validation issues and accuracy warnings found in the transactions
  */
-export function formatStructuredDataForExcel(structuredData: StructuredPdfDataOutput | null): Array<Array<string | number | null>> {
+export function formatStructuredDataForExcel(structuredData: StructuredPdfDataOutput | null): FormattedDocument {
   if (!structuredData || !structuredData.transactions || structuredData.transactions.length === 0) {
-    return [["No financial transaction data could be extracted from the document."]];
+    return {
+      data: [["No financial transaction data could be extracted from the document."]],
+      validation: validateTransactionData([]),
+    };
   }
 
   const { header, transactions, footer } = structuredData;
@@ -386,26 +879,54 @@ export function formatStructuredDataForExcel(structuredData: StructuredPdfDataOu
     if (header.openingBalance !== undefined && header.openingBalance !== null) {
       excelData.push(['Opening Balance:', header.openingBalance]);
     }
+    if (header.currency) {
+      excelData.push(['Currency:', header.currency.toUpperCase()]);
+    }
     // Add empty row after header
     excelData.push([]);
   }
 
+  // Rows whose running balance does not reconcile get an extra flag column
+  const reconciliation = reconcileTransactions(transactions, header?.openingBalance);
+  const includeReconciliation = !reconciliation.isReconciled;
+
+  // Foreign-currency rows keep their original amount and currency in two extra columns
+  const includeOriginalAmounts = transactions.some(t => t.originalCurrency || (t.originalAmount !== undefined && t.originalAmount !== null));
+
   // Transaction table headers
   const transactionHeaders = ['Date', 'Description', 'Paid Out', 'Paid In', 'Balance'];
+  if (includeOriginalAmounts) {
+    transactionHeaders.push(ORIGINAL_AMOUNT_HEADER, ORIGINAL_CURRENCY_HEADER);
+  }
+  if (includeReconciliation) {
+    transactionHeaders.push(RECONCILIATION_COLUMN_HEADER);
+  }
   excelData.push(transactionHeaders);
 
   // Transaction rows - preserve number types for proper Excel formatting
-  const dataRows = transactions.map(t => [
-    t.date || '',
-    t.description || '',
-    t.debit !== undefined && t.debit !== null ? t.debit : null,
-    t.credit !== undefined && t.credit !== null ? t.credit : null,
-    t.balance !== undefined && t.balance !== null ? t.balance : null,
-  ]);
+  const dataRows = transactions.map((t, index) => {
+    const row: Array<string | number | null> = [
+      t.date || '',
+      t.description || '',
+      t.debit !== undefined && t.debit !== null ? t.debit : null,
+      t.credit !== undefined && t.credit !== null ? t.credit : null,
+      t.balance !== undefined && t.balance !== null ? t.balance : null,
+    ];
+    if (includeOriginalAmounts) {
+      row.push(t.originalAmount ?? null, t.originalCurrency?.toUpperCase() || null);
+    }
+    if (includeReconciliation) {
+      row.push(describeRowReconciliation(reconciliation.rows[index]) || null);
+    }
+    return row;
+  });
   excelData.push(...dataRows);
 
+  // Validate data and accuracy
+  const validation = validateTransactionData(transactions, footer, header?.openingBalance);
+
   if (excelData.length === (header ? 7 : 1)) { // Only headers are present (header section + empty row + table header)
-     return [["No financial transaction data could be extracted from the document."]];
+     return { data: [["No financial transaction data could be extracted from the document."]], validation };
   }
 
   // Add empty row before footer
@@ -435,51 +956,26 @@ export function formatStructuredDataForExcel(structuredData: StructuredPdfDataOu
     }
   }
 
-  // Validate data and accuracy
-  const validation = validateTransactionData(transactions, footer);
-  if (!validation.isValid && validation.issues.length > 0) {
-    console.warn("Data validation issues:", validation.issues);
-  }
-  if (validation.accuracyWarnings.length > 0) {
-    console.warn("Accuracy warnings (totals may not match PDF):", validation.accuracyWarnings);
-  }
-
-  return excelData;
+  return { data: excelData, validation };
 }
 
 
 /**
- * @deprecated This function is too simplistic for complex PDF layouts. 
- * Use AI-driven structuring (structurePdfDataFlow) and formatStructuredDataForExcel instead.
+ * Formats generically extracted tables for Excel export, one worksheet per table.
+ * The original column headers are kept as the first row of each sheet.
  */
-export function parseTextToTableData(text: string): string[][] {
-  console.warn("parseTextToTableData is deprecated. Use AI-driven structuring.");
-  if (!text) return [];
-
-  const lines = text.split('\n').filter(line => line.trim() !== '');
-  const table: string[][] = [];
-
-  for (const line of lines) {
-    const normalizedLine = line.replace(/\t/g, '    '); 
-    const cells = normalizedLine.split(/ {2,}/).map(cell => cell.trim()).filter(cell => cell !== '');
-    
-    if (cells.length > 0) { 
-      table.push(cells);
-    }
-  }
-  
-  if (table.every(row => row.length === 1) && table.length > 1) {
-    const reprocessedTable: string[][] = [];
-    for (const line of lines) {
-        const cells = line.split(/\s+/).map(cell => cell.trim()).filter(cell => cell !== '');
-        if (cells.length > 0) {
-            reprocessedTable.push(cells);
-        }
-    }
-    if(reprocessedTable.length > 0 && !reprocessedTable.every(row => row.length === 1)) {
-        return reprocessedTable;
-    }
+export function formatExtractedTablesForExcel(extractedTables: ExtractTablesOutput | null): ExcelSheet[] {
+  if (!extractedTables || !extractedTables.tables || extractedTables.tables.length === 0) {
+    return [{ name: 'Sheet1', data: [["No tables could be extracted from the document."]], kind: 'table' }];
   }
 
-  return table.length > 0 ? table : [[text]]; 
+  return extractedTables.tables.map((table, index) => ({
+    name: table.title?.trim() || `Table ${index + 1}`,
+    data: [
+      table.headers,
+      // Plain numbers become numbers, as when they are typed into the grid
+      ...table.rows.map(row => row.map(parseCellInput)),
+    ],
+    kind: 'table' as const,
+  }));
 }
@@ -0,0 +1,192 @@
+"use client";
+
+import type { LayoutPage } from '@/lib/pdf-layout';
+import {
+  convertPdfPagesToImageUrisIncremental,
+  extractLayoutFromPdfPages,
+  extractTextFromPdfPages,
+  readPdfPages,
+  type PageRenderOptions,
+  type PdfPageContent,
+  type PdfPageProgress,
+  type TextExtractionMode,
+} from '@/lib/pdf-utils';
+import {
+  deserializePdfWorkerError,
+  type PdfWorkerRequest,
+  type PdfWorkerResponse,
+  type PdfWorkerTask,
+} from '@/lib/pdf-worker-protocol';
+import { NetworkError, ProcessingCancelledError } from '@/types/errors';
+
+/**
+ * Runs PDF text extraction and page rendering in a Web Worker, with the same signatures as the main-thread
+ * functions in pdf-utils. Browsers without Web Workers or OffscreenCanvas fall back to those functions.
+ * The PDF buffer is transferred to the worker and is unusable afterwards; pass a copy if it is needed again.
+ */
+
+// Rendered pages the worker may get ahead of the caller, which bounds the page images held in memory
+// while still rendering the next page during OCR of the current one
+const RENDER_WINDOW_SIZE = 2;
+
+export function isPdfWorkerSupported(): boolean {
+  return typeof window !== 'undefined' && typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+}
+
+function blobToDataUri(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("Could not read the rendered page."));
+    reader.readAsDataURL(blob);
+  });
+}
+
+type DoneMessage = Extract<PdfWorkerResponse, { kind: 'done' }>;
+type PageMessage = Extract<PdfWorkerResponse, { kind: 'page' }>;
+
+/**
+ * Starts a worker for one task and resolves with its result. Progress is reported as it arrives; rendered
+ * pages are handed to onPage one at a time and acknowledged once it resolves. Aborting terminates the worker.
+ */
+function runPdfWorkerTask(
+  task: PdfWorkerTask,
+  pdfBuffer: ArrayBuffer,
+  signal: AbortSignal | undefined,
+  password: string | undefined,
+  pageNumbers: number[] | undefined,
+  handlers: { onProgress?: PdfPageProgress; onPage?: (message: PageMessage) => Promise<void> } = {}
+): Promise<DoneMessage> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ProcessingCancelledError());
+      return;
+    }
+    const worker = new Worker(new URL('../workers/pdf-processing.worker.ts', import.meta.url), { type: 'module' });
+    // Messages are handled in order, so a page is finished before the next one is looked at
+    let queue = Promise.resolve();
+    let settled = false;
+
+    const finish = (error: Error | null, result?: DoneMessage) => {
+      if (settled) return;
+      settled = true;
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+      if (error) reject(error);
+      else resolve(result as DoneMessage);
+    };
+    const onAbort = () => finish(new ProcessingCancelledError('PDF processing was cancelled'));
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<PdfWorkerResponse>) => {
+      const message = event.data;
+      queue = queue.then(async () => {
+        if (settled) return;
+        switch (message.kind) {
+          case 'progress':
+            handlers.onProgress?.(message.pageNum, message.totalPages);
+            return;
+          case 'page':
+            await handlers.onPage?.(message);
+            if (!settled) worker.postMessage({ kind: 'ack', pageNum: message.pageNum } satisfies PdfWorkerRequest);
+            return;
+          case 'done':
+            finish(null, message);
+            return;
+          case 'error':
+            finish(deserializePdfWorkerError(message.error));
+            return;
+        }
+      }).catch(error => finish(error instanceof Error ? error : new Error(String(error))));
+    };
+    // The worker catches its own errors, so this only fires when its script cannot be loaded
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish(new NetworkError('The PDF reader could not be started. Please reload the page and try again.'));
+    };
+
+    const start: PdfWorkerRequest = { kind: 'start', task, buffer: pdfBuffer, password, pageNumbers };
+    worker.postMessage(start, [pdfBuffer]);
+  });
+}
+
+/**
+ * Extracts the text of each page in a Web Worker. See extractTextFromPdfPages.
+ */
+export async function extractTextFromPdfPagesInWorker(
+  pdfBuffer: ArrayBuffer,
+  signal?: AbortSignal,
+  mode: TextExtractionMode = 'plain',
+  password?: string,
+  pageNumbers?: number[],
+  onProgress?: PdfPageProgress
+): Promise<string[]> {
+  if (!isPdfWorkerSupported()) {
+    return extractTextFromPdfPages(pdfBuffer, signal, mode, password, pageNumbers, onProgress);
+  }
+  const result = await runPdfWorkerTask({ type: 'text', mode }, pdfBuffer, signal, password, pageNumbers, { onProgress });
+  return result.texts ?? [];
+}
+
+/**
+ * Reads the layout of each page in a Web Worker. See extractLayoutFromPdfPages.
+ */
+export async function extractLayoutFromPdfPagesInWorker(
+  pdfBuffer: ArrayBuffer,
+  signal?: AbortSignal,
+  password?: string,
+  pageNumbers?: number[],
+  onProgress?: PdfPageProgress
+): Promise<LayoutPage[]> {
+  if (!isPdfWorkerSupported()) {
+    return extractLayoutFromPdfPages(pdfBuffer, signal, password, pageNumbers, onProgress);
+  }
+  const result = await runPdfWorkerTask({ type: 'layout' }, pdfBuffer, signal, password, pageNumbers, { onProgress });
+  return result.layout ?? [];
+}
+
+/**
+ * Reads the text of each page with its text density and glyph coverage in a Web Worker. See readPdfPages.
+ */
+export async function readPdfPagesInWorker(
+  pdfBuffer: ArrayBuffer,
+  signal?: AbortSignal,
+  mode: TextExtractionMode = 'plain',
+  password?: string,
+  pageNumbers?: number[],
+  onProgress?: PdfPageProgress
+): Promise<PdfPageContent[]> {
+  if (!isPdfWorkerSupported()) {
+    return readPdfPages(pdfBuffer, signal, mode, password, pageNumbers, onProgress);
+  }
+  const result = await runPdfWorkerTask({ type: 'pages', mode }, pdfBuffer, signal, password, pageNumbers, { onProgress });
+  return result.pages ?? [];
+}
+
+/**
+ * Renders pages to image data URIs in a Web Worker, one at a time. See convertPdfPagesToImageUrisIncremental.
+ */
+export async function convertPdfPagesToImageUrisInWorker(
+  pdfBuffer: ArrayBuffer,
+  onPageProcessed: (imageUri: string, pageNum: number, totalPages: number) => Promise<void>,
+  signal?: AbortSignal,
+  password?: string,
+  options: PageRenderOptions = {}
+): Promise<void> {
+  if (!isPdfWorkerSupported()) {
+    return convertPdfPagesToImageUrisIncremental(pdfBuffer, onPageProcessed, signal, password, options);
+  }
+  await runPdfWorkerTask(
+    { type: 'render', scale: options.scale, window: RENDER_WINDOW_SIZE },
+    pdfBuffer,
+    signal,
+    password,
+    options.pageNumbers,
+    {
+      onPage: async ({ image, type, pageNum, totalPages }) => {
+        const imageUri = await blobToDataUri(new Blob([image], { type }));
+        await onPageProcessed(imageUri, pageNum, totalPages);
+      },
+    }
+  );
+}
@@ -0,0 +1,63 @@
+import type { LayoutPage } from '@/lib/pdf-layout';
+import type { PdfPageContent, TextExtractionMode } from '@/lib/pdf-utils';
+import {
+  NetworkError,
+  PdfPasswordError,
+  ProcessingCancelledError,
+  isNetworkError,
+  isPdfPasswordError,
+} from '@/types/errors';
+
+/**
+ * Messages between the page and the PDF processing worker (src/workers/pdf-processing.worker.ts).
+ * Each worker runs one task: the page starts it with the PDF, whose buffer is transferred rather than
+ * copied, and the worker answers with progress, rendered pages and finally the result or an error.
+ */
+
+export type PdfWorkerTask =
+  | { type: 'text'; mode: TextExtractionMode }
+  | { type: 'layout' }
+  | { type: 'pages'; mode: TextExtractionMode }
+  // Pages are rendered at most `window` ahead of the ones the page has acknowledged
+  | { type: 'render'; scale?: number; window: number };
+
+export type PdfWorkerRequest =
+  | { kind: 'start'; task: PdfWorkerTask; buffer: ArrayBuffer; password?: string; pageNumbers?: number[] }
+  // The page is done with a rendered page, so the worker may render another
+  | { kind: 'ack'; pageNum: number };
+
+export type PdfWorkerResponse =
+  | { kind: 'progress'; pageNum: number; totalPages: number }
+  // The image's buffer is transferred
+  | { kind: 'page'; pageNum: number; totalPages: number; image: ArrayBuffer; type: string }
+  | { kind: 'done'; texts?: string[]; layout?: LayoutPage[]; pages?: PdfPageContent[] }
+  | { kind: 'error'; error: SerializedPdfWorkerError };
+
+export interface SerializedPdfWorkerError {
+  name: string;
+  message: string;
+  code?: string;
+  statusCode?: number;
+}
+
+/** Flattens an error for postMessage, keeping what is needed to rebuild the app's error classes. */
+export function serializePdfWorkerError(error: unknown): SerializedPdfWorkerError {
+  if (isPdfPasswordError(error)) return { name: error.name, message: error.message, code: error.code };
+  if (isNetworkError(error)) return { name: error.name, message: error.message, statusCode: error.statusCode };
+  if (error instanceof Error) return { name: error.name, message: error.message };
+  return { name: 'Error', message: String(error) };
+}
+
+/** Rebuilds an error posted by the worker, so callers can handle it as if the work ran on the page. */
+export function deserializePdfWorkerError(error: SerializedPdfWorkerError): Error {
+  switch (error.name) {
+    case 'PdfPasswordError':
+      return new PdfPasswordError(error.code === 'PDF_PASSWORD_INCORRECT', error.message);
+    case 'NetworkError':
+      return new NetworkError(error.message, error.statusCode);
+    case 'ProcessingCancelledError':
+      return new ProcessingCancelledError(error.message);
+    default:
+      return new Error(error.message);
+  }
+}
@@ -0,0 +1,44 @@
+import { cookies } from 'next/headers';
+import { v4 as uuidv4 } from 'uuid';
+import { getFirebaseAdminApp } from '@/lib/firebase-admin-config';
+import type { QuotaLedgerOwner } from '@/lib/firebase-quota-ledger-service';
+import { PermissionError } from '@/types/errors';
+
+// This file is for SERVER-SIDE use only.
+// Signed-in callers are identified by a verified Firebase ID token, so usage follows the
+// account across devices. Guests are identified by an HTTP-only cookie set by the server.
+
+const GUEST_ID_COOKIE = 'xlsconvert_guest_id';
+const GUEST_ID_COOKIE_MAX_AGE_S = 365 * 24 * 60 * 60;
+
+export async function verifyUserId(idToken: string): Promise<string> {
+  try {
+    const decodedToken = await getFirebaseAdminApp().auth().verifyIdToken(idToken);
+    return decodedToken.uid;
+  } catch {
+    throw new PermissionError("Your session could not be verified. Please sign in again.", 'conversion_quotas', 'verify');
+  }
+}
+
+/**
+ * The ledger of the caller of a server action: the signed-in user's for an ID token, the guest's otherwise.
+ */
+export async function resolveLedgerOwner(idToken: string | null): Promise<QuotaLedgerOwner> {
+  if (idToken) {
+    return { ledgerId: await verifyUserId(idToken), isGuest: false };
+  }
+
+  const cookieStore = await cookies();
+  let guestId = cookieStore.get(GUEST_ID_COOKIE)?.value;
+  if (!guestId) {
+    guestId = uuidv4();
+    cookieStore.set(GUEST_ID_COOKIE, guestId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: GUEST_ID_COOKIE_MAX_AGE_S,
+      path: '/',
+    });
+  }
+  return { ledgerId: `guest_${guestId}`, isGuest: true };
+}
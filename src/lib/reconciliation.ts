@@ -0,0 +1,185 @@
+import type { Transaction } from '@/ai/flows/structure-pdf-data-flow';
+
+/**
+ * Running-balance reconciliation for bank statements.
+ * Starting from the opening balance, each row's balance is recomputed from its debit and credit
+ * and compared with the balance printed on the statement.
+ */
+
+// 1 cent tolerance for rounding differences
+const BALANCE_TOLERANCE = 0.01;
+
+// Header of the extra transaction column that carries reconciliation flags in the Excel grid
+export const RECONCILIATION_COLUMN_HEADER = 'Balance Check';
+
+export type ReconciliationStatus = 'ok' | 'mismatch' | 'unverified';
+
+export type ReconciliationFixKind = 'swapDebitCredit' | 'balanceMisread' | 'amountMisread' | 'missingRow';
+
+export interface ReconciliationFix {
+  kind: ReconciliationFixKind;
+  message: string;
+}
+
+export interface RowReconciliation {
+  index: number; // 0-based transaction index
+  status: ReconciliationStatus;
+  computedBalance: number | null;
+  extractedBalance: number | null;
+  difference: number | null; // extracted minus computed
+  suggestedFixes: ReconciliationFix[];
+}
+
+export interface ReconciliationResult {
+  openingBalance: number | null;
+  openingBalanceSource: 'header' | 'firstRow' | 'none';
+  rows: RowReconciliation[];
+  flaggedCount: number;
+  isReconciled: boolean;
+}
+
+type ReconcilableTransaction = Pick<Transaction, 'debit' | 'credit'> & { balance?: number | null };
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function matches(a: number, b: number): boolean {
+  return Math.abs(a - b) <= BALANCE_TOLERANCE;
+}
+
+function formatAmount(value: number): string {
+  return value.toFixed(2);
+}
+
+function applyRow(balance: number, transaction: ReconcilableTransaction): number {
+  return roundCents(balance - (transaction.debit || 0) + (transaction.credit || 0));
+}
+
+/**
+ * Works out why a row does not reconcile, most likely explanation first.
+ */
+function suggestFixes(
+  previousBalance: number,
+  computed: number,
+  extracted: number,
+  transaction: ReconcilableTransaction,
+  next: ReconcilableTransaction | undefined
+): ReconciliationFix[] {
+  const fixes: ReconciliationFix[] = [];
+  const debit = transaction.debit || 0;
+  const credit = transaction.credit || 0;
+  const difference = roundCents(extracted - computed);
+
+  if ((debit || credit) && matches(roundCents(previousBalance + debit - credit), extracted)) {
+    fixes.push({ kind: 'swapDebitCredit', message: 'Paid out and paid in look swapped.' });
+  }
+
+  const nextBalance = next?.balance;
+  if (next && nextBalance !== undefined && nextBalance !== null) {
+    const nextFromComputed = matches(applyRow(computed, next), nextBalance);
+    const nextFromExtracted = matches(applyRow(extracted, next), nextBalance);
+    if (nextFromComputed && !nextFromExtracted) {
+      fixes.push({ kind: 'balanceMisread', message: `Balance may be misread; expected ${formatAmount(computed)}.` });
+      return fixes;
+    }
+  }
+
+  if (debit && !credit) {
+    const impliedDebit = roundCents(previousBalance - extracted);
+    if (impliedDebit > 0) {
+      fixes.push({ kind: 'amountMisread', message: `Paid out may be ${formatAmount(impliedDebit)} instead of ${formatAmount(debit)}.` });
+    }
+  } else if (credit && !debit) {
+    const impliedCredit = roundCents(extracted - previousBalance);
+    if (impliedCredit > 0) {
+      fixes.push({ kind: 'amountMisread', message: `Paid in may be ${formatAmount(impliedCredit)} instead of ${formatAmount(credit)}.` });
+    }
+  }
+
+  fixes.push({
+    kind: 'missingRow',
+    message: `A ${difference > 0 ? 'deposit' : 'withdrawal'} of ${formatAmount(Math.abs(difference))} may be missing before this row.`,
+  });
+  return fixes;
+}
+
+/**
+ * Recomputes the running balance row by row and flags every row whose printed balance disagrees.
+ * After a flagged row the running balance continues from the most plausible value, so a single
+ * error is reported once instead of on every following row.
+ */
+export function reconcileTransactions(
+  transactions: ReconcilableTransaction[],
+  openingBalance?: number | null
+): ReconciliationResult {
+  const rows: RowReconciliation[] = [];
+  let openingBalanceSource: ReconciliationResult['openingBalanceSource'] = 'none';
+  let running: number | null = null;
+
+  if (openingBalance !== undefined && openingBalance !== null) {
+    running = openingBalance;
+    openingBalanceSource = 'header';
+  } else {
+    // Without an opening balance, work backwards from the first printed balance
+    const first = transactions[0];
+    if (first && first.balance !== undefined && first.balance !== null) {
+      running = roundCents(first.balance + (first.debit || 0) - (first.credit || 0));
+      openingBalanceSource = 'firstRow';
+    }
+  }
+  const startingBalance = running;
+
+  transactions.forEach((transaction, index) => {
+    const extracted = transaction.balance ?? null;
+
+    if (running === null) {
+      rows.push({ index, status: 'unverified', computedBalance: null, extractedBalance: extracted, difference: null, suggestedFixes: [] });
+      if (extracted !== null) running = extracted;
+      return;
+    }
+
+    const computed = applyRow(running, transaction);
+    if (extracted === null) {
+      rows.push({ index, status: 'unverified', computedBalance: computed, extractedBalance: null, difference: null, suggestedFixes: [] });
+      running = computed;
+      return;
+    }
+
+    if (matches(computed, extracted)) {
+      rows.push({ index, status: 'ok', computedBalance: computed, extractedBalance: extracted, difference: 0, suggestedFixes: [] });
+      running = extracted;
+      return;
+    }
+
+    const suggestedFixes = suggestFixes(running, computed, extracted, transaction, transactions[index + 1]);
+    rows.push({
+      index,
+      status: 'mismatch',
+      computedBalance: computed,
+      extractedBalance: extracted,
+      difference: roundCents(extracted - computed),
+      suggestedFixes,
+    });
+    running = suggestedFixes[0]?.kind === 'balanceMisread' ? computed : extracted;
+  });
+
+  const flaggedCount = rows.filter(row => row.status === 'mismatch').length;
+  return {
+    openingBalance: startingBalance,
+    openingBalanceSource,
+    rows,
+    flaggedCount,
+    isReconciled: flaggedCount === 0,
+  };
+}
+
+/**
+ * Short text for a row's reconciliation flag, as shown in the preview and the exported workbook.
+ */
+export function describeRowReconciliation(row: RowReconciliation): string {
+  if (row.status !== 'mismatch' || row.difference === null || row.computedBalance === null) return '';
+  const summary = `Off by ${formatAmount(Math.abs(row.difference))} (expected ${formatAmount(row.computedBalance)})`;
+  const fix = row.suggestedFixes[0];
+  return fix ? `${summary}. ${fix.message}` : `${summary}.`;
+}
@@ -0,0 +1,352 @@
+import type { StructuredPdfDataOutput, Transaction } from '@/ai/flows/structure-pdf-data-flow';
+import type { LayoutColumn, LayoutPage } from '@/lib/pdf-layout';
+import { layoutPageToText, rowsForColumns } from '@/lib/pdf-layout';
+import { reconcileTransactions } from '@/lib/reconciliation';
+import {
+  buildMonthNames,
+  detectStatementLocale,
+  parseLocaleNumber,
+  parseStatementDate,
+  type DateOrder,
+  type StatementLocale,
+  type StatementLocaleHints,
+} from '@/lib/statement-normalization';
+
+/**
+ * Deterministic bank statement extraction from the page layout (see pdf-layout), without AI.
+ * The transaction table is found by its header row ("Date", "Description", "Paid out", "Balance", ...),
+ * every following table line is read cell by cell and the result is scored: the share of table lines
+ * that could be read, times the share of printed balances that agree with the running balance.
+ * Callers use the result only when the confidence is high and fall back to AI structuring otherwise.
+ * A saved layout template (see extraction-templates) replaces the header and column detection.
+ */
+
+export interface RuleBasedExtraction {
+  data: StructuredPdfDataOutput;
+  confidence: number; // 0 to 1
+  /** Why the confidence is below 1, for logging. */
+  reasons: string[];
+}
+
+export type ColumnRole = 'date' | 'description' | 'debit' | 'credit' | 'amount' | 'balance';
+
+/** The x-range of a statement column and what it holds. */
+export interface TemplateColumn {
+  role: ColumnRole;
+  left: number;
+  right: number;
+}
+
+/** A known statement layout: where its columns are and how its table and values are written. */
+export interface LayoutTableTemplate {
+  columns: TemplateColumn[]; // Left to right
+  headerAnchors: string[]; // Lower-cased header cell texts, e.g. ["date", "details", "paid out"]
+  dateOrder: DateOrder;
+  decimalSeparator: StatementLocale['decimalSeparator'];
+  skipPatterns: string[]; // Regular expressions for lines inside the table that are not transactions
+}
+
+// Column index of each role; a transaction table always has a date column
+type ColumnMap = Partial<Record<ColumnRole, number>> & { date: number };
+
+interface ParsedAmount {
+  value: number; // Signed: negative for "(45.00)", "-45.00", "45.00-" and "45.00 DR"
+}
+
+// Header cell patterns, checked in this order so "Transaction date" is a date and "Balance" never an amount
+const HEADER_PATTERNS: Array<[ColumnRole, RegExp]> = [
+  ['balance', /balance|saldo|solde/],
+  ['date', /\bdate\b|datum|fecha|\bdata\b/],
+  ['debit', /debit|withdrawal|paid out|money out|payments?\b|\bout\b|soll|cargo|ausgang/],
+  ['credit', /credit|deposit|paid in|money in|receipts?\b|\bin\b|haben|abono|eingang/],
+  ['amount', /amount|betrag|montant|importe|importo/],
+  ['description', /description|details|particulars|narrat|transaction|memo|payee|reference|verwendungszweck|libell|concepto|buchungstext/],
+];
+
+const OPENING_BALANCE_PATTERN = /brought forward|opening balance|previous balance|balance forward|\bb\/f\b|saldo anterior|anfangssaldo|alter saldo|solde pr[eé]c[eé]dent|solde initial/i;
+const CLOSING_BALANCE_PATTERN = /carried forward|closing balance|new balance|\bc\/f\b|endsaldo|neuer saldo|saldo final|solde final|solde nouveau/i;
+const TOTAL_PATTERN = /^(sub)?totals?\b|^summe|^gesamt|^total/i;
+
+const AMOUNT_CELL_PATTERN = /^(\d{1,3}(?:[.,'\u00a0\u202f ]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?)$/;
+const CURRENCY_SYMBOLS: Record<string, string> = { '£': 'GBP', '€': 'EUR', '¥': 'JPY', '₹': 'INR' };
+
+// Minimum number of transactions before the extraction is trusted at all
+const MIN_TRANSACTIONS = 2;
+// Score for a table that has no balances to check the amounts against
+const UNVERIFIED_BALANCE_SCORE = 0.6;
+
+/**
+ * Reads an amount cell: "1,234.56", "(45.00)", "45.00-", "-£45.00", "1.234,56 DR", "12.00 CR".
+ * Returns null for an empty cell and undefined when the cell holds something that is not an amount.
+ */
+export function parseAmountCell(text: string, decimalSeparator: StatementLocale['decimalSeparator']): ParsedAmount | null | undefined {
+  let value = text.trim();
+  if (value === '' || value === '-' || value === '—') return null;
+
+  let negative = false;
+  const marker = value.match(/\s*(DR|Dr|CR|Cr|D|C)\.?$/);
+  if (marker) {
+    negative = marker[1].toUpperCase().startsWith('D');
+    value = value.slice(0, marker.index).trim();
+  }
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1).trim();
+  }
+  if (/^[-−]/.test(value)) {
+    negative = true;
+    value = value.slice(1).trim();
+  }
+  if (/[-−]$/.test(value)) {
+    negative = true;
+    value = value.slice(0, -1).trim();
+  }
+  value = value.replace(/^([£€$¥₹]|[A-Z]{3})\s*|\s*([£€$¥₹]|[A-Z]{3})$/g, '');
+  if (/^[-−]/.test(value)) {
+    negative = true;
+    value = value.slice(1).trim();
+  }
+
+  if (!AMOUNT_CELL_PATTERN.test(value)) return undefined;
+  const parsed = parseLocaleNumber(value, decimalSeparator);
+  if (parsed === null) return undefined;
+  return { value: negative ? -parsed : parsed };
+}
+
+/**
+ * Recognises a transaction table header row by its cell texts and returns the column of each role,
+ * or null when the row is not a header (it needs a date and an amount column).
+ */
+export function matchHeaderRow(cells: string[]): ColumnMap | null {
+  const map: Partial<Record<ColumnRole, number>> = {};
+  cells.forEach((cell, index) => {
+    const text = cell.toLowerCase().replace(/\s+/g, ' ').trim();
+    if (!text || text.length > 40) return;
+    const role = HEADER_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+    if (role && map[role] === undefined) map[role] = index;
+  });
+  const hasAmounts = map.debit !== undefined || map.credit !== undefined || map.amount !== undefined;
+  return map.date !== undefined && hasAmounts && Object.keys(map).length >= 3 ? { ...map, date: map.date } : null;
+}
+
+// A header row of the template's layout: at least half of its anchors appear among the cells
+function matchTemplateHeader(cells: string[], template: LayoutTableTemplate): ColumnMap | null {
+  const texts = cells.map(cell => cell.toLowerCase().replace(/\s+/g, ' ').trim());
+  const found = template.headerAnchors.filter(anchor => texts.includes(anchor)).length;
+  if (template.headerAnchors.length === 0 || found * 2 < template.headerAnchors.length) return null;
+  return templateColumnMap(template);
+}
+
+function templateColumnMap(template: LayoutTableTemplate): ColumnMap | null {
+  const map: Partial<Record<ColumnRole, number>> = {};
+  template.columns.forEach((column, index) => { map[column.role] = index; });
+  return map.date !== undefined ? { ...map, date: map.date } : null;
+}
+
+function compileSkipPatterns(patterns: string[]): RegExp[] {
+  return patterns.flatMap(pattern => {
+    try {
+      return [new RegExp(pattern, 'i')];
+    } catch {
+      return []; // Ignore a pattern that no longer compiles
+    }
+  });
+}
+
+function columnIndexOf(x: number, columns: LayoutColumn[]): number {
+  return columns.findIndex(column => x >= column.left - 1 && x <= column.right + 1);
+}
+
+// The statement currency from the classification hint, else from an ISO code or symbol near "currency"
+function detectCurrency(text: string, hints: StatementLocaleHints): string | undefined {
+  if (hints.currency) return hints.currency.toUpperCase();
+  const labelled = text.match(/currency\s*:?\s*\|?\s*([A-Z]{3})\b/i);
+  if (labelled) return labelled[1].toUpperCase();
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find(candidate => text.includes(candidate));
+  return symbol ? CURRENCY_SYMBOLS[symbol] : undefined;
+}
+
+function detectHeaderFields(text: string): { accountNumber?: string; statementPeriod?: string } {
+  const accountNumber = text.match(/(?:account (?:number|no\.?)|iban)\s*:?\s*\|?\s*([A-Z0-9][A-Z0-9 -]{3,32}[A-Z0-9])/i)?.[1];
+  const statementPeriod = text.match(/(?:statement )?period\s*:?\s*\|?\s*([^\n|]+)/i)?.[1]?.trim();
+  return { accountNumber, statementPeriod };
+}
+
+// The year written most often in the text, for dates printed without one
+function inferYear(text: string): number | null {
+  const counts = new Map<number, number>();
+  for (const match of text.matchAll(/\b(?:19|20)\d{2}\b/g)) counts.set(Number(match[0]), (counts.get(Number(match[0])) ?? 0) + 1);
+  return counts.size > 0 ? [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0] : null;
+}
+
+/**
+ * Extracts the transactions of a bank statement from page layouts and scores how much the result can be trusted.
+ * With a template, its column ranges, header anchors, date order and skip patterns are used instead of detection.
+ */
+export function extractStatementFromLayout(
+  pages: LayoutPage[],
+  hints: StatementLocaleHints = {},
+  template?: LayoutTableTemplate
+): RuleBasedExtraction {
+  const rawText = pages.map(layoutPageToText).join('\n\n');
+  const detectedLocale = detectStatementLocale(rawText, hints);
+  const locale: StatementLocale = template
+    ? { ...detectedLocale, dateOrder: template.dateOrder, decimalSeparator: template.decimalSeparator }
+    : detectedLocale;
+  const skipPatterns = compileSkipPatterns(template?.skipPatterns ?? []);
+  const monthNames = buildMonthNames(locale.language);
+  const { accountNumber, statementPeriod } = detectHeaderFields(rawText);
+  const fallbackYear = inferYear(statementPeriod ?? '') ?? inferYear(rawText);
+  const reasons: string[] = [];
+
+  const transactions: Transaction[] = [];
+  let openingBalance: number | undefined;
+  let closingBalance: number | undefined;
+  let totalDebits: number | undefined;
+  let totalCredits: number | undefined;
+  let tableLines = 0;
+  let unreadLines = 0;
+  let columnMap = null as ColumnMap | null;
+  let columnCount = 0;
+
+  // The signed amount in a role's cell: null when the table has no such column or the cell is empty
+  const amountOf = (cells: string[], map: ColumnMap, role: ColumnRole): number | null | undefined => {
+    const index = map[role];
+    const parsed = index === undefined ? null : parseAmountCell(cells[index] ?? '', locale.decimalSeparator);
+    return parsed ? parsed.value : parsed;
+  };
+
+  // Opening/closing balance lines, inside or outside the table: the last amount on the line
+  const readBalanceLine = (text: string): boolean => {
+    const isOpening = OPENING_BALANCE_PATTERN.test(text);
+    const isClosing = !isOpening && CLOSING_BALANCE_PATTERN.test(text);
+    if (!isOpening && !isClosing) return false;
+    const amounts = text.split(/\s*\|\s*|\s{2,}|:\s*/).map(part => parseAmountCell(part, locale.decimalSeparator)).filter(Boolean);
+    const value = amounts[amounts.length - 1]?.value;
+    if (value === undefined) return false;
+    if (isOpening && openingBalance === undefined && transactions.length === 0) openingBalance = value;
+    if (isClosing) closingBalance = value;
+    return true;
+  };
+
+  pages.forEach((detectedPage, pageIndex) => {
+    const page: LayoutPage = template
+      ? { ...detectedPage, columns: template.columns, rows: rowsForColumns(detectedPage.lines, template.columns) }
+      : detectedPage;
+    const lineSpacings = page.lines.slice(1).map((line, index) => page.lines[index].y - line.y).filter(gap => gap > 0).sort((a, b) => a - b);
+    const lineSpacing = lineSpacings[Math.floor(lineSpacings.length / 2)] ?? 12;
+    let inTable = false;
+    let previousTransactionY: number | null = null;
+
+    page.rows.forEach((cells, rowIndex) => {
+      const line = page.lines[rowIndex];
+      const text = cells.join(' | ');
+      const isTableLine = page.columns.length > 1 && cells.length === page.columns.length;
+
+      const header = !isTableLine ? null : template ? matchTemplateHeader(cells, template) : matchHeaderRow(cells);
+      if (header) {
+        columnMap = header;
+        columnCount = cells.length;
+        inTable = true;
+        return;
+      }
+      if (!inTable && columnMap && isTableLine && cells.length === columnCount) {
+        // Pages without a repeated header reuse the previous page's columns when the layout matches
+        inTable = true;
+      }
+
+      if (readBalanceLine(text)) return;
+      if (!inTable || !columnMap) return;
+      const map: ColumnMap = columnMap;
+      if (skipPatterns.some(pattern => pattern.test(line.segments.map(segment => segment.text).join(' ')))) return;
+
+      if (!isTableLine) {
+        // A line of description text only, just below a transaction, continues its description
+        const segment = line.segments[0];
+        const continues = line.segments.length === 1
+          && map.description !== undefined
+          && columnIndexOf(segment.x, page.columns) === map.description
+          && previousTransactionY !== null
+          && previousTransactionY - line.y <= lineSpacing * 1.8;
+        if (continues) {
+          const last = transactions[transactions.length - 1];
+          last.description = `${last.description} ${segment.text}`.trim();
+          previousTransactionY = line.y;
+        }
+        return;
+      }
+
+      const description = map.description !== undefined ? cells[map.description].trim() : '';
+      if (TOTAL_PATTERN.test(description) || TOTAL_PATTERN.test(cells[map.date].trim())) {
+        const debits = amountOf(cells, map, 'debit');
+        const credits = amountOf(cells, map, 'credit');
+        if (typeof debits === 'number') totalDebits = Math.abs(debits);
+        if (typeof credits === 'number') totalCredits = Math.abs(credits);
+        return;
+      }
+
+      const debit = amountOf(cells, map, 'debit');
+      const credit = amountOf(cells, map, 'credit');
+      const amount = amountOf(cells, map, 'amount');
+      const balance = amountOf(cells, map, 'balance');
+      const dateText = cells[map.date].trim();
+      const hasAmount = [debit, credit, amount].some(value => typeof value === 'number');
+      if (!dateText && !hasAmount && balance === null) return;
+
+      tableLines++;
+      const unreadable = [debit, credit, amount, balance].some(value => value === undefined);
+      const date = dateText ? parseStatementDate(dateText, locale, fallbackYear, monthNames) : transactions[transactions.length - 1]?.date ?? null;
+      if (unreadable || !date || !hasAmount) {
+        unreadLines++;
+        if (reasons.length < 10) reasons.push(`Page ${pageIndex + 1}: could not read "${text.slice(0, 80)}"`);
+        return;
+      }
+
+      const transaction: Transaction = { date, description, balance: typeof balance === 'number' ? balance : null };
+      if (typeof debit === 'number' && debit !== 0) transaction.debit = Math.abs(debit);
+      if (typeof credit === 'number' && credit !== 0) transaction.credit = Math.abs(credit);
+      if (typeof amount === 'number' && amount !== 0) {
+        if (amount < 0) transaction.debit = Math.abs(amount);
+        else transaction.credit = amount;
+      }
+      transactions.push(transaction);
+      previousTransactionY = line.y;
+    });
+  });
+
+  const currency = detectCurrency(rawText, hints);
+  const data: StructuredPdfDataOutput = {
+    header: { accountNumber, statementPeriod, openingBalance, currency },
+    transactions,
+    footer: closingBalance !== undefined || totalDebits !== undefined || totalCredits !== undefined
+      ? { closingBalance, totalDebits, totalCredits }
+      : undefined,
+  };
+
+  if (columnMap === null) {
+    return { data, confidence: 0, reasons: ['No transaction table header found.'] };
+  }
+  if (transactions.length < MIN_TRANSACTIONS) {
+    return { data, confidence: 0, reasons: [...reasons, `Only ${transactions.length} transaction(s) read.`] };
+  }
+
+  const rowScore = tableLines > 0 ? (tableLines - unreadLines) / tableLines : 0;
+  if (unreadLines > 0) reasons.push(`${unreadLines} of ${tableLines} table lines could not be read.`);
+
+  let balanceScore = UNVERIFIED_BALANCE_SCORE;
+  const reconciliation = reconcileTransactions(transactions, openingBalance);
+  const checkedRows = reconciliation.rows.filter(row => row.status !== 'unverified').length;
+  if (checkedRows > 0) {
+    balanceScore = (checkedRows - reconciliation.flaggedCount) / checkedRows;
+    if (reconciliation.flaggedCount > 0) reasons.push(`${reconciliation.flaggedCount} running balance(s) do not add up.`);
+  } else if (openingBalance !== undefined && closingBalance !== undefined) {
+    const net = transactions.reduce((sum, t) => sum + (t.credit ?? 0) - (t.debit ?? 0), 0);
+    const agrees = Math.abs(openingBalance + net - closingBalance) < 0.01;
+    balanceScore = agrees ? 1 : 0;
+    if (!agrees) reasons.push('Opening balance plus transactions does not equal the closing balance.');
+  } else {
+    reasons.push('No balances to check the amounts against.');
+  }
+
+  return { data, confidence: rowScore * balanceScore, reasons };
+}
@@ -0,0 +1,32 @@
+import { NetworkError } from '@/types/errors';
+import { isProviderFailure, type ProviderFailure } from '@/ai/provider-errors';
+
+// Browsers report a server action that could not reach the server with these messages
+const FETCH_FAILURE_PATTERN = /failed to fetch|networkerror|load failed|network request failed/i;
+
+/**
+ * Runs a step that needs the server (the AI flows). Reading the PDF works offline, so statements read from
+ * their layout or a saved template convert without a connection; the other steps fail with a NetworkError
+ * that says which step needed it.
+ */
+export async function callServer<T>(step: string, call: () => Promise<T | ProviderFailure>): Promise<T> {
+  const offlineError = new NetworkError(`${step} needs an internet connection. Please reconnect and try again.`);
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    throw offlineError;
+  }
+  let result: T | ProviderFailure;
+  try {
+    result = await call();
+  } catch (error) {
+    if (error instanceof TypeError && FETCH_FAILURE_PATTERN.test(error.message)) {
+      throw offlineError;
+    }
+    throw error;
+  }
+  // Overload and rate-limit errors are returned by the server actions and become NetworkErrors,
+  // which isRetryableError accepts
+  if (isProviderFailure(result)) {
+    throw new NetworkError(`${step} failed: ${result.error.message}`, result.error.status);
+  }
+  return result;
+}
@@ -0,0 +1,159 @@
+import type { Transaction } from '@/ai/flows/structure-pdf-data-flow';
+import { describeRowReconciliation, reconcileTransactions, RECONCILIATION_COLUMN_HEADER } from '@/lib/reconciliation';
+
+/**
+ * Reads a bank statement back out of the grid shown in the preview (labelled header rows, the
+ * Date / Description / Paid Out / Paid In / Balance table, labelled footer rows), so exports use
+ * the values the user may have edited rather than the original AI output.
+ */
+
+type Grid = Array<Array<string | number | null>>;
+
+// Extra transaction columns for foreign-currency rows
+export const ORIGINAL_AMOUNT_HEADER = 'Original Amount';
+export const ORIGINAL_CURRENCY_HEADER = 'Original Currency';
+
+export interface StatementTransaction extends Transaction {
+  amount: number; // Credit minus debit
+}
+
+export interface StatementExport {
+  bankName?: string;
+  accountNumber?: string;
+  accountHolder?: string;
+  statementPeriod?: string;
+  statementDate?: string;
+  openingBalance?: number;
+  closingBalance?: number;
+  totalDebits?: number;
+  totalCredits?: number;
+  currency?: string; // ISO 4217 code of the account
+  transactions: StatementTransaction[];
+}
+
+/** Where the transaction table sits in the grid: its header row and the rows after it up to the footer. */
+export interface StatementTableBounds {
+  headerRow: number;
+  endRow: number; // Last transaction row (equal to headerRow when the table is empty)
+}
+
+function toNumber(value: string | number | null | undefined): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value.replace(/,/g, ''));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function labelValue(grid: Grid, label: string): string | number | null {
+  const row = grid.find(cells => String(cells[0] ?? '').trim().toLowerCase() === label);
+  return row?.[1] ?? null;
+}
+
+function labelText(grid: Grid, label: string): string | undefined {
+  const value = labelValue(grid, label);
+  return value !== null && String(value).trim() !== '' ? String(value) : undefined;
+}
+
+/**
+ * Finds the transaction table of a bank statement grid. Returns null for grids without one.
+ */
+export function findStatementTable(grid: Grid): StatementTableBounds | null {
+  const headerRow = grid.findIndex(row => String(row[0] ?? '').trim().toLowerCase() === 'date');
+  if (headerRow === -1) return null;
+
+  let endRow = headerRow;
+  while (endRow + 1 < grid.length) {
+    const date = String(grid[endRow + 1][0] ?? '').trim();
+    if (date === '' || date.endsWith(':')) break; // Blank row or footer section
+    endRow++;
+  }
+  return { headerRow, endRow };
+}
+
+/**
+ * Reads the transaction table (Date, Description, Paid Out, Paid In, Balance) and the labelled
+ * header/footer values back out of a bank statement grid. Returns null for grids without one.
+ */
+export function readStatementFromGrid(grid: Grid): StatementExport | null {
+  const bounds = findStatementTable(grid);
+  if (!bounds) return null;
+
+  const headers = grid[bounds.headerRow].map(cell => String(cell ?? '').trim().toLowerCase());
+  const descriptionCol = headers.indexOf('description');
+  const debitCol = headers.indexOf('paid out');
+  const creditCol = headers.indexOf('paid in');
+  const balanceCol = headers.indexOf('balance');
+  const originalAmountCol = headers.indexOf(ORIGINAL_AMOUNT_HEADER.toLowerCase());
+  const originalCurrencyCol = headers.indexOf(ORIGINAL_CURRENCY_HEADER.toLowerCase());
+  if (descriptionCol === -1 || (debitCol === -1 && creditCol === -1)) return null;
+
+  const transactions: StatementTransaction[] = [];
+  for (let rowIndex = bounds.headerRow + 1; rowIndex <= bounds.endRow; rowIndex++) {
+    const row = grid[rowIndex];
+    const debit = (debitCol === -1 ? null : toNumber(row[debitCol])) ?? undefined;
+    const credit = (creditCol === -1 ? null : toNumber(row[creditCol])) ?? undefined;
+    const originalAmount = (originalAmountCol === -1 ? null : toNumber(row[originalAmountCol])) ?? undefined;
+    const originalCurrency = originalCurrencyCol === -1 ? '' : String(row[originalCurrencyCol] ?? '').trim().toUpperCase();
+    transactions.push({
+      date: String(row[0] ?? '').trim(),
+      description: String(row[descriptionCol] ?? '').trim(),
+      debit,
+      credit,
+      amount: Math.round(((credit ?? 0) - (debit ?? 0)) * 100) / 100,
+      balance: balanceCol === -1 ? null : toNumber(row[balanceCol]),
+      ...(originalAmount !== undefined ? { originalAmount } : {}),
+      ...(originalCurrency ? { originalCurrency } : {}),
+    });
+  }
+
+  return {
+    bankName: labelText(grid, 'bank name:'),
+    accountNumber: labelText(grid, 'account number:'),
+    accountHolder: labelText(grid, 'account holder:'),
+    statementPeriod: labelText(grid, 'statement period:'),
+    statementDate: labelText(grid, 'statement date:'),
+    openingBalance: toNumber(labelValue(grid, 'opening balance:')) ?? undefined,
+    closingBalance: toNumber(labelValue(grid, 'closing balance:')) ?? undefined,
+    totalDebits: toNumber(labelValue(grid, 'total debits:')) ?? undefined,
+    totalCredits: toNumber(labelValue(grid, 'total credits:')) ?? undefined,
+    currency: labelText(grid, 'currency:')?.toUpperCase(),
+    transactions,
+  };
+}
+
+/**
+ * Recomputes the Balance Check column of a bank statement grid from its current values, e.g. after an edit:
+ * the flags are rewritten, and the column is added when rows stop adding up and removed once they all do.
+ * Returns the grid itself when nothing changes or it has no transaction table.
+ */
+export function reconcileStatementGrid(grid: Grid): Grid {
+  const bounds = findStatementTable(grid);
+  const statement = readStatementFromGrid(grid);
+  if (!bounds || !statement) return grid;
+
+  const reconciliation = reconcileTransactions(statement.transactions, statement.openingBalance);
+  const existingCol = grid[bounds.headerRow].indexOf(RECONCILIATION_COLUMN_HEADER);
+  if (reconciliation.isReconciled && existingCol === -1) return grid;
+  const column = existingCol === -1 ? grid[bounds.headerRow].length : existingCol;
+
+  let changed = false;
+  const reconciled = grid.map((row, rowIndex) => {
+    if (rowIndex < bounds.headerRow || rowIndex > bounds.endRow) return row;
+    if (reconciliation.isReconciled) {
+      changed = true;
+      return row.filter((_, col) => col !== column);
+    }
+    const flag = rowIndex === bounds.headerRow
+      ? RECONCILIATION_COLUMN_HEADER
+      : describeRowReconciliation(reconciliation.rows[rowIndex - bounds.headerRow - 1]) || null;
+    if ((row[column] ?? null) === flag) return row;
+    changed = true;
+    const updated = [...row];
+    while (updated.length < column) updated.push(null);
+    updated[column] = flag;
+    return updated;
+  });
+  return changed ? reconciled : grid;
+}
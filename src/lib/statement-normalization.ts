@@ -0,0 +1,342 @@
+import type { StructuredPdfDataOutput, Transaction } from '@/ai/flows/structure-pdf-data-flow';
+
+/**
+ * Deterministic clean-up of AI-structured bank statements.
+ * The model is asked for ISO dates and plain positive amounts, but statements written as "1.234,56",
+ * "03/02/2024" (3 February) or "(45.00)" / "45.00-" regularly come back misread. Each value is checked
+ * against the raw text in the statement's own number and date conventions, and every change is
+ * reported so the user can review it.
+ */
+
+export type DateOrder = 'DMY' | 'MDY';
+
+export interface StatementLocale {
+  decimalSeparator: '.' | ',';
+  dateOrder: DateOrder;
+  language?: string; // ISO 639-1, used for month names
+}
+
+/** What is known about the document before its text is inspected, e.g. from classification. */
+export interface StatementLocaleHints {
+  language?: string;
+  currency?: string;
+}
+
+export interface StatementNormalizationResult {
+  data: StructuredPdfDataOutput;
+  corrections: string[];
+}
+
+interface AmountOccurrences {
+  plain: number;
+  negative: number; // Written as "(45.00)", "-45.00", "45.00-" or "45.00 DR"
+}
+
+// Languages whose statements normally use a decimal comma ("1.234,56")
+const DECIMAL_COMMA_LANGUAGES = new Set(['de', 'fr', 'es', 'it', 'nl', 'pt', 'pl', 'sv', 'da', 'nb', 'no', 'fi', 'cs', 'tr', 'ru', 'id']);
+
+const NUMERIC_DATE_PATTERN = /\b(\d{1,2})[./-](\d{1,2})[./-](\d{4}|\d{2})\b/g;
+const SHORT_NUMERIC_DATE_PATTERN = /\b(\d{1,2})\/(\d{1,2})\b(?!\/\d)/g;
+const ISO_DATE_PATTERN = /\b\d{4}-\d{2}-\d{2}\b/g;
+// Group 1 keeps the character before the number so digits inside words or longer numbers are skipped
+const AMOUNT_PATTERN = /(^|[^\w.,])(\()?([-−])?(\d{1,3}(?:[.,'\u00a0\u202f]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?)(?![\d])([-−](?!\d))?(\))?(\s?(?:DR|Dr)\b)?/g;
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function decimalPlaces(value: number): number {
+  return (String(value).split('.')[1] || '').length;
+}
+
+function twoDigits(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  if (month < 1 || month > 12 || day < 1) return false;
+  return day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  return isValidDate(year, month, day) ? `${year}-${twoDigits(month)}-${twoDigits(day)}` : null;
+}
+
+function expandYear(year: string): number {
+  return year.length === 2 ? 2000 + Number(year) : Number(year);
+}
+
+/**
+ * Works out the statement's decimal separator and day/month order from its text,
+ * falling back to the language and currency hints when the text is not conclusive.
+ */
+export function detectStatementLocale(rawText: string, hints: StatementLocaleHints = {}): StatementLocale {
+  const language = hints.language?.toLowerCase().slice(0, 2);
+
+  // Two decimals after a comma or point, not followed by more digits (which would make it a date or an ID)
+  const commaDecimals = rawText.match(/\d,\d{2}(?![.,]?\d)/g)?.length ?? 0;
+  const pointDecimals = rawText.match(/\d\.\d{2}(?![.,]?\d)/g)?.length ?? 0;
+  const decimalSeparator = commaDecimals !== pointDecimals
+    ? (commaDecimals > pointDecimals ? ',' : '.')
+    : (language && DECIMAL_COMMA_LANGUAGES.has(language) ? ',' : '.');
+
+  // A first part above 12 can only be a day, a second part above 12 only a day in month-first dates
+  let dayFirst = 0;
+  let monthFirst = 0;
+  for (const match of rawText.matchAll(NUMERIC_DATE_PATTERN)) {
+    const first = Number(match[1]);
+    const second = Number(match[2]);
+    if (first > 12 && second <= 12) dayFirst++;
+    else if (second > 12 && first <= 12) monthFirst++;
+  }
+  const usesMonthFirstByDefault = hints.currency ? hints.currency.toUpperCase() === 'USD' : language === 'en';
+  const dateOrder: DateOrder = dayFirst !== monthFirst
+    ? (dayFirst > monthFirst ? 'DMY' : 'MDY')
+    : (usesMonthFirstByDefault ? 'MDY' : 'DMY');
+
+  return { decimalSeparator, dateOrder, language };
+}
+
+/**
+ * Parses a number written in the statement's convention, e.g. "1.234,56" with a decimal comma.
+ */
+export function parseLocaleNumber(text: string, decimalSeparator: '.' | ','): number | null {
+  const thousands = decimalSeparator === ',' ? /[.'\u00a0\u202f\s]/g : /[,'\u00a0\u202f\s]/g;
+  const value = Number(text.replace(thousands, '').replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Indexes every amount in the raw text by its absolute value (in cents), noting whether it was written as negative.
+ */
+function indexAmounts(rawText: string, locale: StatementLocale): Map<string, AmountOccurrences> {
+  const text = rawText.replace(ISO_DATE_PATTERN, ' ').replace(NUMERIC_DATE_PATTERN, ' ');
+  const amounts = new Map<string, AmountOccurrences>();
+  for (const match of text.matchAll(AMOUNT_PATTERN)) {
+    const [, , openParen, leadingMinus, digits, trailingMinus, closeParen, debitMarker] = match;
+    const value = parseLocaleNumber(digits, locale.decimalSeparator);
+    if (value === null) continue;
+    const key = value.toFixed(2);
+    const entry = amounts.get(key) ?? { plain: 0, negative: 0 };
+    const isNegative = Boolean((openParen && closeParen) || leadingMinus || trailingMinus || debitMarker);
+    if (isNegative) entry.negative++;
+    else entry.plain++;
+    amounts.set(key, entry);
+  }
+  return amounts;
+}
+
+/**
+ * Month names in the statement's language and in English, lower-cased without accents or dots,
+ * in both their long and abbreviated forms.
+ */
+export function buildMonthNames(language?: string): Map<string, number> {
+  const names = new Map<string, number>();
+  const normalise = (name: string) => name.normalize('NFD').replace(/[\u0300-\u036f.]/g, '').toLowerCase();
+  for (const locale of [...new Set([language, 'en'].filter((value): value is string => Boolean(value)))]) {
+    for (const month of ['long', 'short'] as const) {
+      let formatter: Intl.DateTimeFormat;
+      try {
+        formatter = new Intl.DateTimeFormat(locale, { month, timeZone: 'UTC' });
+      } catch {
+        continue; // Unsupported language code
+      }
+      for (let index = 0; index < 12; index++) {
+        const name = normalise(formatter.format(new Date(Date.UTC(2024, index, 15))));
+        names.set(name, index + 1);
+        if (name.length > 3) names.set(name.slice(0, 3), index + 1);
+      }
+    }
+  }
+  return names;
+}
+
+/**
+ * Parses a date as printed on a statement ("03/02/2024", "3 Feb 2024", "Feb 3, 2024", "YYYY-02-03")
+ * into an ISO date. Dates without a year take the fallback year. Returns null when it cannot be read.
+ */
+export function parseStatementDate(
+  text: string,
+  locale: StatementLocale,
+  fallbackYear: number | null,
+  monthNames: Map<string, number> = buildMonthNames(locale.language)
+): string | null {
+  const value = text.trim();
+  const yearOf = (year: string | undefined) => (year ? expandYear(year) : fallbackYear);
+
+  const iso = value.match(/^(\d{4}|[Yy]{2,4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) {
+    const year = /^\d+$/.test(iso[1]) ? Number(iso[1]) : fallbackYear;
+    return year === null ? null : toIsoDate(year, Number(iso[2]), Number(iso[3]));
+  }
+
+  const numeric = value.match(/^(\d{1,2})[./-](\d{1,2})(?:[./-](\d{4}|\d{2}))?\.?$/);
+  if (numeric) {
+    const year = yearOf(numeric[3]);
+    const [day, month] = locale.dateOrder === 'DMY'
+      ? [Number(numeric[1]), Number(numeric[2])]
+      : [Number(numeric[2]), Number(numeric[1])];
+    return year === null ? null : toIsoDate(year, month, day);
+  }
+
+  const lookupMonth = (name: string) => monthNames.get(name.normalize('NFD').replace(/[\u0300-\u036f.]/g, '').toLowerCase());
+  const dayFirst = value.match(/^(\d{1,2})(?:st|nd|rd|th)?\.?[\s-]+([^\d\s,-]+)[\s,-]*(\d{4}|\d{2})?$/i);
+  const monthFirst = value.match(/^([^\d\s,-]+)[\s-]+(\d{1,2})(?:st|nd|rd|th)?,?\s*(\d{4}|\d{2})?$/i);
+  const parts = dayFirst
+    ? { day: dayFirst[1], month: dayFirst[2], year: dayFirst[3] }
+    : monthFirst ? { day: monthFirst[2], month: monthFirst[1], year: monthFirst[3] } : null;
+  if (!parts) return null;
+  const month = lookupMonth(parts.month);
+  const year = yearOf(parts.year);
+  return month === undefined || year === null ? null : toIsoDate(year, month, Number(parts.day));
+}
+
+// Month-day keys ("MM-DD") of the numeric dates in the text, read in the statement's date order
+function collectTextMonthDays(rawText: string, locale: StatementLocale): Set<string> {
+  const keys = new Set<string>();
+  const add = (first: string, second: string) => {
+    const [day, month] = locale.dateOrder === 'DMY' ? [Number(first), Number(second)] : [Number(second), Number(first)];
+    if (isValidDate(2024, month, day)) keys.add(`${twoDigits(month)}-${twoDigits(day)}`);
+  };
+  for (const match of rawText.matchAll(NUMERIC_DATE_PATTERN)) add(match[1], match[2]);
+  for (const match of rawText.matchAll(SHORT_NUMERIC_DATE_PATTERN)) add(match[1], match[2]);
+  return keys;
+}
+
+// The year most transactions fall in, else the first year in the statement period
+function inferStatementYear(data: StructuredPdfDataOutput): number | null {
+  const counts = new Map<number, number>();
+  for (const t of data.transactions) {
+    const match = t.date?.match(/^(\d{4})-\d{2}-\d{2}$/);
+    if (match) counts.set(Number(match[1]), (counts.get(Number(match[1])) ?? 0) + 1);
+  }
+  if (counts.size > 0) return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+  const periodYear = `${data.header?.statementPeriod ?? ''} ${data.header?.statementDate ?? ''}`.match(/\b(19|20)\d{2}\b/);
+  return periodYear ? Number(periodYear[0]) : null;
+}
+
+/**
+ * Checks an amount against the text. Amounts that do not appear in the text are re-read the two ways
+ * a decimal comma is commonly misread: "1.234,56" taken as 1.23456 (or 1.234), and as 123456.
+ */
+function resolveAmount(value: number, amounts: Map<string, AmountOccurrences>): { value: number; occurrences?: AmountOccurrences } {
+  const absolute = Math.abs(value);
+  const found = amounts.get(absolute.toFixed(2));
+  if (found) return { value, occurrences: found };
+
+  const candidates: number[] = [];
+  if (!Number.isInteger(absolute) && decimalPlaces(absolute) !== 2) candidates.push(roundCents(absolute * 1000));
+  if (Number.isInteger(absolute) && absolute >= 100) candidates.push(roundCents(absolute / 100));
+  for (const candidate of candidates) {
+    const occurrences = amounts.get(candidate.toFixed(2));
+    if (occurrences) return { value: Math.sign(value) * candidate, occurrences };
+  }
+  return { value };
+}
+
+function isOnlyNegative(occurrences: AmountOccurrences | undefined): boolean {
+  return Boolean(occurrences && occurrences.negative > 0 && occurrences.plain === 0);
+}
+
+/**
+ * Normalises the numbers and dates of a structured bank statement against its raw text.
+ * Returns a corrected copy of the data and one message per correction made.
+ */
+export function normalizeStatementData(
+  data: StructuredPdfDataOutput,
+  rawText: string,
+  hints: StatementLocaleHints = {}
+): StatementNormalizationResult {
+  const locale = detectStatementLocale(rawText, { ...hints, currency: data.header?.currency ?? hints.currency });
+  const amounts = indexAmounts(rawText, locale);
+  const textMonthDays = collectTextMonthDays(rawText, locale);
+  const monthNames = buildMonthNames(locale.language);
+  const fallbackYear = inferStatementYear(data);
+  const corrections: string[] = [];
+
+  // Header and footer figures: scale misreads, and balances printed only as negative
+  const normaliseFigures = <T extends object>(section: T | undefined, fields: Array<[keyof T, string, boolean]>): T | undefined => {
+    if (!section) return section;
+    const normalised = { ...section };
+    for (const [field, label, isBalance] of fields) {
+      const value = section[field];
+      if (typeof value !== 'number') continue;
+      const resolved = resolveAmount(value, amounts);
+      let corrected = resolved.value;
+      if (isBalance && corrected > 0 && isOnlyNegative(resolved.occurrences)) corrected = -corrected;
+      if (corrected !== value) {
+        corrections.push(`${label} ${value} corrected to ${corrected} to match the document`);
+        (normalised as Record<keyof T, unknown>)[field] = corrected;
+      }
+    }
+    return normalised;
+  };
+
+  const header = normaliseFigures(data.header, [['openingBalance', 'Opening balance', true]]);
+  const footer = normaliseFigures(data.footer, [
+    ['closingBalance', 'Closing balance', true],
+    ['totalDebits', 'Total debits', false],
+    ['totalCredits', 'Total credits', false],
+    ['totalWithdrawals', 'Total withdrawals', false],
+    ['totalDeposits', 'Total deposits', false],
+  ]);
+
+  const transactions = data.transactions.map((original, index): Transaction => {
+    const t: Transaction = { ...original };
+    const note = (message: string) => corrections.push(`Transaction ${index + 1}: ${message}`);
+
+    // Dates: re-read anything that is not a valid ISO date, then undo day/month swaps the text contradicts
+    const parsedDate = parseStatementDate(t.date, locale, fallbackYear, monthNames);
+    if (parsedDate && parsedDate !== t.date) {
+      note(`date "${t.date}" corrected to ${parsedDate}`);
+      t.date = parsedDate;
+    }
+    const iso = t.date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (iso && textMonthDays.size > 0) {
+      const [month, day] = [Number(iso[2]), Number(iso[3])];
+      const swapped = `${iso[1]}-${iso[3]}-${iso[2]}`;
+      if (day <= 12 && day !== month && !textMonthDays.has(`${iso[2]}-${iso[3]}`) && textMonthDays.has(`${iso[3]}-${iso[2]}`)) {
+        note(`date ${t.date} corrected to ${swapped} (day and month were swapped)`);
+        t.date = swapped;
+      }
+    }
+
+    // Paid Out / Paid In: positive numbers in the document's number format
+    for (const [field, label] of [['debit', 'Paid Out'], ['credit', 'Paid In']] as const) {
+      const value = t[field];
+      if (value === undefined || value === null) continue;
+      const { value: resolved } = resolveAmount(value, amounts);
+      if (resolved !== value) {
+        note(`${label} ${value} corrected to ${resolved} to match the document's number format`);
+      }
+      t[field] = resolved;
+    }
+    if (t.debit !== undefined && t.debit < 0) {
+      note(`Paid Out ${t.debit} stored as ${-t.debit}; amounts are positive numbers`);
+      t.debit = -t.debit;
+    }
+    // Money in that the document only shows as negative ("-45.00", "(45.00)", "45.00-") is money out
+    if (t.credit !== undefined && (t.debit === undefined || t.debit === null)) {
+      const occurrences = amounts.get(Math.abs(t.credit).toFixed(2));
+      if (t.credit < 0 || isOnlyNegative(occurrences)) {
+        note(`${Math.abs(t.credit)} moved from Paid In to Paid Out; the document shows it as negative`);
+        t.debit = Math.abs(t.credit);
+        delete t.credit;
+      }
+    }
+
+    // Running balance: scale misreads and overdrawn balances printed only as negative
+    if (t.balance !== undefined && t.balance !== null) {
+      const resolved = resolveAmount(t.balance, amounts);
+      let balance = resolved.value;
+      if (balance > 0 && isOnlyNegative(resolved.occurrences)) balance = -balance;
+      if (balance !== t.balance) {
+        note(`Balance ${t.balance} corrected to ${balance} to match the document`);
+        t.balance = balance;
+      }
+    }
+    return t;
+  });
+
+  return { data: { ...data, header, footer, transactions }, corrections };
+}
@@ -0,0 +1,291 @@
+import type { ExcelFormula, ExcelSheet } from '@/lib/excel-export';
+import { findStatementTable, readStatementFromGrid } from '@/lib/statement-grid';
+import { RECONCILIATION_COLUMN_HEADER } from '@/lib/reconciliation';
+import { columnLabel } from '@/lib/grid-editing';
+
+/**
+ * Splits a bank statement grid into the sheets of a structured workbook:
+ * Metadata (bank, account, period, source file), Transactions (an Excel table with filters) and
+ * Summary (totals, reconciliation and monthly subtotals as live formulas over the table).
+ */
+
+type Grid = Array<Array<string | number | null>>;
+type Cell = string | number | null;
+
+export interface StatementWorkbookNames {
+  metadataSheet: string;
+  transactionsSheet: string;
+  summarySheet: string;
+  tableName: string;
+}
+
+// Formulas without a number format get the sheet's currency format
+const COUNT_FORMAT = '0';
+const COMPUTED_BALANCE_HEADER = 'Computed Balance';
+const BALANCE_DIFFERENCE_HEADER = 'Balance Difference';
+// Differences below half a cent count as reconciled
+const RECONCILIATION_TOLERANCE = 0.005;
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function quoteSheetName(name: string): string {
+  return `'${name.replace(/'/g, "''")}'`;
+}
+
+// Special characters in structured reference column names are escaped with an apostrophe
+function columnRef(tableName: string, header: string): string {
+  return `${tableName}[${header.replace(/(['#[\]])/g, "'$1")}]`;
+}
+
+/**
+ * Table headers must be unique, non-empty text; rows are padded to the header width.
+ */
+function normaliseTable(tableGrid: Grid): Grid {
+  const width = Math.max(...tableGrid.map(row => row.length));
+  const usedHeaders = new Set<string>();
+  const headers = Array.from({ length: width }, (_, col) => {
+    const base = String(tableGrid[0][col] ?? '').trim() || `Column${col + 1}`;
+    let header = base;
+    for (let suffix = 2; usedHeaders.has(header.toLowerCase()); suffix++) header = `${base}${suffix}`;
+    usedHeaders.add(header.toLowerCase());
+    return header;
+  });
+  return [headers, ...tableGrid.slice(1).map(row => Array.from({ length: width }, (_, col) => row[col] ?? null))];
+}
+
+/**
+ * Appends Computed Balance (previous balance minus Paid Out plus Paid In) and Balance Difference
+ * (computed minus extracted balance) formula columns to the transaction table, in place.
+ * The first row starts from the statement's opening balance, or from its own extracted balance when there is none.
+ */
+function addComputedBalanceColumns(
+  tableData: Grid,
+  headers: string[],
+  opening: { cell: string; value: number } | null
+): Record<string, ExcelFormula> {
+  const col = (label: string) => headers.findIndex(header => header.toLowerCase() === label);
+  const paidOutCol = col('paid out');
+  const paidInCol = col('paid in');
+  const balanceCol = col('balance');
+  const computedCol = headers.length;
+  const differenceCol = headers.length + 1;
+  const cellAt = (column: number, row: number) => `${columnLabel(column)}${row}`;
+  const amountAt = (column: number, row: number) => (column === -1 ? '0' : `N(${cellAt(column, row)})`);
+  const valueAt = (column: number, rowIndex: number) => {
+    const value = column === -1 ? null : tableData[rowIndex][column];
+    return typeof value === 'number' ? value : 0;
+  };
+
+  tableData[0].push(COMPUTED_BALANCE_HEADER, BALANCE_DIFFERENCE_HEADER);
+
+  const formulas: Record<string, ExcelFormula> = {};
+  let previous = 0;
+  for (let rowIndex = 1; rowIndex < tableData.length; rowIndex++) {
+    const row = rowIndex + 1; // Excel row; the header is row 1
+    const extracted = tableData[rowIndex][balanceCol];
+    const movement = valueAt(paidInCol, rowIndex) - valueAt(paidOutCol, rowIndex);
+    let computed: number;
+    let start: string;
+    if (rowIndex === 1 && opening) {
+      start = opening.cell;
+      computed = roundCents(opening.value + movement);
+    } else if (rowIndex === 1) {
+      start = `${cellAt(balanceCol, row)}+${amountAt(paidOutCol, row)}-${amountAt(paidInCol, row)}`;
+      computed = typeof extracted === 'number' ? extracted : roundCents(movement);
+    } else {
+      start = cellAt(computedCol, row - 1);
+      computed = roundCents(previous + movement);
+    }
+    previous = computed;
+
+    formulas[cellAt(computedCol, row)] = { formula: `${start}-${amountAt(paidOutCol, row)}+${amountAt(paidInCol, row)}` };
+    formulas[cellAt(differenceCol, row)] = {
+      formula: `IF(ISNUMBER(${cellAt(balanceCol, row)}),ROUND(${cellAt(computedCol, row)}-${cellAt(balanceCol, row)},2),"")`,
+    };
+    tableData[rowIndex].push(computed, typeof extracted === 'number' ? roundCents(computed - extracted) : '');
+  }
+  return formulas;
+}
+
+function parseMonth(date: string): { year: number; month: number } | null {
+  const match = date.match(/^(\d{4})-(\d{2})-\d{2}$/);
+  return match ? { year: Number(match[1]), month: Number(match[2]) } : null;
+}
+
+/**
+ * Builds the Metadata, Transactions and Summary sheets for a bank statement sheet.
+ * Returns null when the grid has no transaction table, so the caller can write it as a single sheet.
+ */
+export function buildStatementWorkbook(sheet: ExcelSheet, names: StatementWorkbookNames): ExcelSheet[] | null {
+  const { data: grid, sourceFileName } = sheet;
+  const bounds = findStatementTable(grid);
+  const statement = readStatementFromGrid(grid);
+  if (!bounds || !statement || statement.transactions.length === 0) return null;
+  // The currency printed on the statement wins over the one the classifier guessed
+  const currency = statement.currency ?? sheet.currency;
+
+  const tableData = normaliseTable(grid.slice(bounds.headerRow, bounds.endRow + 1));
+  const headers = tableData[0].map(String);
+  const findHeader = (label: string) => headers.find(header => header.toLowerCase() === label);
+  const dateHeader = headers[0];
+  const paidOutHeader = findHeader('paid out');
+  const paidInHeader = findHeader('paid in');
+  const balanceHeader = findHeader('balance');
+  const checkHeader = findHeader(RECONCILIATION_COLUMN_HEADER.toLowerCase());
+  const ref = (header: string) => columnRef(names.tableName, header);
+  const sumOf = (header: string | undefined) => (header ? `SUM(${ref(header)})` : '0');
+
+  // --- Metadata ---
+  const metadata: Grid = [['Field', 'Value']];
+  const metadataRowOf: Record<string, number> = {};
+  const addMetadata = (key: string, label: string, value: Cell | undefined) => {
+    if (value === undefined || value === null || value === '') return;
+    metadata.push([label, value]);
+    metadataRowOf[key] = metadata.length; // 1-based Excel row
+  };
+  addMetadata('bankName', 'Bank Name', statement.bankName);
+  addMetadata('accountNumber', 'Account Number', statement.accountNumber);
+  addMetadata('accountHolder', 'Account Holder', statement.accountHolder);
+  addMetadata('statementPeriod', 'Statement Period', statement.statementPeriod);
+  addMetadata('statementDate', 'Statement Date', statement.statementDate);
+  addMetadata('openingBalance', 'Opening Balance', statement.openingBalance);
+  addMetadata('closingBalance', 'Closing Balance', statement.closingBalance);
+  addMetadata('totalDebits', 'Total Debits (statement)', statement.totalDebits);
+  addMetadata('totalCredits', 'Total Credits (statement)', statement.totalCredits);
+  addMetadata('currency', 'Currency', currency);
+  addMetadata('sourceFile', 'Source File', sourceFileName);
+  const metadataCell = (key: string) => `${quoteSheetName(names.metadataSheet)}!B${metadataRowOf[key]}`;
+
+  // --- Summary ---
+  const summary: Grid = [];
+  const formulas: Record<string, ExcelFormula> = {};
+  const addRow = (cells: Array<Cell | { value: Cell; formula: string; numberFormat?: string }>) => {
+    const row = summary.length + 1;
+    summary.push(cells.map((cell, col) => {
+      if (cell !== null && typeof cell === 'object') {
+        formulas[`${String.fromCharCode(65 + col)}${row}`] = { formula: cell.formula, numberFormat: cell.numberFormat };
+        return cell.value;
+      }
+      return cell;
+    }));
+    return row;
+  };
+  // Excel row the next addRow call writes to, for formulas that refer to their own row
+  const nextRow = () => summary.length + 1;
+
+  const transactions = statement.transactions;
+  const paidOut = roundCents(transactions.reduce((sum, t) => sum + (t.debit ?? 0), 0));
+  const paidIn = roundCents(transactions.reduce((sum, t) => sum + (t.credit ?? 0), 0));
+  const net = roundCents(paidIn - paidOut);
+  const withStatement = (key: 'totalDebits' | 'totalCredits', value: number | undefined) =>
+    value === undefined ? null : { value, formula: metadataCell(key) };
+
+  addRow(['Totals', 'Calculated', 'Statement', 'Difference']);
+  const paidOutRow = addRow([
+    'Paid Out',
+    { value: paidOut, formula: sumOf(paidOutHeader) },
+    withStatement('totalDebits', statement.totalDebits),
+    statement.totalDebits === undefined ? null : { value: roundCents(paidOut - statement.totalDebits), formula: `B${nextRow()}-C${nextRow()}` },
+  ]);
+  const paidInRow = addRow([
+    'Paid In',
+    { value: paidIn, formula: sumOf(paidInHeader) },
+    withStatement('totalCredits', statement.totalCredits),
+    statement.totalCredits === undefined ? null : { value: roundCents(paidIn - statement.totalCredits), formula: `B${nextRow()}-C${nextRow()}` },
+  ]);
+  const netRow = addRow(['Net Movement', { value: net, formula: `B${paidInRow}-B${paidOutRow}` }, null, null]);
+  addRow(['Transactions', { value: transactions.length, formula: `ROWS(${ref(dateHeader)})`, numberFormat: COUNT_FORMAT }, null, null]);
+  addRow([]);
+
+  // Opening balance: from the statement, else worked back from the first running balance
+  const first = transactions[0];
+  const derivedOpening = first.balance !== null && first.balance !== undefined ? roundCents(first.balance - first.amount) : undefined;
+  const opening = statement.openingBalance ?? derivedOpening;
+  const openingFormula = statement.openingBalance !== undefined
+    ? metadataCell('openingBalance')
+    : balanceHeader
+      ? `INDEX(${ref(balanceHeader)},1)-${paidInHeader ? `N(INDEX(${ref(paidInHeader)},1))` : '0'}+${paidOutHeader ? `N(INDEX(${ref(paidOutHeader)},1))` : '0'}`
+      : null;
+
+  // Closing balance to check against: from the statement, else the last running balance
+  const last = transactions[transactions.length - 1];
+  const lastBalance = last.balance ?? undefined;
+  const statementClosing = statement.closingBalance ?? lastBalance;
+  const closingFormula = statement.closingBalance !== undefined
+    ? metadataCell('closingBalance')
+    : balanceHeader ? `INDEX(${ref(balanceHeader)},ROWS(${ref(balanceHeader)}))` : null;
+
+  addRow(['Reconciliation', 'Calculated', 'Statement', 'Difference']);
+  if (opening !== undefined && openingFormula) {
+    const openingRow = addRow(['Opening Balance', { value: opening, formula: openingFormula }, null, null]);
+    const calculatedClosing = roundCents(opening + net);
+    const closingRow = nextRow();
+    if (statementClosing !== undefined && closingFormula) {
+      const difference = roundCents(calculatedClosing - statementClosing);
+      addRow([
+        statement.closingBalance !== undefined ? 'Closing Balance' : 'Closing Balance (last running balance)',
+        { value: calculatedClosing, formula: `B${openingRow}+B${netRow}` },
+        { value: statementClosing, formula: closingFormula },
+        { value: difference, formula: `B${closingRow}-C${closingRow}` },
+      ]);
+      addRow(['Result', {
+        value: Math.abs(difference) < RECONCILIATION_TOLERANCE ? 'Reconciled' : 'Does not reconcile',
+        formula: `IF(ABS(D${closingRow})<${RECONCILIATION_TOLERANCE},"Reconciled","Does not reconcile")`,
+      }, null, null]);
+    } else {
+      addRow(['Closing Balance', { value: calculatedClosing, formula: `B${openingRow}+B${netRow}` }, null, null]);
+      addRow(['Result', 'No closing balance to check against', null, null]);
+    }
+  } else {
+    addRow(['Result', 'No opening balance or running balance to reconcile', null, null]);
+  }
+  if (checkHeader) {
+    const checkCol = headers.indexOf(checkHeader);
+    const flagged = tableData.slice(1).filter(row => String(row[checkCol] ?? '').trim() !== '').length;
+    addRow(['Rows Flagged', { value: flagged, formula: `COUNTIF(${ref(checkHeader)},"?*")`, numberFormat: COUNT_FORMAT }, null, null]);
+  }
+
+  // Monthly subtotals; only ISO dates become date cells, so only those months can be summed by formula
+  const months = new Map<string, { year: number; month: number; paidOut: number; paidIn: number }>();
+  for (const t of transactions) {
+    const parsed = parseMonth(t.date);
+    if (!parsed) continue;
+    const key = `${parsed.year}-${String(parsed.month).padStart(2, '0')}`;
+    const entry = months.get(key) ?? { ...parsed, paidOut: 0, paidIn: 0 };
+    entry.paidOut += t.debit ?? 0;
+    entry.paidIn += t.credit ?? 0;
+    months.set(key, entry);
+  }
+  if (months.size > 0) {
+    addRow([]);
+    addRow(['Month', 'Paid Out', 'Paid In', 'Net']);
+    const sumForMonth = (header: string | undefined, year: number, month: number) => header
+      ? `SUMIFS(${ref(header)},${ref(dateHeader)},">="&DATE(${year},${month},1),${ref(dateHeader)},"<"&DATE(${year},${month + 1},1))`
+      : '0';
+    for (const [key, entry] of [...months.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      const row = nextRow();
+      addRow([
+        key,
+        { value: roundCents(entry.paidOut), formula: sumForMonth(paidOutHeader, entry.year, entry.month) },
+        { value: roundCents(entry.paidIn), formula: sumForMonth(paidInHeader, entry.year, entry.month) },
+        { value: roundCents(entry.paidIn - entry.paidOut), formula: `C${row}-B${row}` },
+      ]);
+    }
+  }
+
+  const transactionFormulas = sheet.computedBalance && balanceHeader
+    ? addComputedBalanceColumns(
+        tableData,
+        headers,
+        statement.openingBalance !== undefined ? { cell: metadataCell('openingBalance'), value: statement.openingBalance } : null
+      )
+    : undefined;
+
+  return [
+    { name: names.summarySheet, data: summary, kind: 'table', formulas, currency },
+    { name: names.transactionsSheet, data: tableData, kind: 'transactions', tableName: names.tableName, formulas: transactionFormulas, currency },
+    { name: names.metadataSheet, data: metadata, kind: 'table', currency },
+  ];
+}
@@ -0,0 +1,43 @@
+/**
+ * Shared types for the server-side conversion quota ledger
+ */
+
+export type BillingCycle = 'monthly' | 'annual';
+
+export interface ActivePlan {
+  name: string;
+  planId?: string;
+  totalConversions: number;
+  usedConversions: number;
+  activatedAt: number;
+  billingCycle: BillingCycle;
+  isTrial?: boolean;
+  trialEndsAt?: number;
+  subscriptionId?: string;
+}
+
+export interface PlanDetails {
+  id: string;
+  name: string;
+  conversions: number;
+  cycle: BillingCycle;
+  price: number;
+  trialDays?: number;
+}
+
+// What the AI server actions take to run for a reserved conversion; they check the caller owns the grant
+export interface ConversionGrantCredentials {
+  grantId: string;
+  idToken: string | null; // A fresh ID token of the signed-in user; null for guests, who are known by their cookie
+}
+
+export interface LimitStatus {
+  allowed: boolean;
+  remaining: number;
+  timeToWaitMs?: number;
+  onPlan: boolean;
+  planName?: string;
+  isPlanExhausted?: boolean;
+  isTrial?: boolean;
+  trialEndsAt?: number;
+}
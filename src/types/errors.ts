@@ -112,6 +112,21 @@ export class NotFoundError extends Error implements AppError {
   }
 }
 
+/**
+ * Encrypted PDF that cannot be opened without a password, or whose password was wrong.
+ * Carries no password: it is only ever held by the caller that asked the user for it.
+ */
+export class PdfPasswordError extends Error implements AppError {
+  name = 'PdfPasswordError' as const;
+  code: 'PDF_PASSWORD_REQUIRED' | 'PDF_PASSWORD_INCORRECT';
+
+  constructor(incorrect: boolean, message?: string) {
+    super(message ?? (incorrect ? 'The password for this PDF is incorrect.' : 'This PDF is password-protected.'));
+    this.code = incorrect ? 'PDF_PASSWORD_INCORRECT' : 'PDF_PASSWORD_REQUIRED';
+    Object.setPrototypeOf(this, PdfPasswordError.prototype);
+  }
+}
+
 /**
  * Processing cancellation error
  */
@@ -205,6 +220,13 @@ export function isNotFoundError(error: unknown): error is NotFoundError {
   return error instanceof NotFoundError;
 }
 
+/**
+ * Type guard to check if error is a PdfPasswordError
+ */
+export function isPdfPasswordError(error: unknown): error is PdfPasswordError {
+  return error instanceof PdfPasswordError;
+}
+
 /**
  * Extracts error message from unknown error type
  * Handles Error instances, objects with message property, and strings
@@ -312,6 +334,12 @@ export function getUserFriendlyErrorMessage(error: unknown): string {
   if (isNotFoundError(error)) {
     return error.message || 'The requested resource was not found.';
   }
+
+  if (isPdfPasswordError(error)) {
+    return error.code === 'PDF_PASSWORD_INCORRECT'
+      ? 'The password is incorrect. Please try again.'
+      : 'This PDF is password-protected. Please enter its password to convert it.';
+  }
   
   return getErrorMessage(error);
 }
@@ -352,7 +380,7 @@ export function getErrorStatusCode(error: unknown): number {
     return 404; // Not Found
   }
 
-  if (isValidationError(error)) {
+  if (isValidationError(error) || isPdfPasswordError(error)) {
     return 400; // Bad Request
   }
 
@@ -368,8 +396,8 @@ export function getErrorStatusCode(error: unknown): number {
  */
 export function isRetryableError(error: unknown): boolean {
   if (isNetworkError(error)) {
-    // Retry on network errors and 5xx status codes
-    return !error.statusCode || error.statusCode >= 500 || error.statusCode === 408;
+    // Retry on network errors, timeouts, rate limits and 5xx status codes
+    return !error.statusCode || error.statusCode >= 500 || error.statusCode === 408 || error.statusCode === 429;
   }
 
   if (isFirebaseAuthError(error)) {
@@ -382,8 +410,8 @@ export function isRetryableError(error: unknown): boolean {
     return error.code.includes('network') || error.code.includes('unavailable');
   }
 
-  // Don't retry validation, permission, or not found errors
-  if (isValidationError(error) || isPermissionError(error) || isNotFoundError(error)) {
+  // Don't retry validation, permission, not found or PDF password errors
+  if (isValidationError(error) || isPermissionError(error) || isNotFoundError(error) || isPdfPasswordError(error)) {
     return false;
   }
 
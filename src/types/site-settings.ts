@@ -43,6 +43,9 @@ export interface PaymentGatewaySetting {
   credentials: PaymentGatewayCredentials;
 }
 
+// How privacy mode (local OCR, no AI, documents never uploaded) is offered to users
+export type OcrPrivacyPolicy = 'optional' | 'default' | 'enforced';
+
 export interface GeneralSiteSettings {
   siteTitle?: string;
   logoUrl?: string | null;
@@ -56,5 +59,32 @@ export interface GeneralSiteSettings {
   sitemapXmlContent?: string;
   maintenanceModeEnabled?: boolean;
   paymentGateways?: PaymentGatewaySetting[]; // Added for payment gateways
+  customExportProfiles?: AccountingExportProfile[]; // Admin-defined accounting CSV layouts, offered next to the built-in ones
+  ocrPrivacyMode?: OcrPrivacyPolicy; // Whether users may, by default do, or must keep documents on their device
+  defaultOcrLanguages?: string[]; // Tesseract language codes preselected for local OCR
   // future settings can be added here
 }
+
+export type AccountingExportField = 'date' | 'description' | 'payee' | 'reference' | 'amount' | 'debit' | 'credit' | 'balance';
+
+// 'signedAmount': one Amount column, money out negative. 'separateDebitCredit': positive Debit and Credit columns.
+export type AccountingSignConvention = 'signedAmount' | 'separateDebitCredit';
+
+// Date layouts and delimiters of exported files; the options offered are listed in lib/date-formats and lib/export-formats
+export type ExportDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'DD.MM.YYYY';
+export type CsvDelimiter = ',' | ';' | '|';
+
+export interface AccountingExportColumn {
+  field: AccountingExportField;
+  header: string; // Header name exactly as the accounting package expects it
+}
+
+export interface AccountingExportProfile {
+  id: string;
+  name: string; // e.g., 'QuickBooks Online'
+  columns: AccountingExportColumn[]; // In output order
+  dateFormat: ExportDateFormat;
+  signConvention: AccountingSignConvention;
+  delimiter: CsvDelimiter;
+  isBuiltIn?: boolean;
+}
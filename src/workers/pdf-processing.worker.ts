@@ -0,0 +1,77 @@
+import { extractLayoutFromPdfPages, extractTextFromPdfPages, readPdfPages, renderPdfPagesToBlobs } from '@/lib/pdf-utils';
+import { serializePdfWorkerError, type PdfWorkerRequest, type PdfWorkerResponse } from '@/lib/pdf-worker-protocol';
+
+/**
+ * Reads and renders PDFs off the main thread, so large scanned files do not freeze the page.
+ * Started and driven by pdf-worker-client; one worker runs one task and is terminated afterwards,
+ * which also cancels it.
+ */
+
+// The parts of the worker's global scope used here; the project compiles against the DOM library
+interface WorkerScope {
+  postMessage(message: PdfWorkerResponse, options: { transfer: Transferable[] }): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<PdfWorkerRequest>) => void): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+function post(message: PdfWorkerResponse, transfer: Transferable[] = []): void {
+  scope.postMessage(message, { transfer });
+}
+
+// Rendered pages the page has not acknowledged yet, and the render waiting for one of them
+let pagesInFlight = 0;
+let releaseWindow: (() => void) | null = null;
+
+async function waitForWindow(size: number): Promise<void> {
+  while (pagesInFlight >= size) {
+    await new Promise<void>(resolve => {
+      releaseWindow = resolve;
+    });
+  }
+}
+
+async function run(request: Extract<PdfWorkerRequest, { kind: 'start' }>): Promise<void> {
+  const { task, buffer, password, pageNumbers } = request;
+  const onProgress = (pageNum: number, totalPages: number) => post({ kind: 'progress', pageNum, totalPages });
+
+  switch (task.type) {
+    case 'text':
+      post({ kind: 'done', texts: await extractTextFromPdfPages(buffer, undefined, task.mode, password, pageNumbers, onProgress) });
+      return;
+    case 'layout':
+      post({ kind: 'done', layout: await extractLayoutFromPdfPages(buffer, undefined, password, pageNumbers, onProgress) });
+      return;
+    case 'pages':
+      post({ kind: 'done', pages: await readPdfPages(buffer, undefined, task.mode, password, pageNumbers, onProgress) });
+      return;
+    case 'render':
+      await renderPdfPagesToBlobs(
+        buffer,
+        async (image, pageNum, totalPages) => {
+          await waitForWindow(task.window);
+          pagesInFlight++;
+          const bytes = await image.arrayBuffer();
+          post({ kind: 'page', pageNum, totalPages, image: bytes, type: image.type }, [bytes]);
+        },
+        undefined,
+        password,
+        { scale: task.scale, pageNumbers }
+      );
+      // Finish only once the page has handled every rendered page
+      await waitForWindow(1);
+      post({ kind: 'done' });
+      return;
+  }
+}
+
+scope.addEventListener('message', (event: MessageEvent<PdfWorkerRequest>) => {
+  const request = event.data;
+  if (request.kind === 'ack') {
+    pagesInFlight--;
+    releaseWindow?.();
+    releaseWindow = null;
+    return;
+  }
+  run(request).catch(error => post({ kind: 'error', error: serializePdfWorkerError(error) }));
+});